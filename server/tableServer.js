@@ -0,0 +1,393 @@
+/**
+ * tableServer.js - The Shared Table Server
+ * ========================================
+ * A small WebSocket server that lets a group roll together from different
+ * computers. Everyone who joins the same room sees everyone else's rolls,
+ * and someone joining late is sent the room's recent rolls.
+ *
+ *   npm run table-server              listens on port 8787
+ *   PORT=9000 npm run table-server    ...or any other
+ *
+ * Then in the app: Table → enter the address shown (ws://<this machine>:8787),
+ * a room name and your name → Join.
+ *
+ * The server never rolls dice. It passes each roll on exactly as it came -
+ * expression, seed, total - except that the roller's name is always the
+ * one they joined with, so nobody can roll "as" someone else. Names are
+ * unique within a room: a second "Alice" is told why and the connection
+ * closed with CLOSE_NAME_TAKEN, and her app stops retrying until she
+ * joins again (with another name, or once her old connection is gone).
+ *
+ * Seed commitments (hashes published before a roll, see src/fairness) are
+ * where the server does add something: for each hash it picks a random
+ * nonce - only after the hash has arrived - that the roll must mix into
+ * its seed, so the player can't have picked a seed that rolls well. The
+ * nonce goes back to the player and, with the hash, to everyone else;
+ * each player's latest pair is given to anyone who joins. Rooms live in
+ * memory only: restart the server and the tables start empty.
+ *
+ * The messages are described in src/multiplayer/protocol.ts - keep the two
+ * in step.
+ *
+ * WHY NO WEBSOCKET LIBRARY?
+ * -------------------------
+ * Node has no WebSocket server built in, but the protocol (RFC 6455) is
+ * small: an HTTP "upgrade" handshake, then length-prefixed frames. Doing it
+ * here keeps the server to one file that runs with plain `node`, with
+ * nothing to install. It handles what browsers send - masked text
+ * frames, fragments, ping and close - and refuses anything else.
+ */
+import { createServer } from 'node:http'
+import { createHash, randomBytes } from 'node:crypto'
+
+const PORT = Number(process.env.PORT ?? 8787)
+
+// How many recent rolls a room keeps for late joiners
+const HISTORY_LIMIT = 50
+
+// A roll message is well under a kilobyte; anything huge is a mistake or an attack
+const MAX_MESSAGE_BYTES = 64 * 1024
+
+// Names and room names are shown in other players' history
+const MAX_NAME_LENGTH = 40
+
+// How many commitments' nonces a room remembers, for players who rejoin before rolling
+const NONCE_LIMIT = 500
+
+// Connections that stop answering pings (a laptop lid closed) are dropped
+const PING_INTERVAL_MS = 30_000
+
+// Fixed by RFC 6455 - proves the server understood the handshake
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+// Close code for a join turned away because the name is taken (4000-4999 are
+// ours to use) - the same as CLOSE_NAME_TAKEN in src/multiplayer/protocol.ts
+const CLOSE_NAME_TAKEN = 4001
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa }
+
+/**
+ * encodeFrame
+ * -----------
+ * One unfragmented frame. Frames from a server are never masked. The
+ * payload length takes 1, 3 or 9 bytes depending on its size.
+ */
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  let header
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length])
+  } else if (length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+/**
+ * createFrameReader
+ * -----------------
+ * TCP delivers bytes, not frames: one chunk may hold half a frame or three
+ * of them. Bytes are collected until a whole frame is there, unmasked, and
+ * handed to onFrame(opcode, payload, final). Returns false if the client
+ * broke the rules, and the connection should be closed.
+ */
+function createFrameReader(onFrame) {
+  let buffered = Buffer.alloc(0)
+
+  return (chunk) => {
+    buffered = Buffer.concat([buffered, chunk])
+    while (buffered.length >= 2) {
+      const final = (buffered[0] & 0x80) !== 0
+      const opcode = buffered[0] & 0x0f
+      const masked = (buffered[1] & 0x80) !== 0
+      let length = buffered[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (buffered.length < 4) return true
+        length = buffered.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffered.length < 10) return true
+        const longLength = buffered.readBigUInt64BE(2)
+        if (longLength > BigInt(MAX_MESSAGE_BYTES)) return false
+        length = Number(longLength)
+        offset = 10
+      }
+      // Browsers must mask every frame they send
+      if (!masked || length > MAX_MESSAGE_BYTES) return false
+      if (buffered.length < offset + 4 + length) return true
+
+      const mask = buffered.subarray(offset, offset + 4)
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      buffered = buffered.subarray(offset + 4 + length)
+
+      if (onFrame(opcode, payload, final) === false) return false
+    }
+    return true
+  }
+}
+
+/**
+ * Rooms
+ * -----
+ * room name → {
+ *   clients: Set of clients,
+ *   history: recent rolls, oldest first,
+ *   nonces:  "name hash" → the nonce picked for that player's commitment
+ * }
+ */
+const rooms = new Map()
+
+function getRoom(name) {
+  let room = rooms.get(name)
+  if (!room) {
+    room = { clients: new Set(), history: [], nonces: new Map() }
+    rooms.set(name, room)
+  }
+  return room
+}
+
+const playersIn = (room) => [...room.clients].map((client) => client.name)
+
+function broadcast(room, message, except = null) {
+  for (const client of room.clients) {
+    if (client !== except) client.send(message)
+  }
+}
+
+function leaveRoom(client) {
+  if (!client.room) return
+  const room = rooms.get(client.room)
+  client.room = null
+  if (!room) return
+  room.clients.delete(client)
+  broadcast(room, { type: 'players', players: playersIn(room) })
+}
+
+const commitmentsIn = (room) =>
+  Object.fromEntries([...room.clients].filter((client) => client.commitment).map((client) => [client.name, client.commitment]))
+
+const isHash = (value) => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value)
+
+const isName = (value) => typeof value === 'string' && value.trim() !== '' && value.trim().length <= MAX_NAME_LENGTH
+
+// Just enough checking that a bad roll can't break the room for everyone
+function isRoll(value) {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof value.id === 'string' &&
+    typeof value.expression === 'string' &&
+    typeof value.seed === 'string' &&
+    typeof value.total === 'number'
+  )
+}
+
+/**
+ * nonceFor
+ * --------
+ * The server's half of a roll seed: 128 random bits, picked the first time
+ * a player sends a hash. A player who rejoins and sends the same hash again
+ * gets the same nonce - a fresh one would let them reconnect until the
+ * dice suited them.
+ */
+function nonceFor(room, name, hash) {
+  const key = `${name}\n${hash}`
+  let nonce = room.nonces.get(key)
+  if (!nonce) {
+    nonce = randomBytes(16).toString('hex')
+    room.nonces.set(key, nonce)
+    // Maps keep insertion order, so the first key is the oldest
+    if (room.nonces.size > NONCE_LIMIT) room.nonces.delete(room.nonces.keys().next().value)
+  }
+  return nonce
+}
+
+/**
+ * handleMessage
+ * -------------
+ * One JSON message from a browser: join a room, or pass on a roll or a
+ * seed commitment.
+ */
+function handleMessage(client, text) {
+  let message
+  try {
+    message = JSON.parse(text)
+  } catch {
+    client.send({ type: 'error', message: 'Messages must be JSON' })
+    return
+  }
+
+  switch (message?.type) {
+    case 'join': {
+      if (!isName(message.room) || !isName(message.name)) {
+        client.send({ type: 'error', message: `Room and name must be 1-${MAX_NAME_LENGTH} characters` })
+        return
+      }
+      const room = getRoom(message.room.trim())
+      const name = message.name.trim()
+      if ([...room.clients].some((other) => other !== client && other.name.toLowerCase() === name.toLowerCase())) {
+        client.send({ type: 'error', message: `Someone called ${name} is already at this table - pick another name` })
+        client.close(CLOSE_NAME_TAKEN)
+        return
+      }
+      leaveRoom(client)
+      client.room = message.room.trim()
+      client.name = name
+      room.clients.add(client)
+      client.send({
+        type: 'welcome',
+        room: client.room,
+        players: playersIn(room),
+        history: room.history,
+        commitments: commitmentsIn(room),
+      })
+      broadcast(room, { type: 'players', players: playersIn(room) }, client)
+      console.log(`${client.name} joined ${client.room} (${room.clients.size} at the table)`)
+      return
+    }
+    case 'roll': {
+      if (!client.room) {
+        client.send({ type: 'error', message: 'Join a room before rolling' })
+        return
+      }
+      if (!isRoll(message.roll)) {
+        client.send({ type: 'error', message: 'That roll is missing its expression, seed or total' })
+        return
+      }
+      const room = getRoom(client.room)
+      const roll = { ...message.roll, roller: client.name }
+      room.history.push(roll)
+      if (room.history.length > HISTORY_LIMIT) room.history.shift()
+      broadcast(room, { type: 'roll', roll }, client)
+      return
+    }
+    case 'commit': {
+      if (!client.room) {
+        client.send({ type: 'error', message: 'Join a room before committing to a seed' })
+        return
+      }
+      if (!isHash(message.hash)) {
+        client.send({ type: 'error', message: 'A commitment must be a SHA-256 hash (64 hex digits)' })
+        return
+      }
+      const room = getRoom(client.room)
+      const nonce = nonceFor(room, client.name, message.hash)
+      client.commitment = { hash: message.hash, nonce }
+      client.send({ type: 'nonce', hash: message.hash, nonce })
+      broadcast(room, { type: 'commit', roller: client.name, hash: message.hash, nonce }, client)
+      return
+    }
+    default:
+      client.send({ type: 'error', message: `Unknown message type "${message?.type}"` })
+  }
+}
+
+/**
+ * acceptConnection
+ * ----------------
+ * Completes the handshake and wires a socket up as a client.
+ */
+function acceptConnection(request, socket) {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+
+  const client = {
+    room: null,
+    name: null,
+    commitment: null,
+    alive: true,
+    send: (message) => {
+      if (!socket.destroyed) socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))))
+    },
+    close: (code) => close(code),
+  }
+  let fragments = []
+
+  const close = (code) => {
+    if (!socket.destroyed) {
+      const payload = Buffer.alloc(2)
+      payload.writeUInt16BE(code)
+      socket.end(encodeFrame(OPCODES.close, payload))
+    }
+    leaveRoom(client)
+  }
+
+  const read = createFrameReader((opcode, payload, final) => {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation:
+        fragments.push(payload)
+        if (fragments.reduce((size, part) => size + part.length, 0) > MAX_MESSAGE_BYTES) return false
+        if (final) {
+          const text = Buffer.concat(fragments).toString('utf8')
+          fragments = []
+          handleMessage(client, text)
+        }
+        return true
+      case OPCODES.ping:
+        socket.write(encodeFrame(OPCODES.pong, payload))
+        return true
+      case OPCODES.pong:
+        client.alive = true
+        return true
+      case OPCODES.close:
+        close(1000)
+        return true
+      default:
+        // Binary frames, or anything unknown - we only speak JSON text
+        close(1003)
+        return true
+    }
+  })
+
+  socket.on('data', (chunk) => {
+    if (!read(chunk)) close(1002)
+  })
+  // HTTP servers keep half-closed sockets open, so finish our side when the browser goes
+  socket.on('end', () => socket.destroy())
+  socket.on('close', () => leaveRoom(client))
+  socket.on('error', () => socket.destroy())
+
+  // A client that didn't answer the last ping is gone
+  const heartbeat = setInterval(() => {
+    if (!client.alive) {
+      socket.destroy()
+      return
+    }
+    client.alive = false
+    socket.write(encodeFrame(OPCODES.ping, Buffer.alloc(0)))
+  }, PING_INTERVAL_MS)
+  socket.on('close', () => clearInterval(heartbeat))
+}
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' })
+  response.end('Dice table server - connect from the app with ws:// and this address.\n')
+})
+
+server.on('upgrade', acceptConnection)
+
+server.listen(PORT, () => {
+  console.log(`Dice table server listening on ws://localhost:${PORT}`)
+})
@@ -26,7 +26,8 @@
  *   - Styled-components library
  *   - Tailwind CSS utility classes
  */
-import { useState } from 'react'
+import { useRef, useState } from 'react'
+import type { FormEvent, KeyboardEvent } from 'react'
 import './App.css'
 
 /**
@@ -38,7 +39,166 @@ import './App.css'
  * We set up the index.ts file in components/3d/ to re-export components,
  * making imports cleaner: './components/3d' instead of './components/3d/Scene'
  */
-import { Scene } from './components/3d'
+import { DiceSkinProvider, RandomContext, Scene } from './components/3d'
+import type { PoolDie } from './components/3d'
+
+/**
+ * Dice Engine Import
+ * ------------------
+ * The dice notation engine lives in src/dice. It parses strings like "2d6+3"
+ * and rolls them - the 3D dice just animate the result it produces.
+ */
+import {
+  ATTACK_OUTCOMES,
+  DiceNotationError,
+  NO_MODIFIERS,
+  ROLL_MODES,
+  applyModifiers,
+  applyRollMode,
+  createRollDieRoller,
+  createSeededRandom,
+  evaluateDiceExpression,
+  getDiceToSpawn,
+  getNaturalD20,
+  getNaturalRoll,
+  getRolledDice,
+  parseDiceNotation,
+  resolveAttack,
+  secureRandom,
+} from './dice'
+import type { DiceExpression, ModifiedRoll, RandomSource, RollMode, RollModifiers, RollResult } from './dice'
+
+/**
+ * Roll History
+ * ------------
+ * Every roll is recorded (and saved in the browser) so earlier results
+ * aren't lost when the dice are thrown again.
+ */
+import { RollHistoryPanel, useRollHistory } from './components/history'
+import { createRollRecord } from './history'
+import type { RollRecord } from './history'
+
+/**
+ * Modifier Panel
+ * --------------
+ * Bonuses, proficiency, crits and resistance - applied by the dice engine's
+ * applyModifiers, edited here.
+ */
+import { ModifierPanel } from './components/modifiers'
+
+/**
+ * Characters
+ * ----------
+ * Saved characters whose sheets roll checks, saves and attacks with the
+ * right bonus already added.
+ */
+import { CharacterPanel, useCharacters } from './components/character'
+import { abilityModifier, checkExpression, savingThrowBonus } from './character'
+
+/**
+ * Initiative Tracker
+ * ------------------
+ * Turn order for combat. Initiative is rolled like any other d20 roll.
+ */
+import { InitiativeTracker, useEncounter } from './components/encounter'
+import { createCombatant } from './encounter'
+import type { Combatant } from './encounter'
+import { createHitPoints } from './hitpoints'
+
+/**
+ * Attack Macros
+ * -------------
+ * One click per attack: the d20 against the target's AC, then the damage
+ * if it lands.
+ */
+import { AttackPanel, useAttackMacros } from './components/attacks'
+import type { AttackMacro } from './attacks'
+
+/**
+ * Monsters
+ * --------
+ * Imported stat blocks, rolled from directly, and added to the fight with
+ * average or rolled hit points.
+ */
+import { MonsterPanel, useMonsters } from './components/monsters'
+import type { HitPointMode } from './components/monsters'
+import { getMonsterDefenses, isNumberedMonster, numberMonsterName } from './monsters'
+import type { Monster } from './monsters'
+
+/**
+ * Conditions
+ * ----------
+ * Poisoned, prone, restrained... A combatant's conditions change its own
+ * d20 rolls, and the breakdown says which ones did.
+ */
+import { applyRollEffects, formatCondition, getRollEffects } from './conditions'
+import type { ActiveCondition, D20Roll } from './conditions'
+
+/**
+ * Roll Statistics
+ * ---------------
+ * Is the d20 cursed? Face counts, streaks and a fairness test over the
+ * history, or over a big simulated batch.
+ */
+import { StatsPanel } from './components/stats'
+
+/**
+ * Probability Calculator
+ * ----------------------
+ * Exact odds for any expression against a DC or AC - worked out, not rolled.
+ */
+import { ProbabilityPanel } from './components/probability'
+
+/**
+ * Accessibility
+ * -------------
+ * Results read out by screen readers, and rolling from the keyboard.
+ */
+import { RollAnnouncer, useRollShortcuts } from './components/accessibility'
+
+/**
+ * Sound
+ * -----
+ * Every sound plays through one audio manager, with saved volume and mute.
+ */
+import { AudioControls, useAudioSettings } from './components/audio'
+import { audioManager } from './audio'
+
+/**
+ * Dice Skins
+ * ----------
+ * Colours, finish and number font for the dice, with presets and custom
+ * skins that can be shared as files.
+ */
+import { SkinPicker, useDiceSkins } from './components/skins'
+
+/**
+ * Shared Table
+ * ------------
+ * Rolling together online: every roll is sent to the other players at the
+ * table, who replay it from its seed.
+ */
+import { TablePanel, useSharedTable } from './components/multiplayer'
+import { SharedRollError, replaySharedRoll, toSharedRoll } from './multiplayer'
+import type { SharedRoll } from './multiplayer'
+
+/**
+ * Presenter Mode
+ * --------------
+ * A second window showing only the dice, for the players' screen - and
+ * GM-only rolls that stay off it until revealed.
+ */
+import { PresenterPanel, usePresenter } from './components/presenter'
+import { PRESENTER_ROLLER } from './presenter'
+
+/**
+ * Fairness Proofs
+ * ---------------
+ * Every roll's seed is committed to (its hash published) before the roll,
+ * the table server adds its own nonce, and the verifier checks other
+ * players' rolls against both.
+ */
+import { VerifierPanel } from './components/fairness'
 
 /**
  * App Component
@@ -56,34 +216,541 @@ import { Scene } from './components/3d'
  * - must return a single root element (or Fragment: <>...</>)
  * - export default makes this the main export of the file
  */
-// Available dice types
-type DiceType = 'd20' | 'd6'
+// Quick-pick dice shown in the sidebar - each one just fills in the notation
+const QUICK_DICE = [
+  { sides: 4, title: 'D4 - Four-sided die' },
+  { sides: 6, title: 'D6 - Six-sided die' },
+  { sides: 8, title: 'D8 - Eight-sided die' },
+  { sides: 10, title: 'D10 - Ten-sided die' },
+  { sides: 12, title: 'D12 - Twelve-sided die' },
+  { sides: 20, title: 'D20 - Twenty-sided die' },
+  { sides: 100, title: 'D100 - Percentile dice (two d10s)' },
+]
+
+/**
+ * pickRandomSource
+ * ----------------
+ * Secure randomness normally. Opening the app with ?seed=anything in the
+ * URL uses a seeded generator instead, so the same seed replays the exact
+ * same rolls - handy for testing and for reproducing a bug.
+ */
+function pickRandomSource(): RandomSource {
+  const seed = new URLSearchParams(window.location.search).get('seed')
+  return seed !== null ? createSeededRandom(seed) : secureRandom
+}
+
+// How long the to-hit result stays on the table before the damage dice are thrown
+const DAMAGE_DELAY_MS = 1200
+
+// A roll that has been made but not shown yet - see rollExpression
+interface MadeRoll {
+  result: RollResult
+  modified: ModifiedRoll
+  seed: string
+  nonce?: string
+  commitment: string
+  // A condition failed the roll whatever its total (see rollD20)
+  failed?: boolean
+}
 
 function App() {
-  // State for roll value display and multiplier
-  const [displayValue, setDisplayValue] = useState<number | null>(null)
-  const [multiplier, setMultiplier] = useState(1)
-  const [selectedDice, setSelectedDice] = useState<DiceType>('d20')
+  // Where every roll's randomness comes from - chosen once, on first render
+  const [random] = useState(pickRandomSource)
+
+  // Dice notation typed by the user, and any parse error to show under it
+  const [notation, setNotation] = useState('1d20')
+  const [notationError, setNotationError] = useState<string | null>(null)
+
+  // Advantage / disadvantage - turns each plain d20 into 2 or 3 of them
+  const [rollMode, setRollMode] = useState<RollMode>('normal')
+
+  // Bonuses, crits etc. for the next roll
+  const [modifiers, setModifiers] = useState<RollModifiers>(NO_MODIFIERS)
+
+  // The most recent roll (raw and with modifiers), and a counter that tells the Scene to throw again
+  const [lastRoll, setLastRoll] = useState<RollResult | null>(null)
+  const [lastModified, setLastModified] = useState<ModifiedRoll | null>(null)
+  const [lastLabel, setLastLabel] = useState<string | null>(null)
+  const [lastFailed, setLastFailed] = useState(false)
+  const [rollId, setRollId] = useState(0)
+
+  // The result is known the moment we roll, but only shown once the dice land
+  const [isRevealed, setIsRevealed] = useState(false)
+
+  // Past rolls, newest first - the newest one is hidden until it lands
+  const history = useRollHistory()
+  const [latestRecordId, setLatestRecordId] = useState<string | null>(null)
+
+  // Every saved character, and whether their panel is open
+  const characters = useCharacters()
+  const [showCharacters, setShowCharacters] = useState(false)
+
+  // The current fight, and whether the initiative tracker is open
+  const encounter = useEncounter()
+  const [showInitiative, setShowInitiative] = useState(false)
 
-  const handleRollComplete = (value: number) => {
-    setDisplayValue(value)
-    setMultiplier(1) // Reset multiplier on new roll
+  // Saved attacks, the target they're rolled against, and whether their panel is open
+  const attacks = useAttackMacros()
+  const [targetAc, setTargetAc] = useState(13)
+  const [showAttacks, setShowAttacks] = useState(false)
+
+  // Imported monster stat blocks, and whether their panel is open
+  const monsters = useMonsters()
+  const [showMonsters, setShowMonsters] = useState(false)
+
+  // Volume and mute, saved between sessions
+  const audio = useAudioSettings()
+
+  // The shared table: who's there, and the connection other players' rolls arrive on
+  const table = useSharedTable({
+    random,
+    onRoll: (roll, hash) => showSharedRoll(roll, hash),
+    onHistory: (rolls) => mergeSharedRolls(rolls),
+  })
+  const [showTable, setShowTable] = useState(false)
+  const [showVerifier, setShowVerifier] = useState(false)
+
+  // The dice's look, and whether its picker is open
+  const skins = useDiceSkins()
+  const [showSkins, setShowSkins] = useState(false)
+
+  // The players' display window, and the GM-only rolls kept off it
+  const presenter = usePresenter(skins.active)
+  const [showPresenter, setShowPresenter] = useState(false)
+
+  // Whether the statistics and probability panels are open
+  const [showStats, setShowStats] = useState(false)
+  const [showOdds, setShowOdds] = useState(false)
+
+  /**
+   * Damage Waiting on a Hit
+   * -----------------------
+   * An attack that hits queues its damage here; the damage dice are thrown
+   * once the d20 has landed. Refs rather than state, because nothing on
+   * screen depends on them - only the next event does.
+   */
+  const pendingDamage = useRef<{ macro: AttackMacro; critical: boolean } | null>(null)
+  const damageTimer = useRef<number | undefined>(undefined)
+
+  /**
+   * rollExpression / showRoll
+   * -------------------------
+   * Rolling is split in two so a caller can look at a result before it is
+   * shown - an attack adds "vs AC 15 → HIT" to the breakdown.
+   *
+   * rollExpression: the engine decides every die's face. The roll mode is
+   * applied first, so with advantage "1d20+5" is rolled as "2d20kh1+5".
+   * It is the selected mode unless a caller passes another - see rollD20.
+   * Each roll gets its own seed, drawn from the app's random source, and
+   * its dice come from that seed - mixed, at a shared table, with the
+   * server's nonce - so anyone holding both can replay the roll exactly,
+   * as the other players do. The seed was picked, and its hash published,
+   * before this roll was asked for, and the nonce only came after that
+   * (see drawSeed in useSharedTable), which is what lets them trust it.
+   *
+   * showRoll: records the roll and hands it to the Scene, which animates the
+   * dice landing on those faces. The modifiers are saved with the roll, so
+   * changing them later doesn't rewrite a roll that already happened. The
+   * roll is thrown on the presenter display too, and at a shared table it
+   * is sent to the other players - unless it's GM-only, when it stays in
+   * this window until the GM reveals it to the display.
+   */
+  const rollExpression = (
+    expression: DiceExpression,
+    rollModifiers: RollModifiers,
+    mode: RollMode = rollMode,
+  ): MadeRoll => {
+    const { seed, hash, nonce } = table.drawSeed()
+    const result = evaluateDiceExpression(applyRollMode(expression, mode), createRollDieRoller(seed, nonce))
+    return { result, modified: applyModifiers(result, rollModifiers), seed, nonce, commitment: hash }
+  }
+
+  // Puts a roll - ours or another player's - on the table and in the history
+  const displayRoll = (record: RollRecord, result: RollResult, modified: ModifiedRoll, label: string | null) => {
+    history.addRoll(record)
+    setLatestRecordId(record.id)
+    setLastRoll(result)
+    setLastModified(modified)
+    setLastLabel(label)
+    setLastFailed(record.failed === true)
+    setRollId((id) => id + 1)
+    // A roll like "5" has no dice to wait for
+    setIsRevealed(getRolledDice(result).length === 0)
   }
 
-  const handleMultiply = (factor: number) => {
-    if (displayValue !== null) {
-      setDisplayValue(displayValue * factor)
-      setMultiplier(multiplier * factor)
+  const showRoll = (
+    { result, modified, seed, nonce, commitment, failed }: MadeRoll,
+    rollModifiers: RollModifiers,
+    label?: string,
+  ) => {
+    // A new roll replaces any damage still waiting to be thrown
+    window.clearTimeout(damageTimer.current)
+    pendingDamage.current = null
+
+    const bonus = rollModifiers.bonus + (rollModifiers.proficient ? rollModifiers.proficiencyBonus : 0)
+    const record = createRollRecord(result, { label, modified, bonus, failed, seed, nonce, commitment })
+    displayRoll(record, result, modified, label ?? null)
+
+    const presented = toSharedRoll(record, rollModifiers, PRESENTER_ROLLER)
+    if (presenter.secret) {
+      if (presented) presenter.hide(presented)
+      return
     }
+    if (presented) presenter.present(presented)
+    table.shareRoll(record, rollModifiers)
   }
 
-  const handleResetMultiplier = () => {
-    if (displayValue !== null && multiplier > 1) {
-      setDisplayValue(displayValue / multiplier)
-      setMultiplier(1)
+  /**
+   * Other Players' Rolls
+   * --------------------
+   * A roll from the shared table is rolled again from its seed and thrown
+   * in our Scene like one of our own, signed with the roller's name. One
+   * that won't replay (another version of the app, a tampered message) is
+   * left out and reported in the console.
+   *
+   * Damage we're waiting to throw is left alone - it follows once the
+   * other player's dice have landed. Their rolls are public, so they go on
+   * the presenter display as well. The hash they published for the roll,
+   * if we saw one, is kept with it.
+   */
+  const replayOrSkip = (roll: SharedRoll) => {
+    try {
+      return replaySharedRoll(roll)
+    } catch (error) {
+      if (error instanceof SharedRollError || error instanceof DiceNotationError) {
+        console.warn(`Skipped a shared roll: ${error.message}`)
+        return null
+      }
+      throw error
     }
   }
 
+  const showSharedRoll = (roll: SharedRoll, hash?: string) => {
+    const replay = replayOrSkip(roll)
+    if (!replay) return
+    const record = hash ? { ...replay.record, commitment: hash } : replay.record
+    displayRoll(record, replay.result, replay.modified, [roll.roller, roll.label].filter(Boolean).join(' · '))
+    presenter.present(roll)
+  }
+
+  // Joining late: the room's recent rolls go into the history without being thrown
+  const mergeSharedRolls = (rolls: SharedRoll[]) => {
+    history.mergeRolls(rolls.flatMap((roll) => replayOrSkip(roll)?.record ?? []))
+  }
+
+  /**
+   * performRoll
+   * -----------
+   * Both steps at once - what almost every roll wants.
+   *   label     - what the roll is for, shown in the history ("Mira: Stealth")
+   *   modifiers - defaults to the modifier panel's settings
+   * Returns the final total, for callers that need the number itself.
+   */
+  const performRoll = (
+    expression: DiceExpression,
+    { label, modifiers: rollModifiers = modifiers }: { label?: string; modifiers?: RollModifiers } = {},
+  ) => {
+    const roll = rollExpression(expression, rollModifiers)
+    showRoll(roll, rollModifiers, label)
+    return roll.modified.total
+  }
+
+  // Rolls typed notation, showing any parse error under the input
+  const rollNotation = (text: string) => {
+    try {
+      performRoll(parseDiceNotation(text))
+      setNotationError(null)
+    } catch (error) {
+      if (error instanceof DiceNotationError) {
+        setNotationError(`${error.message} (at position ${error.index + 1})`)
+        return
+      }
+      throw error
+    }
+  }
+
+  /**
+   * rollD20
+   * -------
+   * A creature's own d20 roll, with its conditions applied on top of the
+   * selected roll mode. Advantage and disadvantage from any source cancel
+   * out, and the breakdown names the conditions involved:
+   *
+   *   "2d20kl1+3 = 7 (disadvantage: poisoned)"
+   *
+   * `failed` is set when a condition fails the roll whatever the dice say -
+   * a paralyzed creature's DEX save, for example - and the history and
+   * the screen reader announcement say so. A check or save with no DC of
+   * its own shows it as its outcome:
+   *
+   *   "1d20+2 = 17 (automatic failure: paralyzed) → FAILED"
+   */
+  const rollD20 = (bonus: number, roll: D20Roll, conditions: ActiveCondition[] = []): MadeRoll => {
+    const effects = getRollEffects(conditions, roll)
+    const { mode, note } = applyRollEffects(rollMode, effects)
+    const made = rollExpression(checkExpression(bonus), NO_MODIFIERS, mode)
+    const breakdown = note ? `${made.modified.breakdown} (${note})` : made.modified.breakdown
+    return { ...made, modified: { ...made.modified, breakdown }, failed: effects.autoFail.length > 0 }
+  }
+
+  const showD20Roll = (roll: MadeRoll, label: string) => {
+    const breakdown = roll.failed ? `${roll.modified.breakdown} → FAILED` : roll.modified.breakdown
+    showRoll({ ...roll, modified: { ...roll.modified, breakdown } }, NO_MODIFIERS, label)
+  }
+
+  // The conditions on a character, if they're in the current fight
+  const conditionsOf = (characterId: string | undefined) =>
+    encounter.encounter.combatants.find((combatant) => combatant.characterId === characterId)?.conditions ?? []
+
+  /**
+   * Character Rolls
+   * ---------------
+   * The sheet has already worked out the bonus, so checks ignore the
+   * modifier panel - adding its proficiency again would count it twice.
+   * Damage keeps the panel's crit and resistance settings, which depend on
+   * the attack roll and the target rather than on the character.
+   */
+  const rollCheck = (label: string, bonus: number, roll: D20Roll) => {
+    showD20Roll(rollD20(bonus, roll, conditionsOf(characters.active?.id)), label)
+  }
+
+  const rollDamage = (label: string, text: string) => {
+    performRoll(parseDiceNotation(text), {
+      label,
+      modifiers: { ...NO_MODIFIERS, critical: modifiers.critical, scaling: modifiers.scaling },
+    })
+  }
+
+  /**
+   * rollDeathSave
+   * -------------
+   * A flat d20 through the normal path - never with advantage, whatever
+   * roll mode is selected, since two dice would change the odds of the
+   * 20 that revives and the 1 that fails twice. The HP tracker needs that
+   * natural face as well as the total.
+   */
+  const rollDeathSave = (label: string) => {
+    const roll = rollExpression(checkExpression(0), NO_MODIFIERS, 'normal')
+    showRoll(roll, NO_MODIFIERS, label)
+    return { natural: getNaturalD20(roll.result) ?? roll.modified.total, total: roll.modified.total }
+  }
+
+  /**
+   * Monster Rolls
+   * -------------
+   * The stat block has the bonus, so the modifier panel stays out of its
+   * checks and saves. Its conditions come from its copy in the current
+   * fight: the one whose turn it is ("Goblin 2"), or the only one there.
+   * With several and none of them up, there's no telling which is meant.
+   */
+  const conditionsOfMonster = (monster: Monster | null) => {
+    if (!monster) return []
+    const copies = encounter.encounter.combatants.filter(
+      (combatant) => combatant.kind === 'monster' && isNumberedMonster(combatant.name, monster.name),
+    )
+    const current = copies.find((combatant) => combatant.id === encounter.encounter.currentId)
+    return (current ?? (copies.length === 1 ? copies[0] : undefined))?.conditions ?? []
+  }
+
+  const rollMonsterCheck = (label: string, bonus: number, roll: D20Roll) => {
+    showD20Roll(rollD20(bonus, roll, conditionsOfMonster(monsters.active)), label)
+  }
+
+  /**
+   * addMonsterToEncounter
+   * ---------------------
+   * Rolled hit points go through the Scene and the history like any
+   * other roll ("Goblin: Hit points"); never fewer than 1. A second
+   * goblin in the fight becomes "Goblin 2".
+   */
+  const addMonsterToEncounter = (monster: Monster, mode: HitPointMode) => {
+    const name = numberMonsterName(
+      monster.name,
+      encounter.encounter.combatants.map((combatant) => combatant.name),
+    )
+    const hitDice = mode === 'rolled' ? monster.hitPoints.dice : undefined
+    const maxHp = hitDice
+      ? Math.max(1, performRoll(parseDiceNotation(hitDice), { label: `${name}: Hit points`, modifiers: NO_MODIFIERS }))
+      : monster.hitPoints.average
+    encounter.add(
+      createCombatant({
+        name,
+        kind: 'monster',
+        dexModifier: abilityModifier(monster.abilityScores.dex),
+        hitPoints: createHitPoints(maxHp),
+        defenses: getMonsterDefenses(monster),
+      }),
+    )
+    setShowInitiative(true)
+  }
+
+  // Initiative is a DEX check - same d20, same roll mode, same conditions, same history
+  const rollInitiative = (combatant: Combatant) => {
+    const roll = rollD20(combatant.dexModifier, { kind: 'check', ability: 'dex' }, combatant.conditions)
+    showRoll(roll, NO_MODIFIERS, `${combatant.name}: Initiative`)
+    encounter.setInitiative(combatant.id, roll.modified.total)
+  }
+
+  /**
+   * rollConditionSave
+   * -----------------
+   * The save that ends an "until save" condition. A character uses their
+   * sheet's saving throw bonus; anyone else rolls a flat d20. Passing it
+   * removes the condition.
+   */
+  const rollConditionSave = (combatant: Combatant, active: ActiveCondition) => {
+    if (active.duration.kind !== 'until-save') return
+    const { ability, dc } = active.duration
+    const character = characters.characters.find((other) => other.id === combatant.characterId)
+    const bonus = character ? savingThrowBonus(character, ability) : 0
+    const roll = rollD20(bonus, { kind: 'save', ability }, combatant.conditions)
+    const saved = !roll.failed && roll.modified.total >= dc
+    const breakdown = `${roll.modified.breakdown} vs DC ${dc} → ${saved ? 'SAVED' : 'FAILED'}`
+    const label = `${combatant.name}: ${ability.toUpperCase()} save vs ${formatCondition(active)}`
+    showRoll({ ...roll, modified: { ...roll.modified, breakdown } }, NO_MODIFIERS, label)
+    if (saved) {
+      encounter.update(combatant.id, {
+        conditions: (combatant.conditions ?? []).filter((other) => other.id !== active.id),
+      })
+    }
+  }
+
+  /**
+   * rollAttack
+   * ----------
+   * Rolls to hit against the target AC. A natural 20 or 1 decides the
+   * outcome on its own (see src/dice/attack.ts). On a hit the damage is
+   * queued, and thrown once the d20 has landed - see handlePoolComplete.
+   *
+   * `conditions` are the attacker's: a poisoned or prone attacker rolls
+   * with disadvantage, an invisible one with advantage.
+   */
+  const rollAttack = (macro: AttackMacro, conditions: ActiveCondition[] = []) => {
+    const roll = rollD20(macro.toHit, { kind: 'attack' }, conditions)
+    const outcome = resolveAttack(roll.result, roll.modified.total, targetAc)
+    const breakdown = `${roll.modified.breakdown} vs AC ${targetAc} → ${ATTACK_OUTCOMES[outcome].label}`
+    showRoll({ ...roll, modified: { ...roll.modified, breakdown } }, NO_MODIFIERS, `${macro.name} attack`)
+    if (ATTACK_OUTCOMES[outcome].hits) {
+      pendingDamage.current = { macro, critical: outcome === 'critical' }
+    }
+  }
+
+  // The dice have landed: reveal the result, play any crit or fumble sound, then throw any damage the roll earned
+  const handlePoolComplete = () => {
+    setIsRevealed(true)
+
+    // A natural 20 or 1 gets its own sound, on top of the dice settling
+    const natural = lastRoll ? getNaturalRoll(getNaturalD20(lastRoll)) : null
+    if (natural) audioManager.play(natural)
+
+    const damage = pendingDamage.current
+    if (!damage) return
+    pendingDamage.current = null
+    damageTimer.current = window.setTimeout(() => {
+      const { macro, critical } = damage
+      // Crit doubling comes from the attack roll; resistance from the panel
+      const rollModifiers = { ...NO_MODIFIERS, critical, scaling: modifiers.scaling }
+      const roll = rollExpression(parseDiceNotation(macro.damage), rollModifiers)
+      const breakdown = macro.damageNote ? `${roll.modified.breakdown} (${macro.damageNote})` : roll.modified.breakdown
+      const label = `${macro.name} damage${critical ? ' (critical)' : ''}`
+      showRoll({ ...roll, modified: { ...roll.modified, breakdown } }, rollModifiers, label)
+    }, DAMAGE_DELAY_MS)
+  }
+
+  const handleNotationSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault() // Stop the browser from reloading the page
+    rollNotation(notation)
+  }
+
+  const handleQuickDice = (sides: number) => {
+    const text = `1d${sides}`
+    setNotation(text)
+    rollNotation(text)
+  }
+
+  /**
+   * Keyboard Rolling
+   * ----------------
+   * Number keys pick a sidebar die (and move focus to it) and Space rolls.
+   * Inside the sidebar the arrow keys, Home and End move between dice:
+   * only one die is in the Tab order, so tabbing past the sidebar takes
+   * one press rather than seven.
+   */
+  const sidebarButtons = useRef<(HTMLButtonElement | null)[]>([])
+  const selectedDie = QUICK_DICE.findIndex(({ sides }) => notation.trim().toLowerCase() === `1d${sides}`)
+
+  const focusDie = (index: number) => {
+    sidebarButtons.current[(index + QUICK_DICE.length) % QUICK_DICE.length]?.focus()
+  }
+
+  const pickDie = (index: number) => {
+    setNotation(`1d${QUICK_DICE[index].sides}`)
+    setNotationError(null)
+    focusDie(index)
+  }
+
+  useRollShortcuts({ dieCount: QUICK_DICE.length, onPickDie: pickDie, onRoll: () => rollNotation(notation) })
+
+  const handleSidebarKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    const current = sidebarButtons.current.findIndex((button) => button === document.activeElement)
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowRight':
+        focusDie(current + 1)
+        break
+      case 'ArrowUp':
+      case 'ArrowLeft':
+        focusDie(current - 1)
+        break
+      case 'Home':
+        focusDie(0)
+        break
+      case 'End':
+        focusDie(QUICK_DICE.length - 1)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  /**
+   * Dice for the Scene
+   * ------------------
+   * After a roll: the rolled dice with their faces.
+   * Before the first roll: idle dice previewing the typed expression.
+   */
+  const sceneDice: PoolDie[] = lastRoll
+    ? getRolledDice(lastRoll)
+    : (() => {
+        try {
+          return getDiceToSpawn(applyRollMode(parseDiceNotation(notation), rollMode))
+        } catch {
+          return []
+        }
+      })()
+
+  // What the HP trackers fill in when no amount is typed - once the dice have landed
+  const lastRollTotal = isRevealed && lastModified ? lastModified.total : null
+
+  // Whose turn it is in the current fight, if one is running
+  const currentCombatant = encounter.encounter.combatants.find(
+    (combatant) => combatant.id === encounter.encounter.currentId,
+  )
+
+  // Other players' rolls that failed their fairness check
+  const mismatches = table.checks.filter((check) => check.verification.status === 'mismatch').length
+
+  // "Mira: Stealth — 1d20 (14) +5 = 19": what the roll was for, then how it added up
+  const breakdown = lastModified ? [lastLabel, lastModified.breakdown].filter(Boolean).join(' — ') : null
+
+  // What screen readers hear: the total first, then the details - but not before the dice land
+  const announcement = lastModified
+    ? isRevealed
+      ? `Rolled ${lastModified.total}${lastFailed ? ', an automatic failure' : ''}. ${breakdown}`
+      : 'Rolling…'
+    : ''
+
   return (
     /**
      * The div.app container
@@ -92,6 +759,7 @@ function App() {
      * Check App.css to see how it's styled with flexbox.
      */
     <div className="app">
+      <RollAnnouncer message={announcement} />
       {/**
        * Header Section
        * --------------
@@ -101,6 +769,132 @@ function App() {
        */}
       <header className="header">
         <h1>D&D Application</h1>
+
+        {/**
+         * Dice Notation Form
+         * ------------------
+         * The main way to roll: type an expression and press Enter or Roll.
+         * A <form> gives us Enter-to-submit for free.
+         */}
+        <form className="notation-form" onSubmit={handleNotationSubmit}>
+          <input
+            className="notation-input"
+            value={notation}
+            onChange={(event) => setNotation(event.target.value)}
+            placeholder="e.g. 2d6+3, 4d6kh3, d%"
+            aria-label="Dice notation"
+            aria-invalid={notationError !== null}
+            spellCheck={false}
+          />
+          <button type="submit" className="roll-button">
+            Roll
+          </button>
+          {notationError && <span className="notation-error">{notationError}</span>}
+        </form>
+
+        {/**
+         * D20 Roll Mode
+         * -------------
+         * Works like a set of radio buttons: exactly one mode is active.
+         * role="radio" + aria-checked tell screen readers the same thing.
+         */}
+        <div className="roll-mode" role="radiogroup" aria-label="D20 roll mode">
+          {(Object.keys(ROLL_MODES) as RollMode[]).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              role="radio"
+              aria-checked={rollMode === mode}
+              className={`roll-mode-button ${rollMode === mode ? 'selected' : ''}`}
+              onClick={() => setRollMode(mode)}
+            >
+              {ROLL_MODES[mode].label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          type="button"
+          className={`panel-toggle ${showCharacters ? 'selected' : ''}`}
+          onClick={() => setShowCharacters((shown) => !shown)}
+          aria-expanded={showCharacters}
+        >
+          Characters
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showInitiative ? 'selected' : ''}`}
+          onClick={() => setShowInitiative((shown) => !shown)}
+          aria-expanded={showInitiative}
+        >
+          Initiative
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showAttacks ? 'selected' : ''}`}
+          onClick={() => setShowAttacks((shown) => !shown)}
+          aria-expanded={showAttacks}
+        >
+          Attacks
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showMonsters ? 'selected' : ''}`}
+          onClick={() => setShowMonsters((shown) => !shown)}
+          aria-expanded={showMonsters}
+        >
+          Monsters
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showStats ? 'selected' : ''}`}
+          onClick={() => setShowStats((shown) => !shown)}
+          aria-expanded={showStats}
+        >
+          Stats
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showOdds ? 'selected' : ''}`}
+          onClick={() => setShowOdds((shown) => !shown)}
+          aria-expanded={showOdds}
+        >
+          Odds
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showSkins ? 'selected' : ''}`}
+          onClick={() => setShowSkins((shown) => !shown)}
+          aria-expanded={showSkins}
+        >
+          Dice
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showTable ? 'selected' : ''}`}
+          onClick={() => setShowTable((shown) => !shown)}
+          aria-expanded={showTable}
+        >
+          Table{table.joined && ` (${table.players.length})`}
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showVerifier ? 'selected' : ''}`}
+          onClick={() => setShowVerifier((shown) => !shown)}
+          aria-expanded={showVerifier}
+        >
+          Verify{mismatches > 0 && ` (${mismatches} ✗)`}
+        </button>
+        <button
+          type="button"
+          className={`panel-toggle ${showPresenter ? 'selected' : ''}`}
+          onClick={() => setShowPresenter((shown) => !shown)}
+          aria-expanded={showPresenter}
+        >
+          Present{presenter.secret && ' (GM only)'}
+        </button>
+
+        <AudioControls settings={audio.settings} onChange={audio.updateSettings} />
       </header>
 
       {/**
@@ -110,24 +904,148 @@ function App() {
        * Screen readers and SEO benefit from proper semantic tags.
        */}
       <main className="main">
-        {/* Dice Selection Sidebar */}
-        <aside className="dice-sidebar">
-          <button
-            className={`dice-icon ${selectedDice === 'd20' ? 'selected' : ''}`}
-            onClick={() => setSelectedDice('d20')}
-            title="D20 - Twenty-sided die"
-          >
-            <span className="dice-label">D20</span>
-          </button>
-          <button
-            className={`dice-icon ${selectedDice === 'd6' ? 'selected' : ''}`}
-            onClick={() => setSelectedDice('d6')}
-            title="D6 - Six-sided die"
-          >
-            <span className="dice-label">D6</span>
-          </button>
+        {/* Dice Selection Sidebar - shortcuts that roll a single die */}
+        <aside
+          className="dice-sidebar"
+          role="toolbar"
+          aria-orientation="vertical"
+          aria-label="Quick dice"
+          onKeyDown={handleSidebarKeyDown}
+        >
+          {QUICK_DICE.map(({ sides, title }, index) => (
+            <button
+              key={sides}
+              ref={(button) => {
+                sidebarButtons.current[index] = button
+              }}
+              className={`dice-icon ${index === selectedDie ? 'selected' : ''}`}
+              onClick={() => handleQuickDice(sides)}
+              title={`${title} (key ${index + 1})`}
+              aria-label={`Roll 1d${sides}`}
+              aria-keyshortcuts={String(index + 1)}
+              tabIndex={index === Math.max(0, selectedDie) ? 0 : -1}
+            >
+              <span className="dice-label">D{sides}</span>
+            </button>
+          ))}
         </aside>
 
+        {/* The open character's sheet - every bonus on it is a roll button */}
+        {showCharacters && (
+          <CharacterPanel
+            characters={characters.characters}
+            active={characters.active}
+            onSelect={characters.selectCharacter}
+            onAdd={characters.addCharacter}
+            onImport={characters.importCharacters}
+            onRemove={characters.removeCharacter}
+            onChange={characters.updateCharacter}
+            onRollCheck={rollCheck}
+            onRollAttack={(macro) => rollAttack(macro, conditionsOf(characters.active?.id))}
+            onRollDamage={rollDamage}
+            lastRollTotal={lastRollTotal}
+            onRollDeathSave={rollDeathSave}
+          />
+        )}
+
+        {/* Attack macros for monsters and NPCs - rolled by whoever's turn it is */}
+        {showAttacks && (
+          <AttackPanel
+            macros={attacks.macros}
+            onAdd={attacks.addMacro}
+            onChange={attacks.updateMacro}
+            onRemove={attacks.removeMacro}
+            onRollAttack={(macro) => rollAttack(macro, currentCombatant?.conditions)}
+          />
+        )}
+
+        {/* Imported stat blocks - every bonus and every damage expression rolls */}
+        {showMonsters && (
+          <MonsterPanel
+            monsters={monsters.monsters}
+            active={monsters.active}
+            onSelect={monsters.selectMonster}
+            onImport={monsters.importMonsters}
+            onRemove={monsters.removeMonster}
+            onRollCheck={rollMonsterCheck}
+            onRollAttack={(macro) => rollAttack(macro, conditionsOfMonster(monsters.active))}
+            onRollDamage={rollDamage}
+            onAddToEncounter={addMonsterToEncounter}
+          />
+        )}
+
+        {/* Turn order for the current fight */}
+        {showInitiative && (
+          <InitiativeTracker
+            encounter={encounter.encounter}
+            characters={characters.characters}
+            onAdd={encounter.add}
+            onRemove={encounter.remove}
+            onUpdate={encounter.update}
+            onUpdateCharacter={characters.updateCharacter}
+            onSetInitiative={encounter.setInitiative}
+            onRollInitiative={rollInitiative}
+            onStart={encounter.start}
+            onEnd={encounter.end}
+            onNext={encounter.next}
+            onDelay={encounter.delay}
+            onResume={encounter.resume}
+            onClear={encounter.clear}
+            lastRollTotal={lastRollTotal}
+            onRollDeathSave={rollDeathSave}
+            onRollConditionSave={rollConditionSave}
+            onEndConcentration={encounter.endConcentration}
+          />
+        )}
+
+        {/* Face counts and a fairness test for the dice */}
+        {showStats && <StatsPanel records={history.records} random={random} />}
+
+        {/* Exact odds for an expression, before anyone rolls it */}
+        {showOdds && <ProbabilityPanel />}
+
+        {/* Rolling together with players elsewhere */}
+        {showTable && (
+          <TablePanel
+            settings={table.settings}
+            onChange={table.updateSettings}
+            joined={table.joined}
+            status={table.status}
+            players={table.players}
+            error={table.error}
+            onJoin={table.join}
+            onLeave={table.leave}
+          />
+        )}
+
+        {/* Checking other players' rolls against the seeds they committed to */}
+        {showVerifier && <VerifierPanel checks={table.checks} skipped={table.skipped} nextHash={table.nextHash} />}
+
+        {/* The players' display window, and GM-only rolls */}
+        {showPresenter && (
+          <PresenterPanel
+            secret={presenter.secret}
+            onSecretChange={presenter.setSecret}
+            hidden={presenter.hidden}
+            onOpenDisplay={presenter.openDisplay}
+            onReveal={presenter.reveal}
+            onDiscard={presenter.discard}
+          />
+        )}
+
+        {/* How the dice look */}
+        {showSkins && (
+          <SkinPicker
+            skins={skins.skins}
+            active={skins.active}
+            onSelect={skins.selectSkin}
+            onAdd={skins.addSkin}
+            onCopy={skins.copySkin}
+            onChange={skins.updateSkin}
+            onRemove={skins.removeSkin}
+          />
+        )}
+
         {/**
          * 3D Scene Container
          * ------------------
@@ -137,42 +1055,46 @@ function App() {
          * COMPONENT USAGE:
          * <Scene /> - Self-closing tag because we're not passing children.
          * Could also write: <Scene></Scene>
+         *
+         * RandomContext hands our random source to every die in the Scene,
+         * so the physics throws draw from the same source as the rolls.
+         * DiceSkinProvider dresses them all in the chosen skin.
          */}
         <div className="scene-container">
-          <Scene
-            onRollComplete={handleRollComplete}
-            displayValue={displayValue}
-            selectedDice={selectedDice}
-          />
-        </div>
-      </main>
+          <RandomContext value={random}>
+            <DiceSkinProvider skin={skins.active}>
+              <Scene
+                onRequestRoll={() => rollNotation(notation)}
+                onPoolComplete={handlePoolComplete}
+                displayValue={lastModified?.total ?? null}
+                breakdown={breakdown}
+                dice={sceneDice}
+                rollId={rollId}
+              />
+            </DiceSkinProvider>
+          </RandomContext>
 
-      {/* Multiply Buttons - Bottom Right */}
-      <div className="multiplier-container">
-        <button
-          className="reset-button"
-          onClick={handleResetMultiplier}
-          disabled={multiplier <= 1}
-          title="Reset multiplier to 1"
-        >
-          Reset
-        </button>
-        <div className="multiply-buttons">
-          {multiplier > 1 && (
-            <span className="multiplier-display">Current: {multiplier}x</span>
+          {/* A roll with no dice ("5") has nothing in 3D to show its breakdown next to */}
+          {lastModified && isRevealed && sceneDice.length === 0 && (
+            <div className="roll-breakdown">{breakdown}</div>
           )}
-          {[2, 3, 4, 5, 6].map((factor) => (
-            <button
-              key={factor}
-              className="multiply-button"
-              onClick={() => handleMultiply(factor)}
-              disabled={displayValue === null}
-            >
-              x{factor}
-            </button>
-          ))}
+
+          {/* Bonuses, proficiency, crits, and the target's AC and resistance */}
+          <ModifierPanel
+            modifiers={modifiers}
+            onChange={setModifiers}
+            targetAc={targetAc}
+            onTargetAcChange={setTargetAc}
+          />
         </div>
-      </div>
+
+        {/* Past rolls - scrollable, filterable and exportable */}
+        <RollHistoryPanel
+          records={history.records}
+          pendingId={isRevealed ? null : latestRecordId}
+          onClear={history.clearHistory}
+        />
+      </main>
     </div>
   )
 }
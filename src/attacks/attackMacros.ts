@@ -0,0 +1,66 @@
+/**
+ * attackMacros.ts - Attack Macros
+ * ===============================
+ * An attack macro is everything needed to roll one attack in one click:
+ *
+ *   toHit      - the total to-hit bonus, e.g. +5
+ *   damage     - the damage in dice notation, bonus included, e.g. "1d8+3"
+ *   damageType - "slashing", "fire"...
+ *   damageNote - shown with the damage roll, when its total needs
+ *                explaining (see actionToAttackMacro in src/monsters)
+ *
+ * The app rolls the d20 against the target's AC and only rolls the damage
+ * when the attack lands (see src/dice/attack.ts for the rules).
+ *
+ * Macros for monsters and NPCs are saved here; a character's attacks are
+ * turned into macros on the fly (see toAttackMacro in src/character).
+ */
+
+export interface AttackMacro {
+  id: string
+  name: string
+  toHit: number
+  damage: string
+  damageType: string
+  damageNote?: string
+}
+
+const STORAGE_KEY = 'dnd-application:attack-macros'
+
+export function createAttackMacro(): AttackMacro {
+  return { id: crypto.randomUUID(), name: 'Scimitar', toHit: 4, damage: '1d6+2', damageType: 'slashing' }
+}
+
+function isAttackMacro(value: unknown): value is AttackMacro {
+  if (typeof value !== 'object' || value === null) return false
+  const macro = value as Partial<AttackMacro>
+  return (
+    typeof macro.id === 'string' &&
+    typeof macro.name === 'string' &&
+    typeof macro.toHit === 'number' &&
+    typeof macro.damage === 'string' &&
+    typeof macro.damageType === 'string'
+  )
+}
+
+/**
+ * loadAttackMacros / saveAttackMacros
+ * -----------------------------------
+ * One JSON array in localStorage, checked entry by entry on the way in.
+ */
+export function loadAttackMacros(): AttackMacro[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(saved) ? saved.filter(isAttackMacro) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveAttackMacros(macros: AttackMacro[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(macros))
+  } catch {
+    // Storage unavailable - the macros last until the page is closed
+  }
+}
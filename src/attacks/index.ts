@@ -0,0 +1,9 @@
+/**
+ * index.ts - Attack Macros Barrel Export
+ * ======================================
+ * Saved attack definitions:
+ *
+ *   import { createAttackMacro } from './attacks'
+ */
+export { createAttackMacro, loadAttackMacros, saveAttackMacros } from './attackMacros'
+export type { AttackMacro } from './attackMacros'
@@ -0,0 +1,172 @@
+/**
+ * audioManager.ts - One Place That Plays Sounds
+ * =============================================
+ * Every sound goes through a single Web Audio graph:
+ *
+ *   sound ──► its own gain ──► effects gain ──► master gain ──► speakers
+ *
+ * so the effects and master volume sliders, and mute, apply to everything
+ * at once.
+ *
+ * WHY WEB AUDIO, NOT <audio>?
+ * ---------------------------
+ * An <audio> element plays one thing at a time: a second die hitting the
+ * table restarts the first one's sound. A decoded AudioBuffer can be
+ * played any number of times at once, each through its own cheap source
+ * node - exactly what a ten-die pool needs. Decoding ahead of time
+ * (preload) also means no delay on the first roll.
+ *
+ * Browsers only let audio start after the user has interacted with the
+ * page: a context made before that starts suspended, with a warning in
+ * the console. So nothing is built until preload or play is called from
+ * a click or a key press, and either one resumes a context that was
+ * suspended anyway.
+ */
+import { SOUNDS, SOUND_IDS } from './sounds'
+import type { SoundId } from './sounds'
+import { loadAudioSettings } from './audioSettings'
+import type { AudioSettings } from './audioSettings'
+
+// More copies of one sound than this at once is noise, not atmosphere
+export const MAX_VOICES_PER_SOUND = 6
+
+export interface AudioManager {
+  preload: () => Promise<void>
+  play: (id: SoundId) => void
+  setSettings: (settings: AudioSettings) => void
+}
+
+export function createAudioManager(initialSettings: AudioSettings): AudioManager {
+  let settings = initialSettings
+  let graph: { context: AudioContext; master: GainNode; effects: GainNode } | null = null
+  const buffers = new Map<SoundId, Promise<AudioBuffer | null>>()
+  const voices = new Map<SoundId, number>()
+
+  // Created on first use - there's no point building it for a silent session
+  const getGraph = () => {
+    if (!graph) {
+      const context = new AudioContext()
+      const master = context.createGain()
+      const effects = context.createGain()
+      effects.connect(master)
+      master.connect(context.destination)
+      graph = { context, master, effects }
+      applySettings()
+    }
+    return graph
+  }
+
+  const resume = (context: AudioContext) => {
+    if (context.state === 'suspended') {
+      context.resume().catch((error: unknown) => console.warn('Could not start audio:', error))
+    }
+  }
+
+  const applySettings = () => {
+    if (!graph) return
+    graph.master.gain.value = settings.muted ? 0 : settings.masterVolume
+    graph.effects.gain.value = settings.effectsVolume
+  }
+
+  /**
+   * loadBuffer
+   * ----------
+   * Fetches and decodes a file sound once; every later call gets the same
+   * promise. A sound that fails to load is reported once and then stays
+   * silent, rather than failing again on every roll.
+   */
+  const loadBuffer = (id: SoundId) => {
+    const sound = SOUNDS[id]
+    if (sound.kind !== 'file') return Promise.resolve(null)
+
+    let buffer = buffers.get(id)
+    if (!buffer) {
+      const { context } = getGraph()
+      buffer = fetch(sound.path)
+        .then((response) => {
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+          return response.arrayBuffer()
+        })
+        .then((data) => context.decodeAudioData(data))
+        .catch((error: unknown) => {
+          console.warn(`Could not load sound "${id}" from ${sound.path}:`, error)
+          return null
+        })
+      buffers.set(id, buffer)
+    }
+    return buffer
+  }
+
+  // Counts a playing copy of a sound, and forgets it once it ends
+  const startVoice = (id: SoundId, node: AudioScheduledSourceNode) => {
+    voices.set(id, (voices.get(id) ?? 0) + 1)
+    node.addEventListener('ended', () => voices.set(id, (voices.get(id) ?? 1) - 1))
+  }
+
+  const playTone = (id: SoundId, output: GainNode) => {
+    const sound = SOUNDS[id]
+    if (sound.kind !== 'tone') return
+    const { context } = getGraph()
+    const start = context.currentTime
+    sound.notes.forEach((frequency, i) => {
+      const oscillator = context.createOscillator()
+      const envelope = context.createGain()
+      oscillator.type = sound.wave
+      oscillator.frequency.value = frequency
+      // A quick fade in and out, so notes don't click
+      const noteStart = start + i * sound.noteLength
+      const noteEnd = noteStart + sound.noteLength * (i === sound.notes.length - 1 ? 3 : 1)
+      envelope.gain.setValueAtTime(0, noteStart)
+      envelope.gain.linearRampToValueAtTime(1, noteStart + 0.01)
+      envelope.gain.exponentialRampToValueAtTime(0.001, noteEnd)
+      oscillator.connect(envelope).connect(output)
+      if (i === sound.notes.length - 1) startVoice(id, oscillator)
+      oscillator.start(noteStart)
+      oscillator.stop(noteEnd)
+    })
+  }
+
+  const play = (id: SoundId) => {
+    if (settings.muted || (voices.get(id) ?? 0) >= MAX_VOICES_PER_SOUND) return
+    const { context, effects } = getGraph()
+    resume(context)
+
+    const sound = SOUNDS[id]
+    const output = context.createGain()
+    output.gain.value = sound.volume
+    output.connect(effects)
+
+    if (sound.kind === 'tone') {
+      playTone(id, output)
+      return
+    }
+    loadBuffer(id).then((buffer) => {
+      if (!buffer) return
+      const source = context.createBufferSource()
+      source.buffer = buffer
+      source.connect(output)
+      startVoice(id, source)
+      source.start(0, sound.offset)
+    })
+  }
+
+  return {
+    // Call from a click or key press - see the note at the top
+    preload: async () => {
+      resume(getGraph().context)
+      await Promise.all(SOUND_IDS.map(loadBuffer))
+    },
+    play,
+    setSettings: (next) => {
+      settings = next
+      applySettings()
+    },
+  }
+}
+
+/**
+ * audioManager
+ * ------------
+ * The app's one manager, starting with the saved settings.
+ */
+export const audioManager = createAudioManager(loadAudioSettings())
@@ -0,0 +1,49 @@
+/**
+ * audioSettings.ts - Volume & Mute, Remembered
+ * ============================================
+ *   masterVolume  - everything the app plays, 0 to 1
+ *   effectsVolume - the dice sound effects, on top of the master volume
+ *   muted         - silence without losing the volume levels
+ *
+ * Saved to localStorage so a muted table stays muted after a reload.
+ */
+export interface AudioSettings {
+  masterVolume: number
+  effectsVolume: number
+  muted: boolean
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { masterVolume: 0.8, effectsVolume: 1, muted: false }
+
+const STORAGE_KEY = 'dnd-application:audio'
+
+const isVolume = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1
+
+/**
+ * loadAudioSettings / saveAudioSettings
+ * -------------------------------------
+ * Any setting that's missing or out of range falls back to its default,
+ * so one bad value doesn't reset the others.
+ */
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    if (typeof saved !== 'object' || saved === null) return DEFAULT_AUDIO_SETTINGS
+    const settings = saved as Partial<AudioSettings>
+    return {
+      masterVolume: isVolume(settings.masterVolume) ? settings.masterVolume : DEFAULT_AUDIO_SETTINGS.masterVolume,
+      effectsVolume: isVolume(settings.effectsVolume) ? settings.effectsVolume : DEFAULT_AUDIO_SETTINGS.effectsVolume,
+      muted: typeof settings.muted === 'boolean' ? settings.muted : DEFAULT_AUDIO_SETTINGS.muted,
+    }
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Storage unavailable - the settings last until the page is closed
+  }
+}
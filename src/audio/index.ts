@@ -0,0 +1,14 @@
+/**
+ * index.ts - Audio Barrel Export
+ * ==============================
+ * The shared sound player and its saved settings:
+ *
+ *   import { audioManager } from './audio'
+ *   audioManager.play('roll')
+ */
+export { audioManager, createAudioManager, MAX_VOICES_PER_SOUND } from './audioManager'
+export type { AudioManager } from './audioManager'
+export { DEFAULT_AUDIO_SETTINGS, loadAudioSettings, saveAudioSettings } from './audioSettings'
+export type { AudioSettings } from './audioSettings'
+export { SOUNDS, SOUND_IDS } from './sounds'
+export type { Sound, SoundId } from './sounds'
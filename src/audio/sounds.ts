@@ -0,0 +1,29 @@
+/**
+ * sounds.ts - Every Sound the App Makes
+ * =====================================
+ * A sound is either a file from public/sounds, or a few synthesised notes
+ * for the sounds we don't have a recording of.
+ *
+ *   file  - path, and where in the file the interesting part starts
+ *   tone  - frequencies played one after another, with a waveform
+ *
+ * `volume` is each sound's level relative to the others - the settle
+ * "ding" is much quieter than the roll. To swap a tone for a recording,
+ * drop the file into public/sounds and change its entry to a file.
+ */
+export type SoundId = 'roll' | 'settle' | 'critical' | 'fumble'
+
+export type Sound =
+  | { kind: 'file'; path: string; offset: number; volume: number }
+  | { kind: 'tone'; notes: number[]; noteLength: number; wave: OscillatorType; volume: number }
+
+export const SOUNDS: Record<SoundId, Sound> = {
+  roll: { kind: 'file', path: '/sounds/dice-roll.mp3', offset: 0.3, volume: 1 },
+  settle: { kind: 'file', path: '/sounds/bell-ding.mp3', offset: 0.05, volume: 0.25 },
+  // A rising C major arpeggio for a natural 20...
+  critical: { kind: 'tone', notes: [523.25, 659.25, 783.99, 1046.5], noteLength: 0.09, wave: 'triangle', volume: 0.4 },
+  // ...and a sad trombone for a natural 1
+  fumble: { kind: 'tone', notes: [392, 369.99, 349.23, 261.63], noteLength: 0.22, wave: 'sawtooth', volume: 0.15 },
+}
+
+export const SOUND_IDS = Object.keys(SOUNDS) as SoundId[]
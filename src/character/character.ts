@@ -0,0 +1,288 @@
+/**
+ * character.ts - Character Model
+ * ==============================
+ * A D&D 5e character, reduced to what the dice need: ability scores,
+ * proficiencies, armour class, hit points and attacks - plus the spells
+ * and gear a player wants to keep track of. Every bonus shown on the
+ * sheet is *derived* from these - never stored - so changing a score or
+ * the level updates every skill, save and attack at once.
+ */
+import type { AttackMacro } from '../attacks'
+import type { DiceExpression } from '../dice'
+import { NO_DEFENSES, createHitPoints } from '../hitpoints'
+import type { Defenses, HitPoints } from '../hitpoints'
+
+/**
+ * Abilities
+ * ---------
+ * The six ability scores, in the order every character sheet uses.
+ */
+export type Ability = 'str' | 'dex' | 'con' | 'int' | 'wis' | 'cha'
+
+export const ABILITIES: { id: Ability; name: string; short: string }[] = [
+  { id: 'str', name: 'Strength', short: 'STR' },
+  { id: 'dex', name: 'Dexterity', short: 'DEX' },
+  { id: 'con', name: 'Constitution', short: 'CON' },
+  { id: 'int', name: 'Intelligence', short: 'INT' },
+  { id: 'wis', name: 'Wisdom', short: 'WIS' },
+  { id: 'cha', name: 'Charisma', short: 'CHA' },
+]
+
+/**
+ * Skills
+ * ------
+ * All 18 skills from the Player's Handbook and the ability each one uses.
+ */
+export type SkillId =
+  | 'acrobatics'
+  | 'animal-handling'
+  | 'arcana'
+  | 'athletics'
+  | 'deception'
+  | 'history'
+  | 'insight'
+  | 'intimidation'
+  | 'investigation'
+  | 'medicine'
+  | 'nature'
+  | 'perception'
+  | 'performance'
+  | 'persuasion'
+  | 'religion'
+  | 'sleight-of-hand'
+  | 'stealth'
+  | 'survival'
+
+export const SKILLS: { id: SkillId; name: string; ability: Ability }[] = [
+  { id: 'acrobatics', name: 'Acrobatics', ability: 'dex' },
+  { id: 'animal-handling', name: 'Animal Handling', ability: 'wis' },
+  { id: 'arcana', name: 'Arcana', ability: 'int' },
+  { id: 'athletics', name: 'Athletics', ability: 'str' },
+  { id: 'deception', name: 'Deception', ability: 'cha' },
+  { id: 'history', name: 'History', ability: 'int' },
+  { id: 'insight', name: 'Insight', ability: 'wis' },
+  { id: 'intimidation', name: 'Intimidation', ability: 'cha' },
+  { id: 'investigation', name: 'Investigation', ability: 'int' },
+  { id: 'medicine', name: 'Medicine', ability: 'wis' },
+  { id: 'nature', name: 'Nature', ability: 'int' },
+  { id: 'perception', name: 'Perception', ability: 'wis' },
+  { id: 'performance', name: 'Performance', ability: 'cha' },
+  { id: 'persuasion', name: 'Persuasion', ability: 'cha' },
+  { id: 'religion', name: 'Religion', ability: 'int' },
+  { id: 'sleight-of-hand', name: 'Sleight of Hand', ability: 'dex' },
+  { id: 'stealth', name: 'Stealth', ability: 'dex' },
+  { id: 'survival', name: 'Survival', ability: 'wis' },
+]
+
+/**
+ * Proficiency
+ * -----------
+ * none:       just the ability modifier
+ * proficient: + proficiency bonus
+ * expertise:  + twice the proficiency bonus (rogues, bards)
+ */
+export type Proficiency = 'none' | 'proficient' | 'expertise'
+
+const PROFICIENCY_MULTIPLIER: Record<Proficiency, number> = { none: 0, proficient: 1, expertise: 2 }
+
+/**
+ * Attack
+ * ------
+ *   ability    - the ability used to hit and for damage (STR for a
+ *                longsword, DEX for a bow or a finesse weapon)
+ *   proficient - adds the proficiency bonus to hit
+ *   bonus      - a magic weapon's +1/+2/+3, added to hit and to damage
+ *   damage     - the weapon's damage dice in dice notation, e.g. "1d8"
+ *   damageType - "slashing", "fire"...
+ */
+export interface Attack {
+  id: string
+  name: string
+  ability: Ability
+  proficient: boolean
+  bonus: number
+  damage: string
+  damageType: string
+}
+
+/**
+ * Spell
+ * -----
+ *   level    - 0 for a cantrip, 1-9 for a levelled spell
+ *   prepared - ready to cast today
+ *   notes    - range, damage, concentration... whatever the player wants
+ *              to see without opening the book
+ */
+export interface Spell {
+  id: string
+  name: string
+  level: number
+  prepared: boolean
+  notes: string
+}
+
+/**
+ * InventoryItem
+ * -------------
+ * One line of the equipment list: 20 arrows are one item with a quantity
+ * of 20.
+ */
+export interface InventoryItem {
+  id: string
+  name: string
+  quantity: number
+  notes: string
+}
+
+/**
+ * Character
+ * ---------
+ * A skill missing from `skills` counts as 'none'. Hit points and damage
+ * defenses use the shared types from src/hitpoints, so the same tracker
+ * works for characters and monsters.
+ */
+export interface Character {
+  id: string
+  name: string
+  level: number
+  abilityScores: Record<Ability, number>
+  skills: Partial<Record<SkillId, Proficiency>>
+  savingThrows: Ability[] // The saves the character is proficient in
+  armorClass: number
+  hitPoints: HitPoints
+  defenses: Defenses
+  attacks: Attack[]
+  spells: Spell[]
+  inventory: InventoryItem[]
+}
+
+/**
+ * New Characters & Attacks
+ * ------------------------
+ * A fresh character starts as a level 1 commoner: every score 10, no
+ * proficiencies, a plain unarmed strike, and empty spell and equipment
+ * lists.
+ */
+export function createAttack(): Attack {
+  return {
+    id: crypto.randomUUID(),
+    name: 'Unarmed Strike',
+    ability: 'str',
+    proficient: true,
+    bonus: 0,
+    damage: '1',
+    damageType: 'bludgeoning',
+  }
+}
+
+export function createSpell(): Spell {
+  return { id: crypto.randomUUID(), name: 'New Spell', level: 0, prepared: true, notes: '' }
+}
+
+export function createInventoryItem(): InventoryItem {
+  return { id: crypto.randomUUID(), name: 'New Item', quantity: 1, notes: '' }
+}
+
+export function createCharacter(name = 'New Character'): Character {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    level: 1,
+    abilityScores: { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 },
+    skills: {},
+    savingThrows: [],
+    armorClass: 10,
+    hitPoints: createHitPoints(8),
+    defenses: NO_DEFENSES,
+    attacks: [createAttack()],
+    spells: [],
+    inventory: [],
+  }
+}
+
+/**
+ * Derived Numbers
+ * ---------------
+ * abilityModifier:  10-11 -> +0, 12-13 -> +1, 8-9 -> -1 ...
+ * proficiencyBonus: +2 at levels 1-4, +3 at 5-8 ... +6 at 17-20
+ *
+ * LEARNING POINT: Math.floor rounds towards minus infinity, so a score of 9
+ * gives floor(-0.5) = -1, as the rules want - not 0.
+ */
+export function abilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2)
+}
+
+export function proficiencyBonus(level: number): number {
+  return Math.ceil(level / 4) + 1
+}
+
+function modifierFor(character: Character, ability: Ability) {
+  return abilityModifier(character.abilityScores[ability])
+}
+
+export function skillBonus(character: Character, skill: SkillId): number {
+  const { ability } = SKILLS.find((entry) => entry.id === skill)!
+  const multiplier = PROFICIENCY_MULTIPLIER[character.skills[skill] ?? 'none']
+  return modifierFor(character, ability) + multiplier * proficiencyBonus(character.level)
+}
+
+export function savingThrowBonus(character: Character, ability: Ability): number {
+  const proficient = character.savingThrows.includes(ability)
+  return modifierFor(character, ability) + (proficient ? proficiencyBonus(character.level) : 0)
+}
+
+export function attackBonus(character: Character, attack: Attack): number {
+  const proficiency = attack.proficient ? proficiencyBonus(character.level) : 0
+  return modifierFor(character, attack.ability) + proficiency + attack.bonus
+}
+
+// The flat part of an attack's damage: ability modifier plus magic bonus
+export function damageBonus(character: Character, attack: Attack): number {
+  return modifierFor(character, attack.ability) + attack.bonus
+}
+
+/**
+ * formatBonus
+ * -----------
+ * Bonuses are always written with a sign: "+3", "+0", "-1".
+ */
+export function formatBonus(bonus: number): string {
+  return bonus < 0 ? String(bonus) : `+${bonus}`
+}
+
+/**
+ * Roll Expressions
+ * ----------------
+ * checkExpression: a d20 plus a bonus - for checks, saves and attack rolls
+ * damageNotation:  the attack's damage dice plus its flat bonus, as text,
+ *                  e.g. "1d8+3"
+ */
+export function checkExpression(bonus: number): DiceExpression {
+  const terms: DiceExpression['terms'] = [{ sign: 1, term: { kind: 'dice', count: 1, sides: 20 } }]
+  if (bonus !== 0) {
+    terms.push({ sign: bonus < 0 ? -1 : 1, term: { kind: 'constant', value: Math.abs(bonus) } })
+  }
+  return { terms }
+}
+
+export function damageNotation(character: Character, attack: Attack): string {
+  const bonus = damageBonus(character, attack)
+  return bonus === 0 ? attack.damage : `${attack.damage}${formatBonus(bonus)}`
+}
+
+/**
+ * toAttackMacro
+ * -------------
+ * A character's attack as a one-click macro, with the bonuses worked out
+ * from their current scores and level.
+ */
+export function toAttackMacro(character: Character, attack: Attack): AttackMacro {
+  return {
+    id: attack.id,
+    name: attack.name,
+    toHit: attackBonus(character, attack),
+    damage: damageNotation(character, attack),
+    damageType: attack.damageType,
+  }
+}
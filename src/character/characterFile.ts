@@ -0,0 +1,398 @@
+/**
+ * characterFile.ts - Character Files
+ * ==================================
+ * Characters go in and out of the app as JSON: Export writes one
+ * character, Back up writes the whole roster, and Import reads either.
+ *
+ *   {
+ *     "format": "dnd-application/character",
+ *     "version": 3,
+ *     "character": { ... }            or   "characters": [{ ... }, { ... }]
+ *   }
+ *
+ * A character, in the current version:
+ *
+ *   {
+ *     "name": "Mira",
+ *     "level": 3,
+ *     "abilityScores": { "str": 8, "dex": 16, "con": 12, "int": 13, "wis": 10, "cha": 14 },
+ *     "skills": { "stealth": "expertise", "perception": "proficient" },
+ *     "savingThrows": ["dex", "int"],
+ *     "armorClass": 14,
+ *     "hitPoints": { "current": 17, "max": 20, "temp": 0 },
+ *     "defenses": { "immunities": [], "resistances": ["poison"], "vulnerabilities": [] },
+ *     "attacks": [
+ *       { "name": "Rapier", "ability": "dex", "proficient": true, "bonus": 0, "damage": "1d8", "damageType": "piercing" }
+ *     ],
+ *     "spells": [{ "name": "Fire Bolt", "level": 0, "prepared": true, "notes": "120 ft., 1d10 fire" }],
+ *     "inventory": [{ "name": "Arrows", "quantity": 20, "notes": "" }]
+ *   }
+ *
+ *   skills        - "none", "proficient" or "expertise"; a skill left out is "none"
+ *   hitPoints     - "deathSaves" ({ "successes": 0, "failures": 0 }), "stable"
+ *                   and "dead" may be left out
+ *   defenses      - damage types from src/hitpoints; may be left out
+ *   attacks       - "damage" is dice notation; as on the sheet, an attack
+ *                   whose damage can't be read is kept, just without its
+ *                   roll buttons
+ *   spells        - "level" 0 is a cantrip
+ *   ids are never written - an imported character, and everything on it,
+ *   gets fresh ones, so importing the same file twice makes two characters
+ *
+ * VERSIONS
+ * --------
+ *   1 - hit points were a plain "maxHp" and "currentHp", with no defenses
+ *   2 - "hitPoints" and "defenses", as kept by the HP tracker
+ *   3 - adds "spells" and "inventory"
+ *
+ * A file from an older version is brought up to date one step at a time
+ * (see MIGRATIONS) and then checked field by field, so problems always
+ * name the current fields ("Mira: hitPoints.max: expected a whole number
+ * of at least 1"). Saved characters go through the same steps when they
+ * are loaded (see characterStorage.ts).
+ *
+ * Changing the format means bumping CHARACTER_FORMAT_VERSION and adding
+ * the step up from the old version - never editing an old step.
+ */
+import { ABILITIES, SKILLS } from './character'
+import type { Ability, Attack, Character, InventoryItem, Proficiency, SkillId, Spell } from './character'
+import { NO_DEFENSES, isDamageType } from '../hitpoints'
+import type { DamageType, Defenses, HitPoints } from '../hitpoints'
+import { isFields, readBoolean, readInteger, readText } from '../validation'
+import type { Fields } from '../validation'
+
+export const CHARACTER_FORMAT = 'dnd-application/character'
+export const CHARACTER_FORMAT_VERSION = 3
+
+/**
+ * CharacterImportError
+ * --------------------
+ * Thrown by parseCharacterFile with every problem found, each naming the
+ * character and field it's about.
+ */
+export class CharacterImportError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Not a valid character file - ${problems.join('; ')}`)
+    this.name = 'CharacterImportError'
+    this.problems = problems
+  }
+}
+
+const isAbility = (value: unknown): value is Ability => ABILITIES.some(({ id }) => id === value)
+const isSkill = (value: string): value is SkillId => SKILLS.some(({ id }) => id === value)
+const isProficiency = (value: unknown): value is Proficiency =>
+  value === 'none' || value === 'proficient' || value === 'expertise'
+const ABILITY_IDS = ABILITIES.map(({ id }) => id).join(', ')
+
+/**
+ * Migrations
+ * ----------
+ * MIGRATIONS[n] turns a character from version n into version n + 1. The
+ * values are carried over as they are, right or wrong - checking them is
+ * left to readCharacter, after the last step.
+ */
+type Migration = (character: Fields) => Fields
+
+const MIGRATIONS: Record<number, Migration> = {
+  // Before the HP tracker: full hit points unless currentHp says otherwise
+  1: ({ maxHp, currentHp, ...rest }) => ({
+    ...rest,
+    hitPoints: {
+      current: typeof currentHp === 'number' ? Math.max(0, currentHp) : maxHp,
+      max: maxHp,
+      temp: 0,
+      deathSaves: { successes: 0, failures: 0 },
+      stable: false,
+      dead: false,
+    },
+    defenses: NO_DEFENSES,
+  }),
+  // Before spells and inventory
+  2: (character) => ({ ...character, spells: [], inventory: [] }),
+}
+
+/**
+ * migrateCharacter
+ * ----------------
+ * A character in `version` of the format, brought up to the current one.
+ */
+export function migrateCharacter(character: Fields, version: number): Fields {
+  let migrated = character
+  for (let step = version; step < CHARACTER_FORMAT_VERSION; step++) migrated = MIGRATIONS[step](migrated)
+  return migrated
+}
+
+/**
+ * readList
+ * --------
+ * A list of objects, each read by readEntry. Problems inside an entry are
+ * given its place in the list: "attacks[1].damage: ...".
+ */
+function readList<T>(
+  fields: Fields,
+  field: string,
+  problems: string[],
+  readEntry: (entry: Fields, problems: string[]) => T,
+): T[] {
+  const value = fields[field]
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    problems.push(`${field}: expected a list`)
+    return []
+  }
+  return value.flatMap((entry: unknown, index) => {
+    const path = `${field}[${index}]`
+    if (!isFields(entry)) {
+      problems.push(`${path}: expected an object`)
+      return []
+    }
+    const entryProblems: string[] = []
+    const read = readEntry(entry, entryProblems)
+    problems.push(...entryProblems.map((problem) => `${path}.${problem}`))
+    return [read]
+  })
+}
+
+function readAbilityScores(value: unknown, problems: string[]): Record<Ability, number> {
+  const scores = { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 }
+  if (!isFields(value)) {
+    problems.push('abilityScores: expected all six scores, e.g. { "str": 10, "dex": 12, ... }')
+    return scores
+  }
+  for (const { id } of ABILITIES) scores[id] = readInteger(value[id], `abilityScores.${id}`, problems, 1, 30)
+  return scores
+}
+
+function readSkills(value: unknown, problems: string[]): Partial<Record<SkillId, Proficiency>> {
+  if (value === undefined) return {}
+  if (!isFields(value)) {
+    problems.push('skills: expected proficiencies by skill, e.g. { "stealth": "proficient" }')
+    return {}
+  }
+  const skills: Partial<Record<SkillId, Proficiency>> = {}
+  for (const [skill, proficiency] of Object.entries(value)) {
+    if (!isSkill(skill)) problems.push(`skills.${skill}: unknown skill`)
+    else if (!isProficiency(proficiency)) problems.push(`skills.${skill}: expected "none", "proficient" or "expertise"`)
+    else if (proficiency !== 'none') skills[skill] = proficiency
+  }
+  return skills
+}
+
+function readSavingThrows(value: unknown, problems: string[]): Ability[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    problems.push('savingThrows: expected a list of abilities, e.g. ["dex", "int"]')
+    return []
+  }
+  value.forEach((ability: unknown, index) => {
+    if (!isAbility(ability)) problems.push(`savingThrows[${index}]: expected one of ${ABILITY_IDS}`)
+  })
+  return ABILITIES.map(({ id }) => id).filter((id) => value.includes(id))
+}
+
+function readHitPoints(value: unknown, problems: string[]): HitPoints {
+  if (!isFields(value)) {
+    problems.push('hitPoints: expected { "current": 8, "max": 8, "temp": 0 }')
+    return { current: 1, max: 1, temp: 0, deathSaves: { successes: 0, failures: 0 }, stable: false, dead: false }
+  }
+  const max = readInteger(value.max, 'hitPoints.max', problems, 1)
+  const current = readInteger(value.current, 'hitPoints.current', problems, 0, max)
+  const temp = value.temp === undefined ? 0 : readInteger(value.temp, 'hitPoints.temp', problems, 0)
+
+  let deathSaves = { successes: 0, failures: 0 }
+  if (isFields(value.deathSaves)) {
+    deathSaves = {
+      successes: readInteger(value.deathSaves.successes, 'hitPoints.deathSaves.successes', problems, 0, 3),
+      failures: readInteger(value.deathSaves.failures, 'hitPoints.deathSaves.failures', problems, 0, 3),
+    }
+  } else if (value.deathSaves !== undefined) {
+    problems.push('hitPoints.deathSaves: expected { "successes": 0, "failures": 0 }')
+  }
+
+  const flagProblems: string[] = []
+  const stable = readBoolean(value, 'stable', flagProblems, false)
+  const dead = readBoolean(value, 'dead', flagProblems, false)
+  problems.push(...flagProblems.map((problem) => `hitPoints.${problem}`))
+  return { current, max, temp, deathSaves, stable, dead }
+}
+
+function readDefenses(value: unknown, problems: string[]): Defenses {
+  if (value === undefined) return NO_DEFENSES
+  if (!isFields(value)) {
+    problems.push('defenses: expected { "immunities": [], "resistances": [], "vulnerabilities": [] }')
+    return NO_DEFENSES
+  }
+  const readTypes = (field: keyof Defenses): DamageType[] => {
+    const types = value[field]
+    if (types === undefined) return []
+    if (!Array.isArray(types)) {
+      problems.push(`defenses.${field}: expected a list of damage types`)
+      return []
+    }
+    return types.filter((type: unknown, index): type is DamageType => {
+      if (typeof type === 'string' && isDamageType(type)) return true
+      problems.push(`defenses.${field}[${index}]: ${JSON.stringify(type)} is not a damage type`)
+      return false
+    })
+  }
+  return {
+    immunities: readTypes('immunities'),
+    resistances: readTypes('resistances'),
+    vulnerabilities: readTypes('vulnerabilities'),
+  }
+}
+
+function readAttack(entry: Fields, problems: string[]): Attack {
+  if (!isAbility(entry.ability)) problems.push(`ability: expected one of ${ABILITY_IDS}`)
+  return {
+    id: crypto.randomUUID(),
+    name: readText(entry, 'name', problems, true),
+    ability: isAbility(entry.ability) ? entry.ability : 'str',
+    proficient: readBoolean(entry, 'proficient', problems, false),
+    bonus: entry.bonus === undefined ? 0 : readInteger(entry.bonus, 'bonus', problems),
+    damage: readText(entry, 'damage', problems, true),
+    damageType: readText(entry, 'damageType', problems),
+  }
+}
+
+function readSpell(entry: Fields, problems: string[]): Spell {
+  return {
+    id: crypto.randomUUID(),
+    name: readText(entry, 'name', problems, true),
+    level: readInteger(entry.level, 'level', problems, 0, 9),
+    prepared: readBoolean(entry, 'prepared', problems, false),
+    notes: readText(entry, 'notes', problems),
+  }
+}
+
+function readInventoryItem(entry: Fields, problems: string[]): InventoryItem {
+  return {
+    id: crypto.randomUUID(),
+    name: readText(entry, 'name', problems, true),
+    quantity: entry.quantity === undefined ? 1 : readInteger(entry.quantity, 'quantity', problems, 0),
+    notes: readText(entry, 'notes', problems),
+  }
+}
+
+/**
+ * readCharacter
+ * -------------
+ * A character in the current version, checked field by field (see
+ * src/validation). Ranges are what the sheet allows, so anything Export
+ * writes can be imported again.
+ */
+function readCharacter(fields: Fields, problems: string[]): Character {
+  return {
+    id: crypto.randomUUID(),
+    name: readText(fields, 'name', problems, true),
+    level: readInteger(fields.level, 'level', problems, 1, 20),
+    abilityScores: readAbilityScores(fields.abilityScores, problems),
+    skills: readSkills(fields.skills, problems),
+    savingThrows: readSavingThrows(fields.savingThrows, problems),
+    armorClass: readInteger(fields.armorClass, 'armorClass', problems, 0),
+    hitPoints: readHitPoints(fields.hitPoints, problems),
+    defenses: readDefenses(fields.defenses, problems),
+    attacks: readList(fields, 'attacks', problems, readAttack),
+    spells: readList(fields, 'spells', problems, readSpell),
+    inventory: readList(fields, 'inventory', problems, readInventoryItem),
+  }
+}
+
+/**
+ * readVersion
+ * -----------
+ * The file's version, or null (with a problem) if it isn't one we can
+ * migrate from.
+ */
+function readVersion(value: unknown, problems: string[]): number | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= CHARACTER_FORMAT_VERSION) {
+    return value
+  }
+  problems.push(
+    typeof value === 'number' && value > CHARACTER_FORMAT_VERSION
+      ? `version: ${value} is from a newer version of the app`
+      : `version: expected a whole number from 1 to ${CHARACTER_FORMAT_VERSION}`,
+  )
+  return null
+}
+
+/**
+ * parseCharacterFile
+ * ------------------
+ * Every character in a file, migrated to the current version, or a
+ * CharacterImportError listing every problem in it. Problems are prefixed
+ * with the character's name (or its place in the file, if it hasn't got
+ * one).
+ */
+export function parseCharacterFile(text: string): Character[] {
+  let file: unknown
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new CharacterImportError(['the file is not JSON'])
+  }
+  if (!isFields(file) || file.format !== CHARACTER_FORMAT) {
+    throw new CharacterImportError([`format: expected "${CHARACTER_FORMAT}"`])
+  }
+
+  const problems: string[] = []
+  const version = readVersion(file.version, problems)
+  const entries: unknown[] = Array.isArray(file.characters)
+    ? file.characters
+    : file.character !== undefined
+      ? [file.character]
+      : []
+  if (entries.length === 0) problems.push('expected a "character", or a "characters" list with at least one in it')
+  if (version === null || problems.length > 0) throw new CharacterImportError(problems)
+
+  const characters = entries.flatMap((entry, index) => {
+    const where = Array.isArray(file.characters) ? `character ${index + 1}` : 'character'
+    if (!isFields(entry)) {
+      problems.push(`${where}: expected a character object`)
+      return []
+    }
+    const name = typeof entry.name === 'string' && entry.name.trim() !== '' ? entry.name.trim() : where
+    const entryProblems: string[] = []
+    const character = readCharacter(migrateCharacter(entry, version), entryProblems)
+    problems.push(...entryProblems.map((problem) => `${name}: ${problem}`))
+    return [character]
+  })
+
+  if (problems.length > 0) throw new CharacterImportError(problems)
+  return characters
+}
+
+/**
+ * Exporting
+ * ---------
+ * The current version, without ids - an imported character always gets
+ * fresh ones.
+ */
+function toFileCharacter(character: Character) {
+  return {
+    ...character,
+    id: undefined,
+    attacks: character.attacks.map((attack) => ({ ...attack, id: undefined })),
+    spells: character.spells.map((spell) => ({ ...spell, id: undefined })),
+    inventory: character.inventory.map((item) => ({ ...item, id: undefined })),
+  }
+}
+
+export function characterToJSON(character: Character): string {
+  return JSON.stringify(
+    { format: CHARACTER_FORMAT, version: CHARACTER_FORMAT_VERSION, character: toFileCharacter(character) },
+    null,
+    2,
+  )
+}
+
+// Every character in one file, for a backup
+export function charactersToJSON(characters: Character[]): string {
+  return JSON.stringify(
+    { format: CHARACTER_FORMAT, version: CHARACTER_FORMAT_VERSION, characters: characters.map(toFileCharacter) },
+    null,
+    2,
+  )
+}
@@ -0,0 +1,89 @@
+/**
+ * characterStorage.ts - Saving Characters
+ * =======================================
+ * Every character, plus which one is currently open, is kept in
+ * localStorage as a single JSON object:
+ *
+ *   { "characters": [ ... ], "activeId": "..." }
+ *
+ * Like the roll history, storage can be unavailable (private browsing,
+ * full quota) - then the characters last until the page is closed.
+ */
+import type { Character } from './character'
+import { CHARACTER_FORMAT_VERSION, migrateCharacter } from './characterFile'
+import { isHitPoints } from '../hitpoints'
+
+const STORAGE_KEY = 'dnd-application:characters'
+
+export interface CharacterRoster {
+  characters: Character[]
+  activeId: string | null
+}
+
+/**
+ * upgradeCharacter
+ * ----------------
+ * Saved characters carry no version number, but their shape gives it away:
+ * no `hitPoints` means one saved before the HP tracker (version 1 of the
+ * file format), no `spells` one saved before spells and inventory
+ * (version 2). They're brought up to date by the same migrations as an
+ * imported file (see characterFile.ts). The migrations carry values over
+ * unchecked, so an old entry with no usable "maxHp" comes out with HP the
+ * tracker can't use - isCharacter turns those away.
+ */
+function upgradeCharacter(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value
+  const version = !('hitPoints' in value) ? 1 : !('spells' in value) ? 2 : CHARACTER_FORMAT_VERSION
+  return migrateCharacter(value as Record<string, unknown>, version)
+}
+
+/**
+ * isCharacter
+ * -----------
+ * A light check that a saved entry has the fields the sheet relies on -
+ * anything else is dropped rather than crashing the sheet. Hit points are
+ * checked in full, as the HP tracker does arithmetic with them.
+ */
+function isCharacter(value: unknown): value is Character {
+  if (typeof value !== 'object' || value === null) return false
+  const character = value as Partial<Character>
+  return (
+    typeof character.id === 'string' &&
+    typeof character.name === 'string' &&
+    typeof character.level === 'number' &&
+    typeof character.abilityScores === 'object' &&
+    character.abilityScores !== null &&
+    typeof character.skills === 'object' &&
+    character.skills !== null &&
+    Array.isArray(character.savingThrows) &&
+    typeof character.armorClass === 'number' &&
+    isHitPoints(character.hitPoints) &&
+    typeof character.defenses === 'object' &&
+    character.defenses !== null &&
+    Array.isArray(character.attacks) &&
+    Array.isArray(character.spells) &&
+    Array.isArray(character.inventory)
+  )
+}
+
+export function loadCharacters(): CharacterRoster {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<CharacterRoster> | null
+    const characters = Array.isArray(saved?.characters) ? saved.characters.map(upgradeCharacter).filter(isCharacter) : []
+    // Fall back to the first character if the active one went missing
+    const activeId = characters.some((character) => character.id === saved?.activeId)
+      ? saved!.activeId!
+      : (characters[0]?.id ?? null)
+    return { characters, activeId }
+  } catch {
+    return { characters: [], activeId: null }
+  }
+}
+
+export function saveCharacters(roster: CharacterRoster) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(roster))
+  } catch {
+    // Storage unavailable - keep going with in-memory characters
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * index.ts - Character Barrel Export
+ * ==================================
+ * The character model, the numbers derived from it, storage, and the
+ * import/export file format:
+ *
+ *   import { createCharacter, skillBonus } from './character'
+ */
+export {
+  ABILITIES,
+  SKILLS,
+  createCharacter,
+  createAttack,
+  createSpell,
+  createInventoryItem,
+  abilityModifier,
+  proficiencyBonus,
+  skillBonus,
+  savingThrowBonus,
+  attackBonus,
+  damageBonus,
+  formatBonus,
+  checkExpression,
+  damageNotation,
+  toAttackMacro,
+} from './character'
+export type { Ability, SkillId, Proficiency, Attack, Spell, InventoryItem, Character } from './character'
+
+export { loadCharacters, saveCharacters } from './characterStorage'
+export type { CharacterRoster } from './characterStorage'
+
+export {
+  CHARACTER_FORMAT,
+  CHARACTER_FORMAT_VERSION,
+  CharacterImportError,
+  parseCharacterFile,
+  characterToJSON,
+  charactersToJSON,
+} from './characterFile'
@@ -0,0 +1,127 @@
+/**
+ * D100Dice.tsx - Percentile Dice Pair
+ * ===================================
+ * A d100 roll uses two d10s thrown together: a "tens" die marked
+ * 00, 10 ... 90 and a "units" die marked 0-9. Add them up - and a roll of
+ * 00 + 0 counts as 100, so results run from 1 to 100.
+ *
+ * This component wraps two PolyhedronDice, throws them together, waits for
+ * both to settle, and reports the combined result through onRollComplete.
+ */
+
+import { useRef, useState } from 'react'
+import { Text } from '@react-three/drei'
+import PolyhedronDice from './PolyhedronDice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { PAIR_OFFSET, TENS_SHAPE, UNITS_SHAPE, combinePercentile } from './diceSet'
+import { simulateThrow } from './diceSimulation'
+import type { DieTrajectory } from './diceSimulation'
+import { useRandom } from './randomContext'
+import { getResultTextColor, useDiceSkin } from './skinContext'
+
+export default function D100Dice({ position = [0, 0, 0], onRollComplete, displayValue, trajectories, scale = 1, onRequestRoll, showText = true, emphasis }: DiceComponentProps) {
+  /**
+   * roll: the current throw of the pair. `id` changes on every local re-roll
+   * so the two d10s get new keys and remount - the same trick Scene uses.
+   */
+  const [roll, setRoll] = useState<{ id: number; trajectories: DieTrajectory[] } | null>(() =>
+    trajectories ? { id: 0, trajectories } : null,
+  )
+  const [rollValue, setRollValue] = useState<number | null>(null)
+  const random = useRandom()
+  const { skin } = useDiceSkin()
+
+  // Each die reports separately - collect both before announcing the total
+  const settled = useRef<{ tens?: number; units?: number }>({})
+
+  const handleDieComplete = (which: 'tens' | 'units', value: number) => {
+    settled.current[which] = value
+    const { tens, units } = settled.current
+    if (tens === undefined || units === undefined) return
+
+    const result = combinePercentile(tens, units)
+    setRollValue(result)
+    if (onRollComplete) {
+      onRollComplete(result)
+    }
+  }
+
+  const isRolling = roll !== null && rollValue === null
+
+  const handleClick = () => {
+    if (isRolling) return
+
+    if (onRequestRoll) {
+      onRequestRoll()
+      return
+    }
+
+    // Throw both dice together so they can knock into each other
+    const pair = simulateThrow([
+      { shape: TENS_SHAPE, start: [-PAIR_OFFSET * scale, 0], scale },
+      { shape: UNITS_SHAPE, start: [PAIR_OFFSET * scale, 0], scale },
+    ], random.next)
+    settled.current = {}
+    setRollValue(null)
+    setRoll((previous) => ({ id: (previous?.id ?? 0) + 1, trajectories: pair }))
+  }
+
+  const isMax = rollValue === 100
+  const isMin = rollValue === 1
+
+  return (
+    <group position={position}>
+      {/* The two d10s forward clicks to us, so they never roll on their own */}
+      <PolyhedronDice
+        key={`${roll?.id}-tens`}
+        shape={TENS_SHAPE}
+        restPosition={[-PAIR_OFFSET * scale, 0]}
+        scale={scale}
+        showText={false}
+        emphasis={emphasis}
+        trajectories={roll ? [roll.trajectories[0]] : undefined}
+        onRequestRoll={handleClick}
+        onRollComplete={(value) => handleDieComplete('tens', value)}
+      />
+      <PolyhedronDice
+        key={`${roll?.id}-units`}
+        shape={UNITS_SHAPE}
+        restPosition={[PAIR_OFFSET * scale, 0]}
+        scale={scale}
+        showText={false}
+        emphasis={emphasis}
+        trajectories={roll ? [roll.trajectories[1]] : undefined}
+        onRequestRoll={handleClick}
+        onRollComplete={(value) => handleDieComplete('units', value)}
+      />
+
+      {showText && (
+        <>
+          {/* Roll Result Display */}
+          {rollValue && (
+            <Text
+              position={[0, 2, 0]}
+              fontSize={0.5}
+              color={getResultTextColor(skin, isMax ? 'critical' : isMin ? 'fumble' : null)}
+              anchorX="center"
+              anchorY="middle"
+            >
+              {isMax ? 'MAX ROLL!' : isMin ? 'MIN ROLL!' : `Rolled: ${displayValue ?? rollValue}`}
+            </Text>
+          )}
+
+          {/* Instructions */}
+          <Text
+            position={[0, -0.8, 0]}
+            fontSize={0.15}
+            color="#888888"
+            anchorX="center"
+            anchorY="middle"
+          >
+            Click to roll
+          </Text>
+        </>
+      )}
+    </group>
+  )
+}
@@ -0,0 +1,14 @@
+/**
+ * D10Dice.tsx - Interactive 10-Sided Dice Component
+ * =================================================
+ * A pentagonal trapezohedron (ten kite-shaped faces). Like real d10s the
+ * faces read 0-9, and a 0 counts as 10.
+ */
+
+import PolyhedronDice from './PolyhedronDice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { D10_SHAPE } from './diceSet'
+
+export default function D10Dice(props: DiceComponentProps) {
+  return <PolyhedronDice shape={D10_SHAPE} {...props} />
+}
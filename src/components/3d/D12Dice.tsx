@@ -0,0 +1,13 @@
+/**
+ * D12Dice.tsx - Interactive 12-Sided Dice Component
+ * =================================================
+ * A dodecahedron - twelve pentagon faces.
+ */
+
+import PolyhedronDice from './PolyhedronDice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { D12_SHAPE } from './diceSet'
+
+export default function D12Dice(props: DiceComponentProps) {
+  return <PolyhedronDice shape={D12_SHAPE} {...props} />
+}
@@ -1,92 +1,76 @@
 /**
  * D20Dice.tsx - Interactive 20-Sided Dice Component
  * ==================================================
- * This component creates a clickable D20 (20-sided dice) that animates
- * when rolled and displays the result.
+ * This component creates a clickable D20 (20-sided dice) that is thrown
+ * onto the table with real physics and displays the face it lands on.
  *
  * KEY REACT CONCEPTS DEMONSTRATED:
- * - useState for managing component state
+ * - Custom hooks for sharing stateful logic (useDiceThrow)
  * - useRef for referencing DOM/3D objects
- * - useFrame for animation loops
  * - Props with TypeScript interfaces
  * - Conditional rendering
  * - Event handling (onClick)
  */
 
 /**
- * React Hooks Import
- * ------------------
- * useRef: Creates a mutable reference that persists across re-renders.
- *         Used here to reference the 3D mesh object for animation.
- *
- * useState: Creates state variables that trigger re-renders when changed.
- *           React's primary way to make components interactive.
+ * useDiceThrow Hook
+ * -----------------
+ * Our own custom hook (see useDiceThrow.ts) that does the actual rolling:
+ * it plays back a physics-simulated throw frame by frame, plays the sounds,
+ * and tells us which face landed on top.
  *
  * LEARNING POINT: Hooks are functions that let you "hook into" React features.
  * They all start with "use" and can only be called at the top level of components.
+ * Writing your own hook is how several components share the same behaviour.
  */
-import { useRef, useState } from 'react'
+import { useDiceThrow } from './useDiceThrow'
 
 /**
- * useFrame Hook
- * -------------
- * R3F's animation hook - runs your code on every frame (60fps typically).
- * This is how you create smooth animations in Three.js.
- *
- * Arguments provided to the callback:
- *   - state: Contains the Three.js scene, camera, etc.
- *   - delta: Time in seconds since last frame (useful for frame-rate independent animation)
+ * Text Component from Drei
+ * ------------------------
+ * Renders 3D text in the scene. Much easier than vanilla Three.js text!
+ * Uses SDF (Signed Distance Field) for crisp text at any size.
  */
-import { useFrame } from '@react-three/fiber'
+import { Text, Decal } from '@react-three/drei'
 
 /**
- * Three.js Type Import
- * --------------------
- * 'Mesh' is the Three.js type for 3D objects.
- * We import it for TypeScript type safety with our ref.
- *
- * TYPESCRIPT TIP: Type imports help catch errors at compile time.
- * useRef<Mesh> tells TypeScript "this ref will point to a Mesh object"
+ * D20 Shape
+ * ---------
+ * The icosahedron and its face layout live in diceSet.ts, where
+ * createFaceReadShape (see diceShapes.ts) works out, for each of the 20
+ * triangles:
+ *   - where its number decal goes and how it is turned
+ *   - the exact rotation that shows that face to the camera
+ * Faces are numbered like a real d20: opposite faces add up to 21.
+ * The physics engine uses the very same shape to throw the die.
  */
-import { Mesh, MathUtils } from 'three'
+import { D20_SHAPE } from './diceSet'
+import type { DieTrajectory } from './diceSimulation'
 
 /**
- * Text Component from Drei
- * ------------------------
- * Renders 3D text in the scene. Much easier than vanilla Three.js text!
- * Uses SDF (Signed Distance Field) for crisp text at any size.
+ * Kept & Dropped Highlighting
+ * ---------------------------
+ * With advantage two d20s are rolled and only one counts. The kept die
+ * glows and the dropped one fades (see diceEmphasis.ts).
  */
-import { Text, Decal } from '@react-three/drei'
+import { getEmphasisDecalOpacity, getEmphasisMaterial } from './diceEmphasis'
+import type { DiceEmphasis } from './diceEmphasis'
 
 /**
- * Face Data for D20 Decals
- * ------------------------
- * Each entry contains position [x, y, z] and rotation [x, y, z] for placing
- * a number decal on each face. Adjust manually as needed.
- * Index 0 = face showing "1", Index 19 = face showing "20"
+ * Natural 20s and 1s
+ * ------------------
+ * getNaturalRoll comes from the dice engine, so the attack rules and this
+ * die agree on what counts as a critical or a fumble.
+ */
+import { getNaturalRoll } from '../../dice'
+
+/**
+ * Dice Skins
+ * ----------
+ * Colours, finish and number font come from the skin the Scene is wearing
+ * (see skinContext.ts), so every die in the set matches.
  */
-const FACE_DATA: { position: [number, number, number]; rotation: [number, number, number]; scale: [number, number, number] }[] = [
-  { position: [0, 0.5, -0.28], rotation: [-1.35, 0.00, 0], scale: [0.4, 0.4, 0.4] },   // 1 Done
-  { position: [0.00, 0.5, 0.18], rotation: [-1.35, 0.00, 0], scale: [0.4, 0.4, 0.4] },     // 2 Done
-  { position: [0.3, -0.3, 0.3], rotation: [0.9, 0.7, 0], scale: [0.4, 0.4, 0.4] },    // 3 Done
-  { position: [-0.37, 0.3, -0.3], rotation: [-2, 0, 0], scale: [0.4, 0.4, 0.4] },  // 4 Done
-  { position: [-.7, 0.2, 0.05], rotation: [0, -1, -0.06], scale: [0.4, 0.4, 0.4] },   // 5 Done
-  { position: [.7, 0.2, 0.05], rotation: [0, 1, 0.1], scale: [0.4, 0.4, 0.4] },     // 6 Done
-  { position: [-0.3, 0.01, 0.74], rotation: [0.0, -0.4, 0.5], scale: [0.4, 0.4, 0.4] },   // 7 Done
-  { position: [-0.7, -0.26, 0], rotation: [0, -1.5, 0], scale: [0.4, 0.4, 0.4] },  // 8 Done
-  { position: [-0.3, 0, -0.74], rotation: [0, 0.4, 0.5], scale: [-0.4, 0.4, 0.4] },  // 9 Done
-  { position: [0.3, 0, -0.74], rotation: [0, -0.4, -0.5], scale: [-0.4, 0.4, 0.4] },    // 10 Done
-  { position: [0, -0.5, -0.18], rotation: [-1.35, 0.00, 0], scale: [-0.4, 0.4, 0.4] },     // 11 Done
-  { position: [0.37, 0.3, -0.3], rotation: [-2, 0, 0], scale: [0.4, 0.4, 0.4] },   // 12 Done
-  { position: [0.00, -0.5, 0.18], rotation: [1.35, 0.00, 0], scale: [0.4, 0.4, 0.4] },  // 13 Done
-  { position: [-0.3, 0.3, 0.3], rotation: [-0.9, -0.7, 0], scale: [0.4, 0.4, 0.4] },    // 14 Done
-  { position: [0.7, -0.26, 0], rotation: [0, 1.5, 0], scale: [0.4, 0.4, 0.4] },    // 15 Done
-  { position: [0.3, 0.01, 0.74], rotation: [0.0, 0.4, -0.5], scale: [0.4, 0.4, 0.4] },     // 16 Done
-  { position: [-0.3, -0.3, -0.3], rotation: [-0.9, 0.7, 0], scale: [-0.4, 0.4, 0.4] },   // 17 Done
-  { position: [-0.3, -0.3, 0.3], rotation: [0.9, -0.7, 0], scale: [0.4, 0.4, 0.4] },  // 18 Done
-  { position: [0.3, -0.3, -0.3], rotation: [-0.9, -0.7, 0], scale: [-0.4, 0.4, 0.4] },    // 19 Done
-  { position: [0.3, 0.3, 0.3], rotation: [-0.9, .7, 0], scale: [0.4, 0.4, 0.4] },     // 20 Done
-]
+import { getResultTextColor, getSkinMaterial, useDiceSkin } from './skinContext'
 
 /**
  * TypeScript Interface
@@ -102,6 +86,31 @@ interface D20DiceProps {
   position?: [number, number, number]
   onRollComplete?: (value: number) => void
   displayValue?: number | null
+  /**
+   * trajectories: a throw simulated elsewhere (e.g. by DicePool, so the dice
+   * of a pool can bump into each other). When set, the dice starts playing
+   * it back as soon as it mounts. Only the first entry is used.
+   */
+  trajectories?: DieTrajectory[]
+  /**
+   * scale: size multiplier - must match the scale the throw was simulated at.
+   */
+  scale?: number
+  /**
+   * onRequestRoll: when provided, clicking asks the parent for a new roll
+   * instead of the dice throwing itself.
+   */
+  onRequestRoll?: () => void
+  /**
+   * showText: set false to hide the result and "Click to roll" labels, e.g.
+   * when the dice is part of a pool that shows one combined total.
+   */
+  showText?: boolean
+  /**
+   * emphasis: 'kept' or 'dropped' once a keep rule (like advantage) has
+   * decided whether this dice counts. Leave out when every dice counts.
+   */
+  emphasis?: DiceEmphasis
 }
 
 /**
@@ -116,212 +125,29 @@ interface D20DiceProps {
  *     const position = props.position ?? [0, 0, 0]
  *   }
  */
-export default function D20Dice({ position = [0, 0, 0], onRollComplete, displayValue }: D20DiceProps) {
+export default function D20Dice({ position = [0, 0, 0], onRollComplete, displayValue, trajectories, scale = 1, onRequestRoll, showText = true, emphasis }: D20DiceProps) {
   /**
-   * useRef Hook
-   * -----------
-   * Creates a reference to the mesh object.
-   * We need this to manipulate the mesh directly (for rotation animation).
-   *
-   * <Mesh> is the TypeScript generic - tells TS what type of object this ref holds.
-   * null is the initial value (the mesh doesn't exist until after first render).
+   * Rolling State
+   * -------------
+   * Everything about the throw comes from useDiceThrow:
+   *   - meshRef: a reference to the 3D mesh, which the hook moves every frame
+   *   - rollValue: the face that landed on top (null until it has)
+   *   - isRolling: true while the throw is playing back
+   *   - handleClick: rolls the dice (or asks the parent to)
    *
    * LEARNING POINT: refs are like an "escape hatch" to access DOM/3D objects directly.
    * In regular React, you'd use refs to access DOM elements.
    * In R3F, refs give you access to Three.js objects.
    */
-  const meshRef = useRef<Mesh>(null)
-
-  /**
-   * Sound Effect
-   * ------------
-   * Audio element for dice roll sound. Update the path to your sound file.
-   * Supported formats: mp3, wav, ogg
-   * Place your sound file in the public folder and reference it like: '/sounds/dice-roll.mp3'
-   */
-  const rollSound = useRef<HTMLAudioElement | null>(null)
-  const settleSound = useRef<HTMLAudioElement | null>(null)
-  const ROLL_SOUND_PATH = '/sounds/dice-roll.mp3'
-  const SETTLE_SOUND_PATH = '/sounds/bell-ding.mp3'
-
-  /**
-   * useState Hook - isRolling
-   * -------------------------
-   * Tracks whether the dice is currently rolling/animating.
-   *
-   * useState returns an array with two elements:
-   *   - Current state value (isRolling)
-   *   - Function to update it (setIsRolling)
-   *
-   * Array destructuring: [value, setter] = useState(initialValue)
-   *
-   * LEARNING POINT: When state changes, React re-renders the component.
-   * This is how React makes UIs reactive - change state, UI updates automatically!
-   */
-  const [isRolling, setIsRolling] = useState(false)
-
-  /**
-   * useState Hook - rollValue
-   * -------------------------
-   * Stores the result of the dice roll.
-   *
-   * <number | null> is a TypeScript union type:
-   *   - Can be a number (1-20)
-   *   - Or null (no roll yet / rolling in progress)
-   */
-  const [rollValue, setRollValue] = useState<number | null>(null)
-
-  /**
-   * Settling State & Target Rotation
-   * ---------------------------------
-   * After rolling stops, the dice eases into its final position.
-   * isSettling: true during the ease-in animation
-   * targetRotation: the final [x, y, z] rotation to ease towards
-   */
-  const [isSettling, setIsSettling] = useState(false)
-  const targetRotation = useRef<[number, number, number]>([0, 0, 0])
-
-  /**
-   * Animation Loop with useFrame
-   * ----------------------------
-   * This function runs every frame (~60 times per second).
-   *
-   * Parameters:
-   *   - _ (underscore): The "state" parameter - we're not using it, so we name it _
-   *   - delta: Time elapsed since last frame in seconds
-   *
-   * FRAME-RATE INDEPENDENCE:
-   * Multiplying by delta makes animation speed consistent regardless of frame rate.
-   * delta * 5 means "rotate 5 radians per second" regardless of FPS.
-   *
-   * Without delta, animation would be faster on 144Hz monitors than 60Hz!
-   */
-  useFrame((_, delta) => {
-    if (!meshRef.current) return
-
-    // Rolling animation - tumble on all axes
-    if (isRolling) {
-      meshRef.current.rotation.x += delta * 5
-      meshRef.current.rotation.y += delta * 7
-      meshRef.current.rotation.z += delta * 3
-    }
-
-    // Settling animation - ease into final position
-    if (isSettling) {
-      const [tx, ty, tz] = targetRotation.current
-      const lerpFactor = 25 * delta // Adjust for faster/slower easing
-
-      meshRef.current.rotation.x = MathUtils.lerp(meshRef.current.rotation.x, tx, lerpFactor)
-      meshRef.current.rotation.y = MathUtils.lerp(meshRef.current.rotation.y, ty, lerpFactor)
-      meshRef.current.rotation.z = MathUtils.lerp(meshRef.current.rotation.z, tz, lerpFactor)
-
-      // Check if we're close enough to snap and stop settling
-      const threshold = 0.1
-      const dx = Math.abs(meshRef.current.rotation.x - tx)
-      const dy = Math.abs(meshRef.current.rotation.y - ty)
-      const dz = Math.abs(meshRef.current.rotation.z - tz)
-
-      if (dx < threshold && dy < threshold && dz < threshold) {
-        meshRef.current.rotation.set(tx, ty, tz)
-        setIsSettling(false)
-
-        // Play settle sound
-        if (!settleSound.current) {
-          settleSound.current = new Audio(SETTLE_SOUND_PATH)
-        }
-        settleSound.current.currentTime = 0.05
-        settleSound.current.volume = 0.25
-        settleSound.current.play().catch(() => {})
-      }
-    }
+  const { meshRef, rollValue, isRolling, handleClick } = useDiceThrow({
+    shape: D20_SHAPE,
+    trajectory: trajectories?.[0],
+    scale,
+    onRollComplete,
+    onRequestRoll,
   })
-
-  /**
-   * Click Handler
-   * -------------
-   * Called when user clicks the dice.
-   *
-   * LEARNING POINT: In React, you typically define event handlers inside
-   * the component so they have access to state and props via closure.
-   */
-  const handleClick = () => {
-    // Prevent multiple rolls at once (guard clause)
-    if (isRolling) return
-
-    // Play roll sound
-    if (!rollSound.current) {
-      rollSound.current = new Audio(ROLL_SOUND_PATH)
-    }
-    rollSound.current.currentTime = 0.3 // Reset to start if already playing
-    rollSound.current.play().catch(() => {
-      // Audio play failed (e.g., file not found or autoplay blocked)
-    })
-
-    // Start the rolling animation
-    setIsRolling(true)
-    // Clear any previous result
-    setRollValue(null)
-
-    /**
-     * setTimeout
-     * ----------
-     * JavaScript's way to delay code execution.
-     * First argument: function to run
-     * Second argument: delay in milliseconds (1500 = 1.5 seconds)
-     *
-     * After 1.5 seconds of rolling animation:
-     * 1. Stop the animation
-     * 2. Generate random result (1-20)
-     * 3. Snap dice to a valid face-up rotation
-     * 4. Display the result
-     */
-    setTimeout(() => {
-      setIsRolling(false)
-      // Math.random() returns 0-0.999..., multiply by 20, floor, add 1 = 1-20
-      const result = Math.floor(Math.random() * 20) + 1
-      setRollValue(result)
-
-      // Notify parent of roll result
-      if (onRollComplete) {
-        onRollComplete(result)
-      }
-
-      // Start settling animation towards the target face-up rotation
-      const rotationIndex = result - 1 // Convert 1-20 to 0-19 index
-      targetRotation.current = FACE_UP_ROTATIONS[rotationIndex]
-      setIsSettling(true)
-    }, 1500)
-  }
-
-  /**
- * Face-Up Rotations for D20
- * -------------------------
- * Each entry is [x, y, z] Euler rotation in radians.
- * Index 0 = roll of 1, Index 19 = roll of 20.
- * Fill in values manually through testing.
- */
-const FACE_UP_ROTATIONS: [number, number, number][] = [
-  [2, 0, 0], // 1 Done
-  [1.2, 0, 0], // 2 Done
-  [-0.7, -0.6, -0.2], // 3 Done
-  [2, -0.3, -0.6], // 4 Done
-  [1.6, 2.7, -1.2], // 5 Done
-  [.5, -1.5, 0], // 6 Done
-  [0, 0.45, 0], // 7 Done
-  [-0.3, 1.6, 0], // 8 Done
-  [1.7, 0.8, 1.2], // 9 Done
-  [0, -2.7, 0], // 10
-  [-1.2, 3.14, 0], // 11 Done
-  [2, 0.3, 0.6], // 12 Done
-  [-1.2, 0, 0], // 13 Done
-  [0.7, 0.8, 0], // 14 Done
-  [-0.3, -1.6, 0], // 15 Done
-  [0, -0.45, 0], // 16 Done
-  [-0.7, 2.5, 0.2], // 17 Done
-  [-0.7, 0.6, 0.2], // 18 Done
-  [-0.7, -2.5, -0.2], // 19
-  [0.8, -0.8, 0], // 20 Done
-]
+  const natural = getNaturalRoll(rollValue)
+  const look = useDiceSkin()
 
   /**
    * Return JSX
@@ -347,126 +173,106 @@ const FACE_UP_ROTATIONS: [number, number, number][] = [
        * ref: Connects this mesh to our meshRef for animation control
        * onClick: Event handler triggered when user clicks
        * castShadow: This object will cast shadows on other objects
-       * position: [0, 0.5, 0] lifts it slightly above ground
+       * scale: shrinks the dice in big pools (matching the physics body)
+       * geometry: the icosahedron (a 20-faced polyhedron) from D20_SHAPE, so
+       *           the decals are computed from exactly what's drawn
        */}
       <mesh
         ref={meshRef}
         onClick={handleClick}
         castShadow
-        position={[0, 0.5, 0]}
+        scale={scale}
+        geometry={D20_SHAPE.geometry}
       >
-        {/**
-         * Icosahedron Geometry
-         * --------------------
-         * A 20-faced polyhedron - perfect for a D20 dice!
-         *
-         * args={[radius, detail]}
-         *   - radius: 0.8 units (size of the dice)
-         *   - detail: 0 = low poly look (actual 20 faces)
-         *             Higher numbers subdivide faces for smoother look
-         */}
-        <icosahedronGeometry args={[0.8, 0]} />
 
         {/**
-         * Material with Conditional Color
-         * --------------------------------
+         * Material from the Skin
+         * ----------------------
          * The color changes based on roll result:
-         *   - Natural 20 (critical hit): Green
-         *   - Natural 1 (critical fail): Bright red
-         *   - Any other roll: Dark red (default)
-         *
-         * TERNARY OPERATORS:
-         * condition ? valueIfTrue : valueIfFalse
-         *
-         * Nested ternary: rollValue === 20 ? green : (rollValue === 1 ? red : darkRed)
+         *   - Natural 20 (critical hit): the skin's critical colour
+         *   - Natural 1 (critical fail): the skin's fumble colour
+         *   - Any other roll: the skin's body colour (or its texture)
          *
          * metalness: How metallic the surface looks (0 = plastic, 1 = metal)
          * roughness: How rough/shiny the surface is (0 = mirror, 1 = matte)
+         * Both come from the skin too (see getSkinMaterial in skinContext.ts).
+         *
+         * SPREAD SYNTAX: {...object} passes every key of the object as a prop -
+         * here the skin's look, then the glow/fade for kept and dropped dice.
          */}
         <meshStandardMaterial
-          color={rollValue === 20 ? '#00ff00' : rollValue === 1 ? '#ff0000' : '#8b0000'}
-          metalness={0.3}
-          roughness={0.4}
+          {...getSkinMaterial(look, natural)}
+          {...getEmphasisMaterial(emphasis)}
         />
 
-        {/* Number decals for each face */}
-        {FACE_DATA.map((face, index) => (
+        {/* Number decals for each face - textures shared by every die (see createNumberTextures) */}
+        {D20_SHAPE.decals.map((decal, index) => (
           <Decal
             key={index}
-            position={face.position}
-            rotation={face.rotation}
-            scale={face.scale}
+            position={decal.position}
+            rotation={decal.rotation}
+            scale={decal.scale}
           >
             <meshBasicMaterial
+              map={look.numbers.get(decal.label)}
               transparent
+              opacity={getEmphasisDecalOpacity(emphasis)}
               polygonOffset
               polygonOffsetFactor={-1}
-            >
-              <canvasTexture
-                attach="map"
-                image={(() => {
-                  const canvas = document.createElement('canvas')
-                  canvas.width = 64
-                  canvas.height = 64
-                  const ctx = canvas.getContext('2d')!
-                  ctx.fillStyle = 'white'
-                  ctx.font = 'bold 40px Arial'
-                  ctx.textAlign = 'center'
-                  ctx.textBaseline = 'middle'
-                  ctx.fillText(String(index + 1), 32, 32)
-                  return canvas
-                })()}
-              />
-            </meshBasicMaterial>
+            />
           </Decal>
         ))}
       </mesh>
 
-      {/**
-       * Conditional Rendering - Roll Result
-       * ------------------------------------
-       * Only shows the result text when:
-       *   - rollValue is truthy (not null, not 0... but 0 is impossible for a d20)
-       *   - AND not currently rolling
-       *
-       * CONDITIONAL RENDERING PATTERN:
-       * {condition && <Component />}
-       * If condition is true, render the component. If false, render nothing.
-       *
-       * This is a common React pattern for showing/hiding elements.
-       */}
-      {rollValue && !isRolling && (
-        <Text
-          position={[0, 2, 0]}
-          fontSize={0.5}
-          color={rollValue === 20 ? '#00ff00' : rollValue === 1 ? '#ff0000' : '#ffffff'}
-          anchorX="center"
-          anchorY="middle"
-        >
+      {showText && (
+        <>
           {/**
-           * Dynamic Text Content
-           * --------------------
-           * Uses displayValue (which can be multiplied) if provided, otherwise rollValue.
-           * Shows special messages for natural 20 and 1.
+           * Conditional Rendering - Roll Result
+           * ------------------------------------
+           * Only shows the result text when:
+           *   - rollValue is truthy (not null, not 0... but 0 is impossible for a d20)
+           *   - AND not currently rolling
+           *
+           * CONDITIONAL RENDERING PATTERN:
+           * {condition && <Component />}
+           * If condition is true, render the component. If false, render nothing.
+           *
+           * This is a common React pattern for showing/hiding elements.
            */}
-          {rollValue === 20 ? 'NATURAL 20!' : rollValue === 1 ? 'CRITICAL FAIL!' : `Rolled: ${displayValue ?? rollValue}`}
-        </Text>
-      )}
+          {rollValue && !isRolling && (
+            <Text
+              position={[0, 2, 0]}
+              fontSize={0.5}
+              color={getResultTextColor(look.skin, natural)}
+              anchorX="center"
+              anchorY="middle"
+            >
+              {/**
+               * Dynamic Text Content
+               * --------------------
+               * Uses displayValue (which can be multiplied) if provided, otherwise rollValue.
+               * Shows special messages for natural 20 and 1.
+               */}
+              {natural === 'critical' ? 'NATURAL 20!' : natural === 'fumble' ? 'CRITICAL FAIL!' : `Rolled: ${displayValue ?? rollValue}`}
+            </Text>
+          )}
 
-      {/**
-       * Instructions Text
-       * -----------------
-       * Always visible text telling the user to click the dice.
-       */}
-      <Text
-        position={[0, -0.8, 0]}
-        fontSize={0.15}
-        color="#888888"
-        anchorX="center"
-        anchorY="middle"
-      >
-        Click to roll
-      </Text>
+          {/**
+           * Instructions Text
+           * -----------------
+           * Always visible text telling the user to click the dice.
+           */}
+          <Text
+            position={[0, -0.8, 0]}
+            fontSize={0.15}
+            color="#888888"
+            anchorX="center"
+            anchorY="middle"
+          >
+            Click to roll
+          </Text>
+        </>
+      )}
     </group>
   )
 }
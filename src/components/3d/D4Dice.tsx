@@ -0,0 +1,15 @@
+/**
+ * D4Dice.tsx - Interactive 4-Sided Dice Component
+ * ===============================================
+ * A tetrahedron. Unlike other dice a d4 has no face pointing up when it
+ * lands - it is read from the corner on top, so every face carries three
+ * numbers, one by each corner.
+ */
+
+import PolyhedronDice from './PolyhedronDice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { D4_SHAPE } from './diceSet'
+
+export default function D4Dice(props: DiceComponentProps) {
+  return <PolyhedronDice shape={D4_SHAPE} {...props} />
+}
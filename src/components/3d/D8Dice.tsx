@@ -0,0 +1,13 @@
+/**
+ * D8Dice.tsx - Interactive 8-Sided Dice Component
+ * ===============================================
+ * An octahedron - two square pyramids joined at their bases.
+ */
+
+import PolyhedronDice from './PolyhedronDice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { D8_SHAPE } from './diceSet'
+
+export default function D8Dice(props: DiceComponentProps) {
+  return <PolyhedronDice shape={D8_SHAPE} {...props} />
+}
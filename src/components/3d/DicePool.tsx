@@ -0,0 +1,254 @@
+/**
+ * DicePool.tsx - Many Dice Rolled Together
+ * ========================================
+ * Renders a whole pool of dice (mixed types allowed: "2d8+1d6"), throws
+ * them onto the table together - so they can knock into each other - and
+ * waits for every die to settle before reporting one combined result.
+ *
+ * The Scene gives each roll a new `key`, so React mounts a fresh DicePool
+ * per roll and the bookkeeping below always starts empty.
+ */
+
+import { useEffect, useEffectEvent, useRef, useState } from 'react'
+import { Text } from '@react-three/drei'
+import D20Dice from './D20Dice'
+import D6Dice from './D6Dice'
+import D4Dice from './D4Dice'
+import D8Dice from './D8Dice'
+import D10Dice from './D10Dice'
+import D12Dice from './D12Dice'
+import D100Dice from './D100Dice'
+import type { DiceComponentProps } from './PolyhedronDice'
+import { layoutPool } from './poolLayout'
+import type { PoolLayout } from './poolLayout'
+import { DICE_SHAPES, PAIR_OFFSET, splitDieValue } from './diceSet'
+import { simulateThrow } from './diceSimulation'
+import type { DieThrow, DieTrajectory } from './diceSimulation'
+import { useRandom } from './randomContext'
+
+/**
+ * PoolDie
+ * -------
+ * One die the pool should show. `value` is the face it must land on;
+ * leave it out to show an idle die waiting to be clicked. `kept: false`
+ * marks a die a keep rule throws away (the low die with advantage).
+ */
+export interface PoolDie {
+  sides: number
+  value?: number
+  kept?: boolean
+}
+
+/**
+ * PoolResult
+ * ----------
+ * What the pool reports once everything has settled: every die's face, in
+ * the same order as the `dice` prop, the sum of the kept dice, and the
+ * faces that were thrown away.
+ */
+export interface PoolResult {
+  dice: { sides: number; value: number; kept: boolean }[]
+  total: number
+  discarded: number[]
+}
+
+interface DicePoolProps {
+  dice: PoolDie[]
+  onPoolComplete?: (result: PoolResult) => void
+  onRequestRoll?: () => void
+  displayValue?: number | null
+  breakdown?: string | null // How the total was reached, shown under it
+}
+
+/**
+ * Dice Components by Number of Sides
+ * ----------------------------------
+ * A lookup table from sides to the component that draws that die.
+ * Record<number, ...> is TypeScript for "an object with number keys".
+ */
+const DICE_COMPONENTS: Record<number, (props: DiceComponentProps) => React.JSX.Element> = {
+  4: D4Dice,
+  6: D6Dice,
+  8: D8Dice,
+  10: D10Dice,
+  12: D12Dice,
+  20: D20Dice,
+  100: D100Dice,
+}
+
+/**
+ * canRenderDie
+ * ------------
+ * Only sides we have a 3D model for are spawned. A roll like "1d7" is still
+ * valid - it just has nothing to animate.
+ */
+function canRenderDie(die: PoolDie) {
+  return die.sides in DICE_COMPONENTS
+}
+
+/**
+ * throwPool
+ * ---------
+ * Simulates every die that has a value in one physics world, each released
+ * above its slot in the layout. Returns the recordings grouped back per
+ * pool die (a percentile die gets two); idle dice get undefined.
+ */
+function throwPool(dice: PoolDie[], layout: PoolLayout, random: () => number): (DieTrajectory[] | undefined)[] {
+  const throws: DieThrow[] = []
+  const owners: number[] = [] // Which pool die each physical die belongs to
+
+  dice.forEach((die, index) => {
+    if (die.value === undefined) return
+
+    const shapes = DICE_SHAPES[die.sides]
+    const values = splitDieValue(die.sides, die.value)
+    const [x, y] = layout.positions[index]
+    shapes.forEach((shape, k) => {
+      // A pair is released side by side: k = 0 on the left, k = 1 on the right
+      const offset = shapes.length > 1 ? (k * 2 - 1) * PAIR_OFFSET * layout.scale : 0
+      throws.push({ shape, start: [x + offset, y], scale: layout.scale, target: values[k] })
+      owners.push(index)
+    })
+  })
+
+  const recordings = simulateThrow(throws, random)
+  return dice.map((_, index) => {
+    const own = recordings.filter((_, i) => owners[i] === index)
+    return own.length > 0 ? own : undefined
+  })
+}
+
+export default function DicePool({ dice, onPoolComplete, onRequestRoll, displayValue, breakdown }: DicePoolProps) {
+  const renderable = dice.filter(canRenderDie)
+
+  // The percentile pair is two dice wide
+  const layout = layoutPool(renderable.map((die) => (die.sides === 100 ? 2 : 1)))
+  const isPool = renderable.length > 1
+
+  /**
+   * The Throw
+   * ---------
+   * Simulated once, when the pool mounts (useState's initializer runs only
+   * on the first render). The next roll remounts the pool and throws again.
+   */
+  const random = useRandom()
+  const [trajectories] = useState(() => throwPool(renderable, layout, random.next))
+
+  /**
+   * Settled Faces
+   * -------------
+   * A ref, not state: collecting results shouldn't re-render every die.
+   * Only the final total is state, because it changes what's on screen.
+   */
+  const settled = useRef<(number | undefined)[]>([])
+  const [poolTotal, setPoolTotal] = useState<number | null>(null)
+
+  const handleDieComplete = (index: number, value: number) => {
+    settled.current[index] = value
+    if (renderable.some((_, i) => settled.current[i] === undefined)) return
+
+    const faces = renderable.map((die, i) => ({ sides: die.sides, value: settled.current[i]!, kept: die.kept !== false }))
+    const result: PoolResult = {
+      dice: faces,
+      total: faces.reduce((sum, face) => (face.kept ? sum + face.value : sum), 0),
+      discarded: faces.filter((face) => !face.kept).map((face) => face.value),
+    }
+    setPoolTotal(result.total)
+    if (onPoolComplete) {
+      onPoolComplete(result)
+    }
+  }
+
+  /**
+   * Nothing to Animate
+   * ------------------
+   * If a roll only contains dice we can't draw, nothing will ever settle -
+   * so report the (empty) pool straight away rather than waiting forever.
+   */
+  const isRolled = dice.some((die) => die.value !== undefined)
+  const reportEmptyPool = useEffectEvent(() => onPoolComplete?.({ dice: [], total: 0, discarded: [] }))
+
+  useEffect(() => {
+    if (isRolled && renderable.length === 0) reportEmptyPool()
+  }, [isRolled, renderable.length])
+
+  /**
+   * Kept & Dropped
+   * --------------
+   * Only once every die has landed - highlighting earlier would give the
+   * result away mid-throw.
+   */
+  const isSettled = poolTotal !== null || (isRolled && renderable.length === 0)
+  const hasDropped = renderable.some((die) => die.kept === false)
+  const emphasisFor = (die: PoolDie) => {
+    if (!hasDropped || poolTotal === null) return undefined
+    return die.kept === false ? 'dropped' : 'kept'
+  }
+
+  // Height of the result label: the pool's "Total", or a single die's "Rolled" (at y = 2)
+  const resultY = isPool ? layout.height / 2 + 0.4 : 2
+
+  return (
+    <group>
+      {renderable.map((die, index) => {
+        const DiceComponent = DICE_COMPONENTS[die.sides]
+        return (
+          <DiceComponent
+            key={index}
+            // A thrown die moves in table coordinates; an idle one waits in its slot
+            position={trajectories[index] ? undefined : layout.positions[index]}
+            scale={layout.scale}
+            onRollComplete={(value) => handleDieComplete(index, value)}
+            onRequestRoll={onRequestRoll}
+            displayValue={isPool ? null : displayValue}
+            trajectories={trajectories[index]}
+            showText={!isPool}
+            emphasis={emphasisFor(die)}
+          />
+        )
+      })}
+
+      {/**
+       * Pool Labels
+       * -----------
+       * With several dice, per-die labels would pile on top of each other,
+       * so the pool shows one total above and one hint below instead.
+       * The breakdown ("2d6 (4+5) ×2 crit +3 = 21") goes just under the
+       * result - the pool's total, or a single die's own "Rolled:" label.
+       */}
+      {isPool && poolTotal !== null && (
+        <Text
+          position={[0, resultY, 0]}
+          fontSize={0.5}
+          color="#ffffff"
+          anchorX="center"
+          anchorY="middle"
+        >
+          {`Total: ${displayValue ?? poolTotal}`}
+        </Text>
+      )}
+      {breakdown && isSettled && (
+        <Text
+          position={[0, resultY - 0.5, 0]}
+          fontSize={0.22}
+          color="#ffd700"
+          anchorX="center"
+          anchorY="middle"
+        >
+          {breakdown}
+        </Text>
+      )}
+      {isPool && (
+        <Text
+          position={[0, -layout.height / 2 - 0.3, 0]}
+          fontSize={0.15}
+          color="#888888"
+          anchorX="center"
+          anchorY="middle"
+        >
+          Click any die to roll again
+        </Text>
+      )}
+    </group>
+  )
+}
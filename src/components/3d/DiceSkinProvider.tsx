@@ -0,0 +1,79 @@
+/**
+ * DiceSkinProvider.tsx - Dressing the Dice
+ * ========================================
+ * Hands a skin to every die in the Scene (see skinContext.ts), along with
+ * the texture its body is painted with:
+ *
+ *   gradientColor - a gradient drawn on a canvas, right away
+ *   textureUrl    - an image, loaded in the background; until it arrives
+ *                   the dice wear the gradient, or their plain colour
+ *
+ * and the cache of face number textures every die draws from (see
+ * createNumberTextures in diceTextures.ts). The numbers are only redrawn
+ * when the number colour or font changes - not for a new body colour.
+ *
+ * An image that fails to load is reported in the console and the dice stay
+ * plain. Textures are disposed as soon as the skin stops using them.
+ */
+import { useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import { SRGBColorSpace, TextureLoader } from 'three'
+import type { Texture } from 'three'
+import type { DiceSkin } from '../../skins'
+import { DiceSkinContext } from './skinContext'
+import { createGradientTexture, createNumberTextures } from './diceTextures'
+
+interface DiceSkinProviderProps {
+  skin: DiceSkin
+  children: ReactNode
+}
+
+export default function DiceSkinProvider({ skin, children }: DiceSkinProviderProps) {
+  const { bodyColor, gradientColor, textureUrl, numberColor, numberFont } = skin
+
+  const numbers = useMemo(() => createNumberTextures({ numberColor, numberFont }), [numberColor, numberFont])
+  useEffect(() => () => numbers.dispose(), [numbers])
+
+  const gradient = useMemo(
+    () => (gradientColor ? createGradientTexture(bodyColor, gradientColor) : null),
+    [bodyColor, gradientColor],
+  )
+  useEffect(() => () => gradient?.dispose(), [gradient])
+
+  /**
+   * Loaded Image
+   * ------------
+   * Remembered with the URL it came from, so switching skins never shows
+   * the previous skin's image while the next one loads.
+   */
+  const [loaded, setLoaded] = useState<{ url: string; texture: Texture } | null>(null)
+
+  useEffect(() => {
+    if (!textureUrl) return
+    let current: Texture | null = null
+    let cancelled = false
+    new TextureLoader().load(
+      textureUrl,
+      (texture) => {
+        if (cancelled) {
+          texture.dispose()
+          return
+        }
+        texture.colorSpace = SRGBColorSpace
+        current = texture
+        setLoaded({ url: textureUrl, texture })
+      },
+      undefined,
+      (error) => console.warn(`Could not load dice texture ${textureUrl.slice(0, 80)}:`, error),
+    )
+    return () => {
+      cancelled = true
+      current?.dispose()
+    }
+  }, [textureUrl])
+
+  const image = loaded && loaded.url === textureUrl ? loaded.texture : null
+  const look = useMemo(() => ({ skin, bodyMap: image ?? gradient, numbers }), [skin, image, gradient, numbers])
+
+  return <DiceSkinContext value={look}>{children}</DiceSkinContext>
+}
@@ -0,0 +1,142 @@
+/**
+ * PolyhedronDice.tsx - Shared Dice Component
+ * ==========================================
+ * The rolling, settling and number decals for any die described by a
+ * DiceShape (see diceShapes.ts). D4Dice, D8Dice, D10Dice and D12Dice are
+ * thin wrappers that pass in their own shape.
+ *
+ * It behaves like D20Dice/D6Dice: click to roll, then watch the die play
+ * back its physics throw (see useDiceThrow.ts) until it comes to rest.
+ */
+import { Text, Decal } from '@react-three/drei'
+import type { DiceShape } from './diceShapes'
+import type { DieTrajectory } from './diceSimulation'
+import { getEmphasisDecalOpacity, getEmphasisMaterial } from './diceEmphasis'
+import type { DiceEmphasis } from './diceEmphasis'
+import { useDiceThrow } from './useDiceThrow'
+import { getResultTextColor, getSkinMaterial, useDiceSkin } from './skinContext'
+
+/**
+ * DiceComponentProps
+ * ------------------
+ * The props every dice component accepts - the same ones as D20Dice/D6Dice.
+ */
+export interface DiceComponentProps {
+  position?: [number, number, number]
+  onRollComplete?: (value: number) => void
+  displayValue?: number | null
+  /**
+   * trajectories: pre-computed throws to play back, one per physical die
+   * (a percentile roll has two). Leave out for an idle die.
+   */
+  trajectories?: DieTrajectory[]
+  scale?: number // Size multiplier - must match the scale the throw was simulated at
+  onRequestRoll?: () => void // Clicking asks the parent to roll instead
+  /**
+   * showText: set false to hide the result and "Click to roll" labels, e.g.
+   * when a parent (like D100Dice or DicePool) shows its own combined result.
+   */
+  showText?: boolean
+  /**
+   * emphasis: 'kept' or 'dropped' once a keep rule (advantage, "4d6kh3")
+   * has decided whether this die counts. Leave out when every die counts.
+   */
+  emphasis?: DiceEmphasis
+}
+
+interface PolyhedronDiceProps extends DiceComponentProps {
+  shape: DiceShape
+  restPosition?: [number, number] // Where the die waits before its first throw
+}
+
+export default function PolyhedronDice({
+  shape,
+  showText = true,
+  position = [0, 0, 0],
+  onRollComplete,
+  displayValue,
+  trajectories,
+  scale = 1,
+  restPosition,
+  onRequestRoll,
+  emphasis,
+}: PolyhedronDiceProps) {
+  const { meshRef, rollValue, isRolling, handleClick } = useDiceThrow({
+    shape,
+    trajectory: trajectories?.[0],
+    scale,
+    restPosition,
+    onRollComplete,
+    onRequestRoll,
+  })
+
+  const isMax = rollValue === shape.sides
+  const isMin = rollValue === 1
+  // Max and min rolls light up in the skin's critical and fumble colours
+  const look = useDiceSkin()
+  const highlight = isMax ? 'critical' : isMin ? 'fumble' : null
+
+  return (
+    <group position={position}>
+      <mesh
+        ref={meshRef}
+        onClick={handleClick}
+        castShadow
+        scale={scale}
+        geometry={shape.geometry}
+      >
+        <meshStandardMaterial
+          {...getSkinMaterial(look, highlight)}
+          {...getEmphasisMaterial(emphasis)}
+          flatShading
+        />
+
+        {/* Number decals, computed from the geometry, with shared textures */}
+        {shape.decals.map((decal, index) => (
+          <Decal
+            key={index}
+            position={decal.position}
+            rotation={decal.rotation}
+            scale={decal.scale}
+          >
+            <meshBasicMaterial
+              map={look.numbers.get(decal.label, decal.label.length > 1 ? 32 : 40)}
+              transparent
+              opacity={getEmphasisDecalOpacity(emphasis)}
+              polygonOffset
+              polygonOffsetFactor={-1}
+            />
+          </Decal>
+        ))}
+      </mesh>
+
+      {showText && (
+        <>
+          {/* Roll Result Display */}
+          {rollValue && !isRolling && (
+            <Text
+              position={[0, 2, 0]}
+              fontSize={0.5}
+              color={getResultTextColor(look.skin, highlight)}
+              anchorX="center"
+              anchorY="middle"
+            >
+              {isMax ? 'MAX ROLL!' : isMin ? 'MIN ROLL!' : `Rolled: ${displayValue ?? rollValue}`}
+            </Text>
+          )}
+
+          {/* Instructions */}
+          <Text
+            position={[0, -0.8, 0]}
+            fontSize={0.15}
+            color="#888888"
+            anchorX="center"
+            anchorY="middle"
+          >
+            Click to roll
+          </Text>
+        </>
+      )}
+    </group>
+  )
+}
@@ -53,20 +53,35 @@ import { OrbitControls, Environment, PerspectiveCamera } from '@react-three/drei
 import { Suspense } from 'react'
 
 /**
- * D20Dice Component Import
- * ------------------------
- * Our custom component for the interactive 20-sided dice.
+ * DicePool Import
+ * ---------------
+ * DicePool draws every die in a roll, laid out so none overlap, and reports
+ * one combined result when they have all settled.
  */
-import D20Dice from './D20Dice'
-import D6Dice from './D6Dice'
+import DicePool from './DicePool'
+import type { PoolDie, PoolResult } from './DicePool'
 
 /**
  * Scene Props Interface
+ * ---------------------
+ * dice: which dice to spawn (normally produced by the dice notation engine)
+ * rollId: changes for every new roll so the dice remount and throw again
+ * onRollComplete: called once every die has settled, with the total of the
+ *                 kept dice and the faces a keep rule threw away (the low
+ *                 d20 with advantage)
+ * onPoolComplete: the same moment, with every die's face
+ * onRequestRoll: called when a die is clicked - the parent rolls the expression
+ * displayValue: the final total (after modifiers) shown in place of the raw faces
+ * breakdown: how that total was reached, e.g. "2d6 (4+5) ×2 crit +3 = 21"
  */
 interface SceneProps {
-  onRollComplete?: (value: number) => void
+  onRollComplete?: (value: number, discarded: number[]) => void
+  onPoolComplete?: (result: PoolResult) => void
+  onRequestRoll?: () => void
   displayValue?: number | null
-  selectedDice?: 'd20' | 'd6'
+  breakdown?: string | null
+  dice?: PoolDie[]
+  rollId?: number
 }
 
 /**
@@ -76,10 +91,11 @@ interface SceneProps {
  * - Camera and controls
  * - Lighting (ambient + directional)
  * - Environment for reflections
- * - Our D20 dice
+ * - The requested dice
  * - A ground plane for shadows
  */
-export default function Scene({ onRollComplete, displayValue, selectedDice = 'd20' }: SceneProps) {
+export default function Scene({ onRollComplete, onPoolComplete, onRequestRoll, displayValue, breakdown, dice = [{ sides: 20 }], rollId = 0 }: SceneProps) {
+
   return (
     /**
      * Canvas Component
@@ -179,24 +195,24 @@ export default function Scene({ onRollComplete, displayValue, selectedDice = 'd2
         <Environment preset="sunset" />
 
         {/**
-         * Dice Components
-         * ---------------
-         * Renders the selected dice type.
+         * Dice Pool
+         * ---------
+         * Renders every requested die.
+         *
+         * key={rollId}: every new roll gives React a new key, so it mounts a
+         * fresh pool, which throws its dice so they land on their values.
          */}
-        {selectedDice === 'd20' && (
-          <D20Dice
-            position={[0, -0.5, 0]}
-            onRollComplete={onRollComplete}
-            displayValue={displayValue}
-          />
-        )}
-        {selectedDice === 'd6' && (
-          <D6Dice
-            position={[0, -0.5, 0]}
-            onRollComplete={onRollComplete}
-            displayValue={displayValue}
-          />
-        )}
+        <DicePool
+          key={rollId}
+          dice={dice}
+          onPoolComplete={(result) => {
+            onRollComplete?.(result.total, result.discarded)
+            onPoolComplete?.(result)
+          }}
+          onRequestRoll={onRequestRoll}
+          displayValue={displayValue}
+          breakdown={breakdown}
+        />
 
         {/**
          * Ground Plane
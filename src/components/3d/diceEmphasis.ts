@@ -0,0 +1,30 @@
+/**
+ * diceEmphasis.ts - Kept & Dropped Dice
+ * =====================================
+ * When a roll keeps only some of its dice (advantage, "4d6kh3"...), the
+ * kept dice glow and the dropped ones fade once everything has landed, so
+ * it's obvious at a glance which faces count.
+ */
+
+export type DiceEmphasis = 'kept' | 'dropped'
+
+/**
+ * getEmphasisMaterial
+ * -------------------
+ * Extra props for the die body's meshStandardMaterial.
+ *   emissive: a colour the surface gives off by itself, as if lit from within
+ *   opacity:  only has an effect when `transparent` is on
+ */
+export function getEmphasisMaterial(emphasis?: DiceEmphasis) {
+  return {
+    emissive: emphasis === 'kept' ? '#ffd700' : '#000000',
+    emissiveIntensity: emphasis === 'kept' ? 0.35 : 0,
+    transparent: emphasis === 'dropped',
+    opacity: emphasis === 'dropped' ? 0.3 : 1,
+  }
+}
+
+// Opacity for the number decals, so dropped numbers fade with their die
+export function getEmphasisDecalOpacity(emphasis?: DiceEmphasis) {
+  return emphasis === 'dropped' ? 0.3 : 1
+}
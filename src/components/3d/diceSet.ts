@@ -0,0 +1,91 @@
+/**
+ * diceSet.ts - The Standard Dice
+ * ==============================
+ * One shape per kind of die, built once when the module loads and shared
+ * by every die on screen - and by the physics, which needs the same
+ * outlines to throw them (see diceSimulation.ts).
+ *
+ * They live here rather than in the component files because React's fast
+ * refresh wants .tsx files to export components only.
+ */
+import {
+  BoxGeometry,
+  DodecahedronGeometry,
+  IcosahedronGeometry,
+  OctahedronGeometry,
+  TetrahedronGeometry,
+} from 'three'
+import { createFaceReadShape, createTrapezohedronGeometry, createVertexReadShape } from './diceShapes'
+import type { DiceShape } from './diceShapes'
+
+/**
+ * Dice Shapes
+ * -----------
+ * Geometry args are (radius, detail): detail 0 keeps the real flat faces.
+ * Faces are numbered like real dice - opposite faces add up to N + 1.
+ */
+export const D4_SHAPE = createVertexReadShape(new TetrahedronGeometry(0.9, 0))
+export const D6_SHAPE = createFaceReadShape(new BoxGeometry(0.8, 0.8, 0.8))
+export const D8_SHAPE = createFaceReadShape(new OctahedronGeometry(0.8, 0))
+export const D12_SHAPE = createFaceReadShape(new DodecahedronGeometry(0.8, 0))
+export const D20_SHAPE = createFaceReadShape(new IcosahedronGeometry(0.8, 0))
+
+/**
+ * The d10 Family
+ * --------------
+ * The d10 and both percentile dice share one geometry, only the printed
+ * numbers differ. A die result of 10 is printed as "0" on a d10 and the
+ * units die, and as "00" on the tens die.
+ */
+const D10_GEOMETRY = createTrapezohedronGeometry(0.75, 0.8)
+export const D10_SHAPE = createFaceReadShape(D10_GEOMETRY, (value) => String(value % 10))
+export const TENS_SHAPE = createFaceReadShape(D10_GEOMETRY, (value) => `${value % 10}0`)
+export const UNITS_SHAPE = D10_SHAPE
+
+// A percentile pair sits side by side, this far either side of its middle
+export const PAIR_OFFSET = 0.9
+
+/**
+ * Percentile Maths
+ * ----------------
+ * splitPercentile: 57 -> tens die 5 ("50"), units die 7
+ * combinePercentile: the reverse, with 00 + 0 = 100
+ * A die result of 10 stands for the digit 0.
+ */
+export function splitPercentile(value: number) {
+  const tensDigit = Math.floor((value % 100) / 10)
+  const unitsDigit = value % 10
+  return { tens: tensDigit || 10, units: unitsDigit || 10 }
+}
+
+export function combinePercentile(tens: number, units: number) {
+  return ((tens % 10) * 10 + (units % 10)) || 100
+}
+
+/**
+ * DICE_SHAPES
+ * -----------
+ * The physical dice behind each kind of roll: one die each, except a d100,
+ * which is a tens die and a units die thrown together.
+ */
+export const DICE_SHAPES: Record<number, DiceShape[]> = {
+  4: [D4_SHAPE],
+  6: [D6_SHAPE],
+  8: [D8_SHAPE],
+  10: [D10_SHAPE],
+  12: [D12_SHAPE],
+  20: [D20_SHAPE],
+  100: [TENS_SHAPE, UNITS_SHAPE],
+}
+
+/**
+ * splitDieValue
+ * -------------
+ * The face each physical die must land on to show `value` - the inverse of
+ * adding them up.
+ */
+export function splitDieValue(sides: number, value: number): number[] {
+  if (sides !== 100) return [value]
+  const { tens, units } = splitPercentile(value)
+  return [tens, units]
+}
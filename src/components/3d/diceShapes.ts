@@ -0,0 +1,386 @@
+/**
+ * diceShapes.ts - Geometry Helpers for Polyhedral Dice
+ * ====================================================
+ * Works out where the numbers go on a die, and which rotation shows each
+ * result, straight from the geometry - no hand-tuned tables.
+ *
+ * HOW IT WORKS:
+ * -------------
+ * Three.js stores a polyhedron as triangles. Triangles that share the same
+ * normal (the direction they face) belong to the same flat face of the die:
+ * a d12's pentagons are three triangles each, a d10's kites are two.
+ * From each face we get its centre, its normal and its corners, which is
+ * all we need to place a number decal and to turn that face to the camera.
+ *
+ * The camera looks down the -Z axis, so "face up" means "facing +Z".
+ *
+ * The pieces are exported separately so new dice can mix and match:
+ *   getPolyhedronFaces   - geometry -> flat faces (centroid, normal, corners)
+ *   numberOppositeFaces  - real-dice numbering, opposite faces sum to N + 1
+ *   faceTowardQuaternion - the exact rotation that shows a face to the camera
+ *   createFaceReadShape  - all of the above, bundled for PolyhedronDice
+ */
+import { BufferGeometry, Euler, Float32BufferAttribute, Matrix4, Quaternion, Vector3 } from 'three'
+
+/**
+ * DiceDecal
+ * ---------
+ * Placement of one number on the die, as [x, y, z] tuples that can go
+ * straight into <Decal position rotation scale>.
+ */
+export interface DiceDecal {
+  position: [number, number, number]
+  rotation: [number, number, number]
+  scale: [number, number, number]
+  label: string
+}
+
+/**
+ * DiceShape
+ * ---------
+ * Everything a dice component needs to draw and settle a die.
+ * restRotations[n - 1] is the orientation that shows a result of n.
+ */
+export interface DiceShape {
+  sides: number
+  geometry: BufferGeometry
+  decals: DiceDecal[]
+  restRotations: Quaternion[]
+}
+
+/**
+ * PolyhedronFace
+ * --------------
+ * One flat face of a polyhedron.
+ *   centroid - the face's centre of area (where its number goes)
+ *   normal   - unit vector pointing out of the die
+ *   corners  - ordered counter-clockwise when seen from outside
+ *   up       - the direction a number's top should point, within the face
+ *   inradius - distance from the centroid to the nearest edge
+ */
+export interface PolyhedronFace {
+  centroid: Vector3
+  normal: Vector3
+  corners: Vector3[]
+  up: Vector3
+  inradius: number
+}
+
+/**
+ * Camera Directions
+ * -----------------
+ * TOWARD_CAMERA: a face pointing this way is facing the viewer
+ * SCREEN_UP: the direction that reads as "up" on screen
+ */
+export const TOWARD_CAMERA = new Vector3(0, 0, 1)
+export const SCREEN_UP = new Vector3(0, 1, 0)
+
+const EPSILON = 1e-5
+
+/**
+ * getPolyhedronFaces
+ * ------------------
+ * Groups the geometry's triangles into flat faces. Works for any convex
+ * polyhedron, indexed (like BoxGeometry) or not (like IcosahedronGeometry).
+ */
+export function getPolyhedronFaces(geometry: BufferGeometry): PolyhedronFace[] {
+  const triangles = geometry.index ? geometry.toNonIndexed() : geometry
+  const positions = triangles.getAttribute('position')
+  const groups: { normal: Vector3; corners: Vector3[] }[] = []
+
+  for (let i = 0; i < positions.count; i += 3) {
+    const [a, b, c] = [i, i + 1, i + 2].map((v) => new Vector3().fromBufferAttribute(positions, v))
+    const normal = new Vector3().subVectors(b, a).cross(new Vector3().subVectors(c, a)).normalize()
+
+    let group = groups.find((g) => g.normal.dot(normal) > 0.999)
+    if (!group) {
+      group = { normal, corners: [] }
+      groups.push(group)
+    }
+    for (const corner of [a, b, c]) {
+      if (!group.corners.some((existing) => existing.distanceTo(corner) < EPSILON)) {
+        group.corners.push(corner)
+      }
+    }
+  }
+
+  return groups.map(({ normal, corners }) => {
+    const average = corners.reduce((sum, corner) => sum.add(corner), new Vector3()).divideScalar(corners.length)
+
+    // Order corners by angle around the normal so consecutive corners form edges
+    const axisX = new Vector3().subVectors(corners[0], average).normalize()
+    const axisY = new Vector3().crossVectors(normal, axisX)
+    const angleOf = (corner: Vector3) => {
+      const offset = new Vector3().subVectors(corner, average)
+      return Math.atan2(offset.dot(axisY), offset.dot(axisX))
+    }
+    const ordered = [...corners].sort((p, q) => angleOf(p) - angleOf(q))
+
+    const centroid = areaCentroid(ordered)
+    return { centroid, normal, corners: ordered, up: numberUp(ordered, centroid), inradius: inradius(ordered, centroid) }
+  })
+}
+
+/**
+ * areaCentroid
+ * ------------
+ * The balance point of a flat polygon. For regular faces this is just the
+ * average of the corners, but on a d10's kite it sits nearer the wide end,
+ * which is where the number fits best.
+ */
+function areaCentroid(corners: Vector3[]): Vector3 {
+  const centroid = new Vector3()
+  let totalArea = 0
+  for (let i = 1; i < corners.length - 1; i++) {
+    const [a, b, c] = [corners[0], corners[i], corners[i + 1]]
+    const area = new Vector3().subVectors(b, a).cross(new Vector3().subVectors(c, a)).length() / 2
+    centroid.addScaledVector(new Vector3().add(a).add(b).add(c).divideScalar(3), area)
+    totalArea += area
+  }
+  return centroid.divideScalar(totalArea)
+}
+
+/**
+ * numberUp
+ * --------
+ * Which way a face's number should point. Dice print numbers with their top
+ * towards a corner - the furthest one, e.g. the pole of a d10 kite - except
+ * on faces with an even number of equal corners (a d6 square), where
+ * numbers sit square to an edge.
+ *
+ * When several directions qualify we take the one closest to SCREEN_UP, so
+ * numbers read upright with the die in its starting pose.
+ */
+function numberUp(corners: Vector3[], centroid: Vector3): Vector3 {
+  const distances = corners.map((corner) => corner.distanceTo(centroid))
+  const furthest = Math.max(...distances)
+  const isRegular = distances.every((d) => furthest - d < 1e-4)
+
+  const candidates =
+    isRegular && corners.length % 2 === 0
+      ? corners.map((corner, i) => corner.clone().add(corners[(i + 1) % corners.length]).divideScalar(2))
+      : corners.filter((_, i) => furthest - distances[i] < 1e-4)
+
+  const directions = candidates.map((point) => new Vector3().subVectors(point, centroid).normalize())
+  const score = (direction: Vector3) => direction.dot(SCREEN_UP) * 10 + direction.dot(TOWARD_CAMERA)
+  return directions.reduce((best, direction) => (score(direction) > score(best) + 1e-6 ? direction : best))
+}
+
+/**
+ * inradius
+ * --------
+ * Distance from a face's centre to its nearest edge - used to size numbers
+ * so they fit inside the face.
+ */
+function inradius(corners: Vector3[], centroid: Vector3): number {
+  let nearest = Infinity
+  corners.forEach((corner, i) => {
+    const next = corners[(i + 1) % corners.length]
+    const edge = new Vector3().subVectors(next, corner).normalize()
+    const toCenter = new Vector3().subVectors(centroid, corner)
+    const alongEdge = edge.multiplyScalar(toCenter.dot(edge))
+    nearest = Math.min(nearest, toCenter.sub(alongEdge).length())
+  })
+  return nearest
+}
+
+/**
+ * orientation
+ * -----------
+ * A rotation whose local Z axis is `normal` and local Y axis is `up`.
+ * Used for decals (the projector looks along its Z axis) and, combined
+ * with its inverse, to turn one frame onto another.
+ */
+function orientation(normal: Vector3, up: Vector3): Quaternion {
+  const y = up.clone().sub(normal.clone().multiplyScalar(up.dot(normal))).normalize()
+  const x = new Vector3().crossVectors(y, normal)
+  return new Quaternion().setFromRotationMatrix(new Matrix4().makeBasis(x, y, normal))
+}
+
+/**
+ * faceTowardQuaternion
+ * --------------------
+ * The exact rotation that turns `direction` (a face normal, or for a d4 a
+ * corner) to point at the camera, with `up` pointing up the screen.
+ *
+ * LEARNING POINT: Build one rotation that maps the standard axes onto the
+ * face's frame, one that maps them onto the camera's frame, and chain the
+ * first one's inverse with the second: face frame -> standard -> camera.
+ */
+export function faceTowardQuaternion(
+  direction: Vector3,
+  up: Vector3,
+  toward: Vector3 = TOWARD_CAMERA,
+  screenUp: Vector3 = SCREEN_UP,
+): Quaternion {
+  const faceFrame = orientation(direction.clone().normalize(), up)
+  const cameraFrame = orientation(toward.clone().normalize(), screenUp)
+  return cameraFrame.multiply(faceFrame.invert())
+}
+
+/**
+ * numberOppositeFaces
+ * -------------------
+ * Gives every face a value 1..N the way real dice are numbered: opposite
+ * faces always add up to N + 1 (1 opposite 20 on a d20, 1 opposite 6 on a
+ * d6). Returns values[i] for faces[i].
+ *
+ * Opposite pairs are numbered going around the die, alternating which side
+ * gets the low number so high and low values are spread over the whole die
+ * instead of bunching up on one half.
+ */
+export function numberOppositeFaces(faces: PolyhedronFace[]): number[] {
+  const values: number[] = new Array(faces.length).fill(0)
+  const pairs: [number, number][] = []
+
+  faces.forEach((face, i) => {
+    if (pairs.some((pair) => pair.includes(i))) return
+    const opposite = faces.findIndex((other) => other.normal.dot(face.normal) < -0.999)
+    if (opposite === -1) {
+      throw new Error('numberOppositeFaces needs a die where every face has an opposite face')
+    }
+    pairs.push([i, opposite])
+  })
+
+  // Walk the pairs by the longitude of their first face, so neighbours in the
+  // list are neighbours on the die
+  const longitude = (i: number) => Math.atan2(faces[i].normal.x, faces[i].normal.z)
+  pairs.sort((p, q) => longitude(p[0]) - longitude(q[0]))
+
+  pairs.forEach(([first, second], rank) => {
+    const low = rank + 1
+    const [lowFace, highFace] = rank % 2 === 0 ? [first, second] : [second, first]
+    values[lowFace] = low
+    values[highFace] = faces.length + 1 - low
+  })
+
+  return values
+}
+
+function toTuple(vector: Vector3 | Euler): [number, number, number] {
+  return [vector.x, vector.y, vector.z]
+}
+
+/**
+ * createFaceReadShape
+ * -------------------
+ * For dice read from the face pointing up (d6, d8, d10, d12, d20).
+ * Faces are numbered with numberOppositeFaces; `label` turns a value into
+ * the printed text (a d10 prints its 10 as "0").
+ */
+export function createFaceReadShape(
+  geometry: BufferGeometry,
+  label: (value: number) => string = String,
+): DiceShape {
+  const faces = getPolyhedronFaces(geometry)
+  const values = numberOppositeFaces(faces)
+
+  const decals: DiceDecal[] = []
+  const restRotations: Quaternion[] = []
+
+  faces.forEach((face, i) => {
+    const size = face.inradius * 1.65
+    decals.push({
+      position: toTuple(face.centroid),
+      rotation: toTuple(new Euler().setFromQuaternion(orientation(face.normal, face.up))),
+      scale: [size, size, size * 0.5],
+      label: label(values[i]),
+    })
+    restRotations[values[i] - 1] = faceTowardQuaternion(face.normal, face.up)
+  })
+
+  return { sides: faces.length, geometry, decals, restRotations }
+}
+
+/**
+ * createVertexReadShape
+ * ---------------------
+ * For the d4, which is read from the corner pointing up. Every face carries
+ * three numbers, one by each corner, and the number by a corner is the same
+ * on all faces that meet there. The result is the corner facing the camera.
+ */
+export function createVertexReadShape(
+  geometry: BufferGeometry,
+  label: (value: number) => string = String,
+): DiceShape {
+  const faces = getPolyhedronFaces(geometry)
+
+  // Collect the unique corners - corner i shows the value i + 1
+  const vertices: Vector3[] = []
+  for (const face of faces) {
+    for (const corner of face.corners) {
+      if (!vertices.some((v) => v.distanceTo(corner) < EPSILON)) vertices.push(corner)
+    }
+  }
+
+  const decals: DiceDecal[] = []
+  for (const face of faces) {
+    const size = face.inradius * 0.9
+    for (const corner of face.corners) {
+      const value = vertices.findIndex((v) => v.distanceTo(corner) < EPSILON) + 1
+      const towardCorner = new Vector3().subVectors(corner, face.centroid)
+      decals.push({
+        position: toTuple(face.centroid.clone().addScaledVector(towardCorner, 0.55)),
+        rotation: toTuple(new Euler().setFromQuaternion(orientation(face.normal, towardCorner))),
+        scale: [size, size, size * 0.5],
+        label: label(value),
+      })
+    }
+  }
+
+  // Point each corner at the camera; the edge to the next corner acts as "up"
+  const restRotations = vertices.map((vertex, i) => {
+    const other = vertices[(i + 1) % vertices.length]
+    return faceTowardQuaternion(vertex, other.clone().sub(vertex))
+  })
+
+  return { sides: vertices.length, geometry, decals, restRotations }
+}
+
+/**
+ * createTrapezohedronGeometry
+ * ---------------------------
+ * Three.js has no built-in d10 shape, so we build a pentagonal
+ * trapezohedron: two poles and two zig-zag rings of five corners, joined
+ * by ten kite-shaped faces (each made of two triangles).
+ *
+ * The ring height is chosen so every kite is perfectly flat:
+ *   ringHeight = poleHeight * (1 - cos 36°) / (1 + cos 36°)
+ */
+export function createTrapezohedronGeometry(radius: number, poleHeight: number): BufferGeometry {
+  const c = Math.cos(Math.PI / 5)
+  const ringHeight = (poleHeight * (1 - c)) / (1 + c)
+
+  const top = new Vector3(0, poleHeight, 0)
+  const bottom = new Vector3(0, -poleHeight, 0)
+  const ring = (offset: number, y: number) =>
+    Array.from({ length: 5 }, (_, k) => {
+      const angle = (k * 2 * Math.PI) / 5 + offset
+      return new Vector3(radius * Math.cos(angle), y, radius * Math.sin(angle))
+    })
+  const upper = ring(0, ringHeight)
+  const lower = ring(Math.PI / 5, -ringHeight)
+
+  const triangles: Vector3[] = []
+  // Wound counter-clockwise when seen from outside so normals point outwards
+  const kite = (a: Vector3, b: Vector3, c2: Vector3, d: Vector3) => triangles.push(a, b, c2, a, c2, d)
+  for (let k = 0; k < 5; k++) {
+    const next = (k + 1) % 5
+    kite(top, upper[next], lower[k], upper[k])
+    kite(bottom, lower[k], upper[next], lower[next])
+  }
+
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new Float32BufferAttribute(triangles.flatMap((v) => [v.x, v.y, v.z]), 3))
+  // Texture coordinates projected straight on from the front, so a skin's
+  // gradient runs pole to pole and an image covers it
+  geometry.setAttribute(
+    'uv',
+    new Float32BufferAttribute(
+      triangles.flatMap((v) => [0.5 + v.x / (2 * radius), 0.5 + v.y / (2 * poleHeight)]),
+      2,
+    ),
+  )
+  geometry.computeVertexNormals()
+  return geometry
+}
@@ -0,0 +1,290 @@
+/**
+ * diceSimulation.ts - Rigid-Body Dice Throws
+ * ==========================================
+ * Throws dice onto a virtual table with real physics (gravity, friction,
+ * bounces, dice knocking into each other) and records where every die is on
+ * every frame. The dice components then just play that recording back.
+ *
+ * WHY SIMULATE FIRST, THEN PLAY BACK?
+ * -----------------------------------
+ * Running the whole throw up front, with a fixed time step, means:
+ *   - we know the result before the first frame is drawn
+ *   - the same starting conditions always give the same throw, whatever
+ *     the frame rate - so a seeded roll can be replayed exactly
+ *   - a pre-determined result can still land naturally (see below)
+ *
+ * PRE-DETERMINED RESULTS:
+ * -----------------------
+ * A die's shape looks the same from many angles - turn a d20 so that its
+ * "7" face sits where its "13" face was and you can't tell the difference.
+ * So we simulate the throw, see which face actually landed on top, and
+ * repaint the die by that symmetry so the face we want is the one on top.
+ * The motion stays 100% physical; only the numbers move.
+ *
+ * The physics engine is cannon-es, a small pure-JavaScript engine.
+ * The table is the plane at z = TABLE_Z and gravity pulls towards -Z,
+ * so "on top" means facing the camera.
+ */
+import {
+  Body,
+  ContactMaterial,
+  ConvexPolyhedron,
+  Material,
+  Plane,
+  Quaternion as PhysicsQuaternion,
+  Vec3,
+  World,
+} from 'cannon-es'
+import { Quaternion, Vector3 } from 'three'
+import { secureRandom } from '../../dice'
+import { getPolyhedronFaces } from './diceShapes'
+import type { DiceShape } from './diceShapes'
+
+/**
+ * DieTrajectory
+ * -------------
+ * The recording of one die's throw.
+ *   frames - 7 numbers per frame: position x, y, z then quaternion x, y, z, w
+ *   value  - the result showing once it comes to rest
+ *
+ * A Float32Array keeps a few hundred frames per die compact and fast.
+ */
+export interface DieTrajectory {
+  frames: Float32Array
+  value: number
+}
+
+/**
+ * DieThrow
+ * --------
+ * One die to throw.
+ *   shape  - its geometry and numbering
+ *   start  - where it is released, [x, y] above the table
+ *   scale  - size multiplier (big pools use smaller dice)
+ *   target - force this result; leave out to let physics decide
+ */
+export interface DieThrow {
+  shape: DiceShape
+  start?: [number, number]
+  scale?: number
+  target?: number
+}
+
+/**
+ * Table & World Constants
+ * -----------------------
+ * SIMULATION_STEP: seconds per physics step (and per recorded frame)
+ * TABLE_Z: height of the table surface (matches the ground plane in Scene)
+ * TABLE_HALF_WIDTH / HEIGHT: invisible walls keep the dice in view
+ */
+export const SIMULATION_STEP = 1 / 60
+export const TABLE_Z = -1
+const TABLE_HALF_WIDTH = 5
+const TABLE_HALF_HEIGHT = 3.5
+const CEILING_Z = 3
+const RELEASE_Z = 2
+const GRAVITY = 30
+const MAX_FRAMES = 60 * 6 // Give up waiting for rest after 6 seconds
+
+/**
+ * Physics Bodies from Dice Shapes
+ * -------------------------------
+ * cannon-es wants a convex polyhedron as a list of corners plus, for each
+ * face, the indices of its corners in counter-clockwise order - exactly
+ * what getPolyhedronFaces gives us. Cached per shape and scale because
+ * every die of the same kind has the same outline.
+ */
+const polyhedronCache = new Map<DiceShape, Map<number, { vertices: Vec3[]; faces: number[][] }>>()
+
+function createDieShape(shape: DiceShape, scale: number): ConvexPolyhedron {
+  let byScale = polyhedronCache.get(shape)
+  if (!byScale) {
+    byScale = new Map()
+    polyhedronCache.set(shape, byScale)
+  }
+
+  let data = byScale.get(scale)
+  if (!data) {
+    const vertices: Vector3[] = []
+    const faces = getPolyhedronFaces(shape.geometry).map((face) =>
+      face.corners.map((corner) => {
+        let index = vertices.findIndex((v) => v.distanceTo(corner) < 1e-5)
+        if (index === -1) index = vertices.push(corner) - 1
+        return index
+      }),
+    )
+    data = { vertices: vertices.map((v) => new Vec3(v.x * scale, v.y * scale, v.z * scale)), faces }
+    byScale.set(scale, data)
+  }
+
+  return new ConvexPolyhedron({ vertices: data.vertices, faces: data.faces })
+}
+
+/**
+ * valueDirections
+ * ---------------
+ * For each result, the direction (in the die's own space) that points at
+ * the camera when that result shows. It's the face normal - or, for a d4,
+ * the corner - and we get it by undoing the result's rest rotation.
+ */
+function valueDirections(shape: DiceShape): Vector3[] {
+  return shape.restRotations.map((rotation) => new Vector3(0, 0, 1).applyQuaternion(rotation.clone().invert()))
+}
+
+/**
+ * readTopValue
+ * ------------
+ * Whichever result's direction points most nearly straight up.
+ */
+function readTopValue(shape: DiceShape, orientation: Quaternion): number {
+  let best = { value: 1, height: -Infinity }
+  valueDirections(shape).forEach((direction, index) => {
+    const height = direction.clone().applyQuaternion(orientation).z
+    if (height > best.height) best = { value: index + 1, height }
+  })
+  return best.value
+}
+
+/**
+ * randomOrientation
+ * -----------------
+ * A uniformly random rotation (Shoemake's method) - every way a die could
+ * be held in the hand is equally likely.
+ */
+function randomOrientation(random: () => number): PhysicsQuaternion {
+  const [u1, u2, u3] = [random(), random(), random()]
+  const a = Math.sqrt(1 - u1)
+  const b = Math.sqrt(u1)
+  return new PhysicsQuaternion(
+    a * Math.sin(2 * Math.PI * u2),
+    a * Math.cos(2 * Math.PI * u2),
+    b * Math.sin(2 * Math.PI * u3),
+    b * Math.cos(2 * Math.PI * u3),
+  )
+}
+
+/**
+ * createTable
+ * -----------
+ * The world: gravity, the table top, four walls and a ceiling. Each plane
+ * in cannon-es faces +Z, so walls are made by rotating it.
+ */
+function createTable(diceMaterial: Material): World {
+  const world = new World({ gravity: new Vec3(0, 0, -GRAVITY), allowSleep: true })
+
+  const tableMaterial = new Material('table')
+  world.addContactMaterial(new ContactMaterial(diceMaterial, tableMaterial, { friction: 0.3, restitution: 0.35 }))
+  world.addContactMaterial(new ContactMaterial(diceMaterial, diceMaterial, { friction: 0.2, restitution: 0.3 }))
+
+  const planes: { position: [number, number, number]; euler: [number, number, number] }[] = [
+    { position: [0, 0, TABLE_Z], euler: [0, 0, 0] }, // Table top
+    { position: [-TABLE_HALF_WIDTH, 0, 0], euler: [0, Math.PI / 2, 0] }, // Left wall
+    { position: [TABLE_HALF_WIDTH, 0, 0], euler: [0, -Math.PI / 2, 0] }, // Right wall
+    { position: [0, -TABLE_HALF_HEIGHT, 0], euler: [-Math.PI / 2, 0, 0] }, // Bottom wall
+    { position: [0, TABLE_HALF_HEIGHT, 0], euler: [Math.PI / 2, 0, 0] }, // Top wall
+    { position: [0, 0, CEILING_Z], euler: [Math.PI, 0, 0] }, // Ceiling
+  ]
+
+  for (const { position, euler } of planes) {
+    const body = new Body({ mass: 0, material: tableMaterial, shape: new Plane() })
+    body.position.set(...position)
+    body.quaternion.setFromEuler(...euler)
+    world.addBody(body)
+  }
+
+  return world
+}
+
+/**
+ * simulateThrow
+ * -------------
+ * Throws all the dice together and returns one trajectory per die, in the
+ * same order. `random` supplies every random number the throw needs.
+ */
+export function simulateThrow(dice: DieThrow[], random: () => number = secureRandom.next): DieTrajectory[] {
+  const diceMaterial = new Material('dice')
+  const world = createTable(diceMaterial)
+
+  const bodies = dice.map(({ shape, start = [0, 0], scale = 1 }) => {
+    const body = new Body({
+      mass: 1,
+      material: diceMaterial,
+      shape: createDieShape(shape, scale),
+      linearDamping: 0.1,
+      angularDamping: 0.1,
+      sleepSpeedLimit: 0.15,
+      sleepTimeLimit: 0.3,
+    })
+
+    body.position.set(start[0], start[1], RELEASE_Z + (random() - 0.5) * 0.5)
+    body.quaternion.copy(randomOrientation(random))
+
+    // Toss towards the middle of the table, with plenty of spin
+    body.velocity.set(-start[0] * 0.8 + (random() - 0.5) * 6, -start[1] * 0.8 + (random() - 0.5) * 6, -random() * 4)
+    body.angularVelocity.set((random() - 0.5) * 30, (random() - 0.5) * 30, (random() - 0.5) * 30)
+
+    world.addBody(body)
+    return body
+  })
+
+  // Step the world until every die is asleep (at rest), recording as we go
+  const recordings: number[][] = dice.map(() => [])
+  const record = () => {
+    bodies.forEach((body, i) => {
+      const { position: p, quaternion: q } = body
+      recordings[i].push(p.x, p.y, p.z, q.x, q.y, q.z, q.w)
+    })
+  }
+
+  record()
+  for (let frame = 0; frame < MAX_FRAMES; frame++) {
+    world.step(SIMULATION_STEP) // One exact step - no wall-clock time involved
+    record()
+    if (bodies.every((body) => body.sleepState === Body.SLEEPING)) break
+  }
+
+  return dice.map(({ shape, target }, i) => {
+    const frames = new Float32Array(recordings[i])
+    const last = frames.length - 7
+    const finalOrientation = new Quaternion().fromArray(frames, last + 3)
+    const landed = readTopValue(shape, finalOrientation)
+
+    if (target === undefined || target === landed) {
+      return { frames, value: landed }
+    }
+
+    /**
+     * Repaint by symmetry: the rotation C that carries the target's face onto
+     * the landed face (in the die's own space) is
+     *   C = inverse(rest[landed]) * rest[target]
+     * Applying it to every frame leaves the outline where it was, but puts
+     * the target number where the landed number used to be.
+     */
+    const correction = shape.restRotations[landed - 1].clone().invert().multiply(shape.restRotations[target - 1])
+    const orientation = new Quaternion()
+    for (let offset = 0; offset < frames.length; offset += 7) {
+      orientation.fromArray(frames, offset + 3).multiply(correction).toArray(frames, offset + 3)
+    }
+    return { frames, value: target }
+  })
+}
+
+/**
+ * restingPose
+ * -----------
+ * Where a die sits when it lies on the table showing `value`: its rest
+ * rotation, lifted so its lowest corner just touches the table top.
+ * Used for dice that haven't been thrown yet.
+ */
+export function restingPose(shape: DiceShape, value: number, scale = 1) {
+  const quaternion = shape.restRotations[value - 1].clone()
+  const corners = shape.geometry.getAttribute('position')
+  const corner = new Vector3()
+
+  let lowest = Infinity
+  for (let i = 0; i < corners.count; i++) {
+    lowest = Math.min(lowest, corner.fromBufferAttribute(corners, i).applyQuaternion(quaternion).z)
+  }
+
+  return { position: new Vector3(0, 0, TABLE_Z - lowest * scale), quaternion }
+}
@@ -0,0 +1,99 @@
+/**
+ * diceTextures.ts - Drawing a Skin
+ * ================================
+ * The canvases behind a die's look (see src/skins for what a skin is):
+ *
+ *   drawNumberCanvas      - one face number, in the skin's colour and font
+ *   createNumberTextures  - a cache of those, one texture per label
+ *   createGradientTexture - the body fading from one colour to another
+ *
+ * All are drawn on a 2D <canvas> and handed to Three.js as textures.
+ *
+ * LEARNING POINT: a Three.js texture holds GPU memory that JavaScript's
+ * garbage collector can't see. Whoever creates one must call dispose()
+ * when it's no longer shown - see DiceSkinProvider.
+ */
+import { CanvasTexture, SRGBColorSpace } from 'three'
+import type { DiceSkin } from '../../skins'
+
+const NUMBER_CANVAS_SIZE = 64
+
+type NumberStyle = Pick<DiceSkin, 'numberColor' | 'numberFont'>
+
+/**
+ * drawNumberCanvas
+ * ----------------
+ * fontSize is in canvas pixels (out of 64) - dice with two-digit labels
+ * use a smaller size so they fit their face.
+ */
+export function drawNumberCanvas(label: string, skin: NumberStyle, fontSize = 40): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = NUMBER_CANVAS_SIZE
+  canvas.height = NUMBER_CANVAS_SIZE
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = skin.numberColor
+  ctx.font = `bold ${fontSize}px ${skin.numberFont}`
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(label, NUMBER_CANVAS_SIZE / 2, NUMBER_CANVAS_SIZE / 2)
+  return canvas
+}
+
+/**
+ * createNumberTextures
+ * --------------------
+ * Every die showing a "7" in the same style can share one texture, so each
+ * label is drawn once, the first time a die asks for it, and handed out
+ * again after that - a pool of twenty d20s needs 20 textures, not 400,
+ * and re-rendering a die while it rolls draws nothing at all.
+ *
+ *   const numbers = createNumberTextures(skin)
+ *   numbers.get('20')       // drawn now
+ *   numbers.get('20')       // the same texture again
+ *   numbers.dispose()       // frees them all once the style changes
+ */
+export interface NumberTextures {
+  get: (label: string, fontSize?: number) => CanvasTexture
+  dispose: () => void
+}
+
+export function createNumberTextures(style: NumberStyle): NumberTextures {
+  const textures = new Map<string, CanvasTexture>()
+  return {
+    get: (label, fontSize = 40) => {
+      const key = `${fontSize}:${label}`
+      let texture = textures.get(key)
+      if (!texture) {
+        texture = new CanvasTexture(drawNumberCanvas(label, style, fontSize))
+        texture.colorSpace = SRGBColorSpace
+        textures.set(key, texture)
+      }
+      return texture
+    },
+    // The textures stay in the cache: if anything still draws one, Three.js
+    // simply uploads it again rather than showing a blank face
+    dispose: () => textures.forEach((texture) => texture.dispose()),
+  }
+}
+
+/**
+ * createGradientTexture
+ * ---------------------
+ * A top-to-bottom fade. The dice's texture coordinates run bottom to top,
+ * so `from` ends up on the upper half of the die.
+ */
+export function createGradientTexture(from: string, to: string): CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = 4
+  canvas.height = 256
+  const ctx = canvas.getContext('2d')!
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height)
+  gradient.addColorStop(0, from)
+  gradient.addColorStop(1, to)
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  const texture = new CanvasTexture(canvas)
+  texture.colorSpace = SRGBColorSpace
+  return texture
+}
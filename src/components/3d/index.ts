@@ -37,3 +37,21 @@ export { default as D20Dice } from './D20Dice'
 
 // Re-export D6Dice component as a named export
 export { default as D6Dice } from './D6Dice'
+
+// The rest of the polyhedral set, built on the shared PolyhedronDice
+export { default as D4Dice } from './D4Dice'
+export { default as D8Dice } from './D8Dice'
+export { default as D10Dice } from './D10Dice'
+export { default as D12Dice } from './D12Dice'
+export { default as D100Dice } from './D100Dice'
+
+// Many dice rolled together, with one combined result
+export { default as DicePool } from './DicePool'
+export type { PoolDie, PoolResult } from './DicePool'
+
+// One RandomSource for every die in the Scene (see randomContext.ts)
+export { RandomContext, useRandom } from './randomContext'
+
+// The skin every die in the Scene wears (see skinContext.ts)
+export { default as DiceSkinProvider } from './DiceSkinProvider'
+export { useDiceSkin } from './skinContext'
@@ -0,0 +1,84 @@
+/**
+ * poolLayout.ts - Grid Layout for Dice Pools
+ * ==========================================
+ * Works out where each die in a pool sits so none of them overlap, and how
+ * much to shrink them so a big pool (8d6 fireball, 20d6 meteor swarm...)
+ * still fits in view.
+ *
+ * Dice are packed into rows, left to right. Most dice take one slot; a
+ * percentile pair (two d10s) takes two.
+ */
+
+export interface PoolLayout {
+  positions: [number, number, number][] // Centre of each die's slot
+  scale: number // 1 = normal size
+  height: number // Total height of the pool, after scaling
+}
+
+/**
+ * Layout Area
+ * -----------
+ * CELL: size of one slot at full scale (a die is about 1.6 units across)
+ * AREA_WIDTH / AREA_HEIGHT: the part of the table the pool may cover
+ */
+const CELL = 2
+const AREA_WIDTH = 8
+const AREA_HEIGHT = 5
+
+/**
+ * packRows
+ * --------
+ * Greedy packing: fill a row until the next die doesn't fit, then start
+ * a new one. Returns the die indices in each row.
+ */
+function packRows(footprints: number[], columns: number): number[][] {
+  const rows: number[][] = []
+  let width = columns // Forces a new row for the first die
+  footprints.forEach((footprint, index) => {
+    if (width + footprint > columns) {
+      rows.push([])
+      width = 0
+    }
+    rows[rows.length - 1].push(index)
+    width += footprint
+  })
+  return rows
+}
+
+/**
+ * layoutPool
+ * ----------
+ * Tries every possible row width and keeps the one that lets the dice be
+ * drawn biggest.
+ */
+export function layoutPool(footprints: number[]): PoolLayout {
+  if (footprints.length === 0) return { positions: [], scale: 1, height: 0 }
+
+  const total = footprints.reduce((sum, footprint) => sum + footprint, 0)
+  let best = { rows: [] as number[][], scale: 0 }
+
+  for (let columns = Math.max(...footprints); columns <= total; columns++) {
+    const rows = packRows(footprints, columns)
+    const scale = Math.min(1, AREA_WIDTH / (columns * CELL), AREA_HEIGHT / (rows.length * CELL))
+    // Prefer the biggest dice, then the fewest rows (2 dice side by side, not stacked)
+    const isTie = Math.abs(scale - best.scale) < 1e-9
+    if (scale > best.scale + 1e-9 || (isTie && rows.length < best.rows.length)) best = { rows, scale }
+  }
+
+  const slot = CELL * best.scale
+  const positions: [number, number, number][] = new Array(footprints.length)
+
+  best.rows.forEach((row, rowIndex) => {
+    const rowWidth = row.reduce((sum, index) => sum + footprints[index], 0)
+    const y = ((best.rows.length - 1) / 2 - rowIndex) * slot
+    let left = (-rowWidth / 2) * slot
+
+    for (const index of row) {
+      const width = footprints[index] * slot
+      positions[index] = [left + width / 2, y, 0]
+      left += width
+    }
+  })
+
+  return { positions, scale: best.scale, height: best.rows.length * slot }
+}
@@ -0,0 +1,26 @@
+/**
+ * randomContext.ts - Where the Dice Get Their Randomness
+ * ======================================================
+ * Every die (and every physics throw) reads its RandomSource from this
+ * context instead of calling Math.random(), so one provider decides the
+ * randomness for the whole Scene:
+ *
+ *   <RandomContext value={createSeededRandom('replay-7')}>
+ *     <Scene ... />
+ *   </RandomContext>
+ *
+ * Without a provider, dice use secureRandom.
+ *
+ * LEARNING POINT: Context passes a value down the tree without threading
+ * it through every component's props. React Three Fiber's <Canvas> forwards
+ * contexts from outside it, so a provider around the Scene reaches the dice.
+ */
+import { createContext, useContext } from 'react'
+import { secureRandom } from '../../dice'
+import type { RandomSource } from '../../dice'
+
+export const RandomContext = createContext<RandomSource>(secureRandom)
+
+export function useRandom(): RandomSource {
+  return useContext(RandomContext)
+}
@@ -0,0 +1,61 @@
+/**
+ * skinContext.ts - Which Skin the Dice Wear
+ * =========================================
+ * Like the random source (see randomContext.ts), the skin reaches every die
+ * through context, so one provider dresses the whole Scene:
+ *
+ *   <DiceSkinProvider skin={frost}>
+ *     <Scene ... />
+ *   </DiceSkinProvider>
+ *
+ * The provider also turns the skin's gradient or image into a texture
+ * (bodyMap), and keeps the face number textures (numbers), once for every
+ * die to share. Without a provider, dice wear the Classic skin.
+ */
+import { createContext, useContext } from 'react'
+import type { Texture } from 'three'
+import { CLASSIC_SKIN } from '../../skins'
+import type { DiceSkin } from '../../skins'
+import type { NaturalRoll } from '../../dice'
+import { createNumberTextures } from './diceTextures'
+import type { NumberTextures } from './diceTextures'
+
+export interface DiceLook {
+  skin: DiceSkin
+  bodyMap: Texture | null
+  numbers: NumberTextures
+}
+
+export const DiceSkinContext = createContext<DiceLook>({
+  skin: CLASSIC_SKIN,
+  bodyMap: null,
+  numbers: createNumberTextures(CLASSIC_SKIN),
+})
+
+export function useDiceSkin(): DiceLook {
+  return useContext(DiceSkinContext)
+}
+
+/**
+ * getSkinMaterial
+ * ---------------
+ * Props for the die body's meshStandardMaterial. `highlight` is 'critical'
+ * for a natural 20 or a max roll, 'fumble' for a natural 1 or a min roll.
+ *
+ * A material's colour multiplies its map, so a textured die is left white
+ * (the image's own colours) unless it's lighting up for a crit or fumble.
+ */
+export function getSkinMaterial({ skin, bodyMap }: DiceLook, highlight: NaturalRoll) {
+  const base = bodyMap ? '#ffffff' : skin.bodyColor
+  return {
+    color: highlight === 'critical' ? skin.criticalColor : highlight === 'fumble' ? skin.fumbleColor : base,
+    map: bodyMap,
+    metalness: skin.metalness,
+    roughness: skin.roughness,
+  }
+}
+
+// The colour of the result text above a die
+export function getResultTextColor(skin: DiceSkin, highlight: NaturalRoll): string {
+  return highlight === 'critical' ? skin.criticalColor : highlight === 'fumble' ? skin.fumbleColor : '#ffffff'
+}
@@ -0,0 +1,142 @@
+/**
+ * useDiceThrow.ts - Playing Back a Physics Throw
+ * ==============================================
+ * The shared brains of every die component. Given a recorded throw (see
+ * diceSimulation.ts) it moves the mesh along the recording frame by frame,
+ * plays the sounds, and reports the face that landed on top once the
+ * recording runs out. Sounds go through the shared audio manager (see
+ * src/audio), so a pool of dice can clatter all at once.
+ *
+ * Clicking a die either asks the parent for a new roll (onRequestRoll) or,
+ * for a die used on its own, simulates a fresh throw right here.
+ *
+ * With "reduce motion" turned on in the operating system the recording is
+ * skipped: the die is shown straight away on its last frame, at rest -
+ * and silently, as there was no tumble or landing to hear.
+ *
+ * LEARNING POINT: A custom hook is just a function whose name starts with
+ * "use" and that calls other hooks. It lets several components share
+ * stateful logic without sharing any markup.
+ */
+import { useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { Mesh } from 'three'
+import type { DiceShape } from './diceShapes'
+import { SIMULATION_STEP, restingPose, simulateThrow } from './diceSimulation'
+import type { DieTrajectory } from './diceSimulation'
+import { useRandom } from './randomContext'
+import { usePrefersReducedMotion } from '../accessibility'
+import { audioManager } from '../../audio'
+
+const FRAME_SIZE = 7 // Numbers per recorded frame: position xyz + quaternion xyzw
+
+interface DiceThrowOptions {
+  shape: DiceShape
+  trajectory?: DieTrajectory // The throw to play; leave out for an idle die
+  scale?: number
+  restPosition?: [number, number] // Where an idle die waits on the table
+  onRollComplete?: (value: number) => void
+  onRequestRoll?: () => void
+}
+
+export function useDiceThrow({
+  shape,
+  trajectory,
+  scale = 1,
+  restPosition = [0, 0],
+  onRollComplete,
+  onRequestRoll,
+}: DiceThrowOptions) {
+  const meshRef = useRef<Mesh>(null)
+  const random = useRandom()
+  const reducedMotion = usePrefersReducedMotion()
+
+  /**
+   * Current Throw
+   * -------------
+   * A die clicked on its own throws itself, replacing whatever throw the
+   * parent gave it.
+   */
+  const [localThrow, setLocalThrow] = useState<DieTrajectory | null>(null)
+  const currentThrow = localThrow ?? trajectory
+  const [rollValue, setRollValue] = useState<number | null>(null)
+  const isRolling = currentThrow !== undefined && rollValue === null
+
+  /**
+   * Playback Bookkeeping
+   * --------------------
+   * Refs, because they change inside the frame loop. `finished` stops the
+   * last frame from being reported twice while React catches up with the
+   * new rollValue.
+   */
+  const playback = useRef<{ trajectory: DieTrajectory; startTime: number } | null>(null)
+  const finished = useRef<DieTrajectory | null>(null)
+
+  // Idle dice lie on the table showing their highest number
+  const [restX, restY] = restPosition
+  const idlePose = useMemo(() => {
+    const pose = restingPose(shape, shape.sides, scale)
+    pose.position.x = restX
+    pose.position.y = restY
+    return pose
+  }, [shape, scale, restX, restY])
+
+  /**
+   * Animation Loop
+   * --------------
+   * The frame to show is worked out from the clock, not counted, so the
+   * throw takes the same time at 30fps as at 144fps. Reduced motion jumps
+   * to the last frame - no tumble, no settling and no sound of either,
+   * just the result.
+   */
+  useFrame(({ clock }) => {
+    const mesh = meshRef.current
+    if (!mesh) return
+
+    if (!currentThrow) {
+      mesh.position.copy(idlePose.position)
+      mesh.quaternion.copy(idlePose.quaternion)
+      return
+    }
+    if (finished.current === currentThrow) return
+
+    if (playback.current?.trajectory !== currentThrow) {
+      playback.current = { trajectory: currentThrow, startTime: clock.elapsedTime }
+      if (!reducedMotion) audioManager.play('roll')
+    }
+
+    const { frames, value } = currentThrow
+    const lastFrame = frames.length / FRAME_SIZE - 1
+    const frame = reducedMotion
+      ? lastFrame
+      : Math.min(Math.floor((clock.elapsedTime - playback.current.startTime) / SIMULATION_STEP), lastFrame)
+    mesh.position.fromArray(frames, frame * FRAME_SIZE)
+    mesh.quaternion.fromArray(frames, frame * FRAME_SIZE + 3)
+
+    if (frame === lastFrame) {
+      finished.current = currentThrow
+      setRollValue(value)
+      if (onRollComplete) {
+        onRollComplete(value)
+      }
+      if (!reducedMotion) audioManager.play('settle')
+    }
+  })
+
+  /**
+   * Click Handler
+   */
+  const handleClick = () => {
+    if (isRolling) return
+
+    if (onRequestRoll) {
+      onRequestRoll()
+      return
+    }
+
+    setRollValue(null)
+    setLocalThrow(simulateThrow([{ shape, start: restPosition, scale }], random.next)[0])
+  }
+
+  return { meshRef, rollValue, isRolling, handleClick }
+}
@@ -0,0 +1,24 @@
+/**
+ * RollAnnouncer.tsx - Results for Screen Readers
+ * ==============================================
+ * The dice and their numbers are drawn inside the WebGL canvas, which a
+ * screen reader sees as one blank image. This invisible live region reads
+ * each roll out instead: "Rolling…" when the dice are thrown, then the
+ * result once they land.
+ *
+ * LEARNING POINT: role="status" (aria-live="polite") makes screen readers
+ * announce whatever text appears inside the element, once they finish
+ * what they're saying. The element must stay mounted - only its text
+ * changes.
+ */
+interface RollAnnouncerProps {
+  message: string
+}
+
+export default function RollAnnouncer({ message }: RollAnnouncerProps) {
+  return (
+    <div className="visually-hidden" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+/**
+ * index.ts - Accessibility Helpers
+ * ================================
+ * A live region for screen readers, keyboard shortcuts for rolling, and
+ * the reduced-motion preference.
+ */
+export { default as RollAnnouncer } from './RollAnnouncer'
+export { useRollShortcuts } from './useRollShortcuts'
+export { usePrefersReducedMotion } from './usePrefersReducedMotion'
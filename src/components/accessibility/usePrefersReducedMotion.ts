@@ -0,0 +1,26 @@
+/**
+ * usePrefersReducedMotion.ts - Respecting "Reduce Motion"
+ * =======================================================
+ * True when the operating system asks for less motion (a setting many
+ * people with vestibular disorders rely on). The dice then skip the tumble
+ * and appear already settled on their result.
+ *
+ * LEARNING POINT: useSyncExternalStore is React's way of reading a value
+ * that lives outside React - here a media query - and re-rendering when it
+ * changes, e.g. if the setting is switched while the app is open.
+ */
+import { useSyncExternalStore } from 'react'
+
+const QUERY = '(prefers-reduced-motion: reduce)'
+
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia(QUERY)
+  media.addEventListener('change', onChange)
+  return () => media.removeEventListener('change', onChange)
+}
+
+const getSnapshot = () => window.matchMedia(QUERY).matches
+
+export function usePrefersReducedMotion() {
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
@@ -0,0 +1,54 @@
+/**
+ * useRollShortcuts.ts - Rolling From the Keyboard
+ * ===============================================
+ *   1 - 9   pick a die from the sidebar (1 = the first one, d4)
+ *   Space   roll
+ *
+ * The keys are ignored while typing in a field, and Space is left alone on
+ * buttons and other controls - there it already means "press this".
+ *
+ * LEARNING POINT: useEffectEvent lets the listener, which is added once,
+ * always call the latest handlers - without re-adding the listener every
+ * time App renders.
+ */
+import { useEffect, useEffectEvent } from 'react'
+
+interface RollShortcutOptions {
+  dieCount: number
+  onPickDie: (index: number) => void
+  onRoll: () => void
+}
+
+// Elements where a key press belongs to the element itself
+function isInteractive(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON', 'A'].includes(target.tagName)
+}
+
+function isTyping(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function useRollShortcuts({ dieCount, onPickDie, onRoll }: RollShortcutOptions) {
+  const handleKeyDown = useEffectEvent((event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return
+
+    if (event.key === ' ' && !isInteractive(event.target)) {
+      event.preventDefault() // Space would otherwise scroll the page
+      onRoll()
+      return
+    }
+
+    const index = Number.parseInt(event.key, 10) - 1
+    if (index >= 0 && index < dieCount && !isTyping(event.target)) {
+      event.preventDefault()
+      onPickDie(index)
+    }
+  })
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+}
@@ -0,0 +1,99 @@
+/**
+ * AttackPanel.tsx - Attack Macros
+ * ===============================
+ * Saved attacks for monsters and NPCs - anything without a character
+ * sheet. Each one is a name, a to-hit bonus and the damage, and one click
+ * rolls the whole attack: the d20 against the target's AC first, then the
+ * damage only if it lands (doubled on a critical hit).
+ */
+import { formatBonus } from '../../character'
+import { parseDiceNotation } from '../../dice'
+import type { AttackMacro } from '../../attacks'
+
+interface AttackPanelProps {
+  macros: AttackMacro[]
+  onAdd: () => void
+  onChange: (macro: AttackMacro) => void
+  onRemove: (id: string) => void
+  onRollAttack: (macro: AttackMacro) => void
+}
+
+// Number inputs hand us text; an empty or half-typed box counts as 0
+function toInteger(text: string) {
+  const value = Number.parseInt(text, 10)
+  return Number.isNaN(value) ? 0 : value
+}
+
+// A macro the dice engine can't read can't be rolled
+function isValidNotation(text: string) {
+  try {
+    parseDiceNotation(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export default function AttackPanel({ macros, onAdd, onChange, onRemove, onRollAttack }: AttackPanelProps) {
+  return (
+    <aside className="attack-panel" aria-label="Attack macros">
+      <div className="history-header">
+        <h2>Attacks</h2>
+        <button onClick={onAdd}>Add</button>
+      </div>
+
+      {macros.length === 0 ? (
+        <p className="history-empty">No attacks yet. Add one for each monster weapon or spell.</p>
+      ) : (
+        <ul className="sheet-attacks character-sheet">
+          {macros.map((macro) => {
+            const damageValid = isValidNotation(macro.damage)
+            const update = (changes: Partial<AttackMacro>) => onChange({ ...macro, ...changes })
+            return (
+              <li key={macro.id} className="sheet-attack">
+                <div className="sheet-row">
+                  <input
+                    className="sheet-attack-name"
+                    value={macro.name}
+                    onChange={(event) => update({ name: event.target.value })}
+                    aria-label="Attack name"
+                  />
+                  <button className="sheet-remove" onClick={() => onRemove(macro.id)} aria-label={`Remove ${macro.name}`}>
+                    ×
+                  </button>
+                </div>
+                <div className="sheet-row">
+                  <label className="sheet-field">
+                    To hit
+                    <input
+                      type="number"
+                      value={macro.toHit}
+                      onChange={(event) => update({ toHit: toInteger(event.target.value) })}
+                    />
+                  </label>
+                  <input
+                    className="sheet-damage"
+                    value={macro.damage}
+                    onChange={(event) => update({ damage: event.target.value })}
+                    aria-label="Damage"
+                    aria-invalid={!damageValid}
+                    spellCheck={false}
+                  />
+                  <input
+                    className="sheet-damage-type"
+                    value={macro.damageType}
+                    onChange={(event) => update({ damageType: event.target.value })}
+                    aria-label="Damage type"
+                  />
+                </div>
+                <button className="sheet-roll" onClick={() => onRollAttack(macro)} disabled={!damageValid}>
+                  Attack {formatBonus(macro.toHit)} · {macro.damage} {macro.damageType}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </aside>
+  )
+}
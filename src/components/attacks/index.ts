@@ -0,0 +1,7 @@
+/**
+ * index.ts - Attack Components
+ * ============================
+ * The attack macro panel and the hook that stores the macros.
+ */
+export { default as AttackPanel } from './AttackPanel'
+export { useAttackMacros } from './useAttackMacros'
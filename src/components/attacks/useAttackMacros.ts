@@ -0,0 +1,27 @@
+/**
+ * useAttackMacros.ts - Saved Attack Macros
+ * ========================================
+ * Holds the saved macros in React state and mirrors every change to
+ * localStorage.
+ */
+import { useEffect, useState } from 'react'
+import { createAttackMacro, loadAttackMacros, saveAttackMacros } from '../../attacks'
+import type { AttackMacro } from '../../attacks'
+
+export function useAttackMacros() {
+  const [macros, setMacros] = useState<AttackMacro[]>(loadAttackMacros)
+
+  // Save whenever the macros change
+  useEffect(() => {
+    saveAttackMacros(macros)
+  }, [macros])
+
+  const addMacro = () => setMacros((previous) => [...previous, createAttackMacro()])
+
+  const updateMacro = (macro: AttackMacro) =>
+    setMacros((previous) => previous.map((existing) => (existing.id === macro.id ? macro : existing)))
+
+  const removeMacro = (id: string) => setMacros((previous) => previous.filter((macro) => macro.id !== id))
+
+  return { macros, addMacro, updateMacro, removeMacro }
+}
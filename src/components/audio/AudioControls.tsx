@@ -0,0 +1,53 @@
+/**
+ * AudioControls.tsx - Mute & Volume
+ * =================================
+ * A mute button for the header, with the master and effects volume
+ * sliders tucked into a dropdown beside it.
+ */
+import type { AudioSettings } from '../../audio'
+
+interface AudioControlsProps {
+  settings: AudioSettings
+  onChange: (changes: Partial<AudioSettings>) => void
+}
+
+const VOLUME_SLIDERS: { key: 'masterVolume' | 'effectsVolume'; label: string }[] = [
+  { key: 'masterVolume', label: 'Master' },
+  { key: 'effectsVolume', label: 'Dice effects' },
+]
+
+export default function AudioControls({ settings, onChange }: AudioControlsProps) {
+  return (
+    <div className="audio-controls">
+      <button
+        type="button"
+        className="panel-toggle"
+        onClick={() => onChange({ muted: !settings.muted })}
+        aria-pressed={settings.muted}
+        aria-label="Mute sounds"
+        title={settings.muted ? 'Sound off' : 'Sound on'}
+      >
+        {settings.muted ? '🔇' : '🔊'}
+      </button>
+      <details className="audio-volume">
+        <summary>Volume</summary>
+        <div className="audio-volume-menu">
+          {VOLUME_SLIDERS.map(({ key, label }) => (
+            <label key={key} className="audio-slider">
+              {label}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings[key]}
+                onChange={(event) => onChange({ [key]: Number(event.target.value) })}
+              />
+              <span>{Math.round(settings[key] * 100)}%</span>
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * index.ts - Audio Components
+ * ===========================
+ * The mute button and volume sliders, and the hook that stores them.
+ */
+export { default as AudioControls } from './AudioControls'
+export { useAudioSettings } from './useAudioSettings'
@@ -0,0 +1,38 @@
+/**
+ * useAudioSettings.ts - Volume & Mute State
+ * =========================================
+ * Holds the audio settings in React state, hands every change to the
+ * audio manager and mirrors it to localStorage. Also starts the audio and
+ * decodes the sounds on the first click or key press - the earliest a
+ * browser lets sound start - so the first roll isn't silent.
+ */
+import { useEffect, useState } from 'react'
+import { audioManager, loadAudioSettings, saveAudioSettings } from '../../audio'
+import type { AudioSettings } from '../../audio'
+
+export function useAudioSettings() {
+  const [settings, setSettings] = useState<AudioSettings>(loadAudioSettings)
+
+  useEffect(() => {
+    audioManager.setSettings(settings)
+    saveAudioSettings(settings)
+  }, [settings])
+
+  useEffect(() => {
+    const start = () => {
+      window.removeEventListener('pointerdown', start)
+      window.removeEventListener('keydown', start)
+      audioManager.preload()
+    }
+    window.addEventListener('pointerdown', start)
+    window.addEventListener('keydown', start)
+    return () => {
+      window.removeEventListener('pointerdown', start)
+      window.removeEventListener('keydown', start)
+    }
+  }, [])
+
+  const updateSettings = (changes: Partial<AudioSettings>) => setSettings((previous) => ({ ...previous, ...changes }))
+
+  return { settings, updateSettings }
+}
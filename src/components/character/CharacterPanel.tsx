@@ -0,0 +1,161 @@
+/**
+ * CharacterPanel.tsx - Character Switcher & Sheet
+ * ===============================================
+ * A side panel with every saved character in a dropdown, buttons to add
+ * and delete one, and the open character's sheet below. Characters can be
+ * exported one at a time, backed up all together, and imported from
+ * either kind of file (see src/character/characterFile.ts).
+ *
+ * Rolls from the sheet are passed up with the character's name in front
+ * of the label ("Mira: Stealth"), so the history shows who rolled.
+ */
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import CharacterSheet from './CharacterSheet'
+import type { AttackMacro } from '../../attacks'
+import { CharacterImportError, characterToJSON, charactersToJSON, parseCharacterFile } from '../../character'
+import type { Character } from '../../character'
+import type { D20Roll } from '../../conditions'
+import { downloadTextFile } from '../../history'
+
+interface CharacterPanelProps {
+  characters: Character[]
+  active: Character | null
+  onSelect: (id: string) => void
+  onAdd: () => void
+  onImport: (characters: Character[]) => void
+  onRemove: (id: string) => void
+  onChange: (character: Character) => void
+  onRollCheck: (label: string, bonus: number, roll: D20Roll) => void
+  onRollAttack: (macro: AttackMacro) => void
+  onRollDamage: (label: string, notation: string) => void
+  lastRollTotal: number | null
+  onRollDeathSave: (label: string) => { natural: number; total: number }
+}
+
+// "Mira Thistledown" -> "mira-thistledown.character.json"
+const characterFileName = (character: Character) =>
+  `${character.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'character'}.character.json`
+
+export default function CharacterPanel({
+  characters,
+  active,
+  onSelect,
+  onAdd,
+  onImport,
+  onRemove,
+  onChange,
+  onRollCheck,
+  onRollAttack,
+  onRollDamage,
+  lastRollTotal,
+  onRollDeathSave,
+}: CharacterPanelProps) {
+  // What was wrong with the last file, field by field
+  const [problems, setProblems] = useState<string[]>([])
+  const importInput = useRef<HTMLInputElement>(null)
+
+  /**
+   * Importing
+   * ---------
+   * Nothing is imported from a file with problems, so fixing it and
+   * importing again doesn't duplicate the characters that were fine.
+   */
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      onImport(parseCharacterFile(await file.text()))
+      setProblems([])
+    } catch (error) {
+      if (!(error instanceof CharacterImportError)) throw error
+      setProblems(error.problems)
+    }
+  }
+
+  const handleBackup = () => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    downloadTextFile(`characters-${stamp}.json`, charactersToJSON(characters), 'application/json')
+  }
+
+  const handleRemove = () => {
+    if (active && window.confirm(`Delete ${active.name}?`)) onRemove(active.id)
+  }
+
+  return (
+    <aside className="character-panel" aria-label="Characters">
+      <div className="history-header">
+        <h2>Characters</h2>
+      </div>
+
+      <div className="history-actions">
+        <select
+          className="history-filter"
+          value={active?.id ?? ''}
+          onChange={(event) => onSelect(event.target.value)}
+          disabled={characters.length === 0}
+          aria-label="Open character"
+        >
+          {characters.length === 0 && <option value="">No characters</option>}
+          {characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name || 'Unnamed'}
+            </option>
+          ))}
+        </select>
+        <button onClick={onAdd}>New</button>
+        <button onClick={handleRemove} disabled={!active}>
+          Delete
+        </button>
+      </div>
+
+      <div className="history-actions">
+        <button type="button" onClick={() => importInput.current?.click()}>
+          Import
+        </button>
+        <input ref={importInput} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+        <button
+          type="button"
+          onClick={() =>
+            active && downloadTextFile(characterFileName(active), characterToJSON(active), 'application/json')
+          }
+          disabled={!active}
+        >
+          Export
+        </button>
+        <button
+          type="button"
+          onClick={handleBackup}
+          disabled={characters.length === 0}
+          title="Every character in one file"
+        >
+          Back up all
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="notation-error skin-problems">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {active ? (
+        <CharacterSheet
+          key={active.id}
+          character={active}
+          onChange={onChange}
+          onRollCheck={(label, bonus, roll) => onRollCheck(`${active.name}: ${label}`, bonus, roll)}
+          onRollAttack={(macro) => onRollAttack({ ...macro, name: `${active.name}: ${macro.name}` })}
+          onRollDamage={(label, notation) => onRollDamage(`${active.name}: ${label}`, notation)}
+          lastRollTotal={lastRollTotal}
+          onRollDeathSave={onRollDeathSave}
+        />
+      ) : (
+        <p className="history-empty">Create a character to roll checks, saves and attacks from their sheet.</p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,441 @@
+/**
+ * CharacterSheet.tsx - Editable Character Sheet
+ * =============================================
+ * One character's numbers, all editable in place: level, ability scores,
+ * proficiencies, AC, HP, attacks, spells and inventory. The bonuses next to them are derived
+ * (see src/character/character.ts) and double as roll buttons - clicking
+ * "Stealth +5" rolls 1d20+5 and labels it "Stealth" in the history.
+ * An attack's to-hit button rolls it against the target's AC and rolls the
+ * damage too if it lands.
+ *
+ * Like the ModifierPanel this is a controlled component: the parent owns
+ * the character and receives every edit through onChange.
+ */
+import {
+  ABILITIES,
+  SKILLS,
+  abilityModifier,
+  attackBonus,
+  createAttack,
+  createInventoryItem,
+  createSpell,
+  damageNotation,
+  formatBonus,
+  proficiencyBonus,
+  savingThrowBonus,
+  skillBonus,
+  toAttackMacro,
+} from '../../character'
+import type { AttackMacro } from '../../attacks'
+import type { D20Roll } from '../../conditions'
+import { HitPointTracker } from '../hitpoints'
+import type { Ability, Attack, Character, InventoryItem, Proficiency, Spell } from '../../character'
+import { parseDiceNotation } from '../../dice'
+
+interface CharacterSheetProps {
+  character: Character
+  onChange: (character: Character) => void
+  /** Roll a d20 plus `bonus` - checks, saves and attack rolls */
+  onRollCheck: (label: string, bonus: number, roll: D20Roll) => void
+  /** Roll an attack against the target's AC, then its damage on a hit */
+  onRollAttack: (macro: AttackMacro) => void
+  /** Roll damage dice, e.g. "1d8+3" */
+  onRollDamage: (label: string, notation: string) => void
+  /** For the HP tracker: the last roll's total, and a d20 for death saves */
+  lastRollTotal: number | null
+  onRollDeathSave: (label: string) => { natural: number; total: number }
+}
+
+// Clicking a skill's marker steps through these in order
+const NEXT_PROFICIENCY: Record<Proficiency, Proficiency> = {
+  none: 'proficient',
+  proficient: 'expertise',
+  expertise: 'none',
+}
+
+const PROFICIENCY_MARKERS: Record<Proficiency, string> = { none: '○', proficient: '●', expertise: '◆' }
+
+// Number inputs hand us text; an empty or half-typed box counts as 0
+function toInteger(text: string) {
+  const value = Number.parseInt(text, 10)
+  return Number.isNaN(value) ? 0 : value
+}
+
+// A damage field the dice engine can't read gets no roll button
+function isValidNotation(text: string) {
+  try {
+    parseDiceNotation(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export default function CharacterSheet({
+  character,
+  onChange,
+  onRollCheck,
+  onRollAttack,
+  onRollDamage,
+  lastRollTotal,
+  onRollDeathSave,
+}: CharacterSheetProps) {
+  // Change some fields, keep the rest
+  const update = (changes: Partial<Character>) => onChange({ ...character, ...changes })
+
+  const setScore = (ability: Ability, score: number) =>
+    update({ abilityScores: { ...character.abilityScores, [ability]: Math.min(30, Math.max(1, score)) } })
+
+  const toggleSave = (ability: Ability) =>
+    update({
+      savingThrows: character.savingThrows.includes(ability)
+        ? character.savingThrows.filter((save) => save !== ability)
+        : [...character.savingThrows, ability],
+    })
+
+  const updateAttack = (id: string, changes: Partial<Attack>) =>
+    update({ attacks: character.attacks.map((attack) => (attack.id === id ? { ...attack, ...changes } : attack)) })
+
+  const updateSpell = (id: string, changes: Partial<Spell>) =>
+    update({ spells: character.spells.map((spell) => (spell.id === id ? { ...spell, ...changes } : spell)) })
+
+  const updateItem = (id: string, changes: Partial<InventoryItem>) =>
+    update({ inventory: character.inventory.map((item) => (item.id === id ? { ...item, ...changes } : item)) })
+
+  return (
+    <section className="character-sheet" aria-label={`${character.name} character sheet`}>
+      {/* Name, level and the numbers everyone asks for */}
+      <div className="sheet-row">
+        <label className="sheet-field sheet-name">
+          Name
+          <input value={character.name} onChange={(event) => update({ name: event.target.value })} />
+        </label>
+        <label className="sheet-field">
+          Level
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={character.level}
+            onChange={(event) => update({ level: Math.min(20, Math.max(1, toInteger(event.target.value))) })}
+          />
+        </label>
+        <span className="sheet-field" title="Proficiency bonus">
+          Prof
+          <strong>{formatBonus(proficiencyBonus(character.level))}</strong>
+        </span>
+      </div>
+
+      <div className="sheet-row">
+        <label className="sheet-field">
+          AC
+          <input
+            type="number"
+            value={character.armorClass}
+            min={0}
+            onChange={(event) => update({ armorClass: Math.max(0, toInteger(event.target.value)) })}
+          />
+        </label>
+      </div>
+
+      {/* Hit points: damage, healing, temp HP and death saves */}
+      <h3>Hit Points</h3>
+      <HitPointTracker
+        name={character.name}
+        hitPoints={character.hitPoints}
+        defenses={character.defenses}
+        onChange={(hitPoints, defenses) => update({ hitPoints, defenses })}
+        lastRollTotal={lastRollTotal}
+        onRollDeathSave={onRollDeathSave}
+      />
+
+      {/**
+       * Abilities
+       * ---------
+       * Score, then the check and the saving throw. The checkbox marks a
+       * proficient save.
+       */}
+      <h3>Abilities</h3>
+      <div className="sheet-abilities">
+        {ABILITIES.map(({ id, name, short }) => {
+          const check = abilityModifier(character.abilityScores[id])
+          const save = savingThrowBonus(character, id)
+          return (
+            <div key={id} className="sheet-ability">
+              <span className="sheet-ability-name" title={name}>
+                {short}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={30}
+                value={character.abilityScores[id]}
+                onChange={(event) => setScore(id, toInteger(event.target.value))}
+                aria-label={`${name} score`}
+              />
+              <button
+                type="button"
+                className="sheet-roll"
+                onClick={() => onRollCheck(`${short} check`, check, { kind: 'check', ability: id })}
+              >
+                {formatBonus(check)}
+              </button>
+              <span className="sheet-save">
+                <input
+                  type="checkbox"
+                  checked={character.savingThrows.includes(id)}
+                  onChange={() => toggleSave(id)}
+                  aria-label={`Proficient in ${name} saves`}
+                />
+                <button
+                  type="button"
+                  className="sheet-roll"
+                  onClick={() => onRollCheck(`${short} save`, save, { kind: 'save', ability: id })}
+                >
+                  {formatBonus(save)} save
+                </button>
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      {/**
+       * Skills
+       * ------
+       * The marker steps through ○ none → ● proficient → ◆ expertise.
+       */}
+      <h3>Skills</h3>
+      <ul className="sheet-skills">
+        {SKILLS.map(({ id, name, ability }) => {
+          const proficiency = character.skills[id] ?? 'none'
+          const bonus = skillBonus(character, id)
+          return (
+            <li key={id}>
+              <button
+                type="button"
+                className="sheet-proficiency"
+                onClick={() => update({ skills: { ...character.skills, [id]: NEXT_PROFICIENCY[proficiency] } })}
+                aria-label={`${name} proficiency: ${proficiency}`}
+                title={proficiency}
+              >
+                {PROFICIENCY_MARKERS[proficiency]}
+              </button>
+              <button
+                type="button"
+                className="sheet-roll sheet-skill"
+                onClick={() => onRollCheck(name, bonus, { kind: 'check', ability })}
+              >
+                <span>
+                  {name} <small>({ability.toUpperCase()})</small>
+                </span>
+                <strong>{formatBonus(bonus)}</strong>
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+
+      {/**
+       * Attacks
+       * -------
+       * "to hit" runs the whole attack; the damage button rolls just the
+       * damage, for when the table decides the hit some other way.
+       */}
+      <h3>Attacks</h3>
+      <ul className="sheet-attacks">
+        {character.attacks.map((attack) => {
+          const toHit = attackBonus(character, attack)
+          const damage = damageNotation(character, attack)
+          const damageValid = isValidNotation(attack.damage)
+          return (
+            <li key={attack.id} className="sheet-attack">
+              <div className="sheet-row">
+                <input
+                  className="sheet-attack-name"
+                  value={attack.name}
+                  onChange={(event) => updateAttack(attack.id, { name: event.target.value })}
+                  aria-label="Attack name"
+                />
+                <button
+                  type="button"
+                  className="sheet-remove"
+                  onClick={() => update({ attacks: character.attacks.filter((other) => other.id !== attack.id) })}
+                  aria-label={`Remove ${attack.name}`}
+                >
+                  ×
+                </button>
+              </div>
+              <div className="sheet-row">
+                <select
+                  value={attack.ability}
+                  onChange={(event) => updateAttack(attack.id, { ability: event.target.value as Ability })}
+                  aria-label="Attack ability"
+                >
+                  {ABILITIES.map(({ id, short }) => (
+                    <option key={id} value={id}>
+                      {short}
+                    </option>
+                  ))}
+                </select>
+                <label className="sheet-field">
+                  <input
+                    type="checkbox"
+                    checked={attack.proficient}
+                    onChange={(event) => updateAttack(attack.id, { proficient: event.target.checked })}
+                  />
+                  Prof
+                </label>
+                <label className="sheet-field" title="Magic bonus, added to hit and to damage">
+                  Magic
+                  <input
+                    type="number"
+                    value={attack.bonus}
+                    onChange={(event) => updateAttack(attack.id, { bonus: toInteger(event.target.value) })}
+                  />
+                </label>
+              </div>
+              <div className="sheet-row">
+                <input
+                  className="sheet-damage"
+                  value={attack.damage}
+                  onChange={(event) => updateAttack(attack.id, { damage: event.target.value })}
+                  aria-label="Damage dice"
+                  aria-invalid={!damageValid}
+                  spellCheck={false}
+                />
+                <input
+                  className="sheet-damage-type"
+                  value={attack.damageType}
+                  onChange={(event) => updateAttack(attack.id, { damageType: event.target.value })}
+                  aria-label="Damage type"
+                />
+              </div>
+              <div className="sheet-row">
+                <button
+                  type="button"
+                  className="sheet-roll"
+                  onClick={() => onRollAttack(toAttackMacro(character, attack))}
+                  disabled={!damageValid}
+                >
+                  {formatBonus(toHit)} to hit
+                </button>
+                <button
+                  type="button"
+                  className="sheet-roll"
+                  onClick={() => onRollDamage(`${attack.name} damage`, damage)}
+                  disabled={!damageValid}
+                >
+                  {damage} {attack.damageType}
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+      <button type="button" onClick={() => update({ attacks: [...character.attacks, createAttack()] })}>
+        Add attack
+      </button>
+
+      {/**
+       * Spells
+       * ------
+       * Just a list to keep track of - level 0 is a cantrip.
+       */}
+      <h3>Spells</h3>
+      <ul className="sheet-attacks">
+        {character.spells.map((spell) => (
+          <li key={spell.id} className="sheet-attack">
+            <div className="sheet-row">
+              <input
+                className="sheet-attack-name"
+                value={spell.name}
+                onChange={(event) => updateSpell(spell.id, { name: event.target.value })}
+                aria-label="Spell name"
+              />
+              <button
+                type="button"
+                className="sheet-remove"
+                onClick={() => update({ spells: character.spells.filter((other) => other.id !== spell.id) })}
+                aria-label={`Remove ${spell.name}`}
+              >
+                ×
+              </button>
+            </div>
+            <div className="sheet-row">
+              <label className="sheet-field" title="0 for a cantrip">
+                Level
+                <input
+                  type="number"
+                  min={0}
+                  max={9}
+                  value={spell.level}
+                  onChange={(event) =>
+                    updateSpell(spell.id, { level: Math.min(9, Math.max(0, toInteger(event.target.value))) })
+                  }
+                />
+              </label>
+              <label className="sheet-field">
+                <input
+                  type="checkbox"
+                  checked={spell.prepared}
+                  onChange={(event) => updateSpell(spell.id, { prepared: event.target.checked })}
+                />
+                Prepared
+              </label>
+            </div>
+            <input
+              value={spell.notes}
+              onChange={(event) => updateSpell(spell.id, { notes: event.target.value })}
+              placeholder="Notes"
+              aria-label={`${spell.name} notes`}
+            />
+          </li>
+        ))}
+      </ul>
+      <button type="button" onClick={() => update({ spells: [...character.spells, createSpell()] })}>
+        Add spell
+      </button>
+
+      <h3>Inventory</h3>
+      <ul className="sheet-attacks">
+        {character.inventory.map((item) => (
+          <li key={item.id} className="sheet-attack">
+            <div className="sheet-row">
+              <input
+                className="sheet-attack-name"
+                value={item.name}
+                onChange={(event) => updateItem(item.id, { name: event.target.value })}
+                aria-label="Item name"
+              />
+              <input
+                type="number"
+                min={0}
+                value={item.quantity}
+                onChange={(event) => updateItem(item.id, { quantity: Math.max(0, toInteger(event.target.value)) })}
+                aria-label={`${item.name} quantity`}
+              />
+              <button
+                type="button"
+                className="sheet-remove"
+                onClick={() => update({ inventory: character.inventory.filter((other) => other.id !== item.id) })}
+                aria-label={`Remove ${item.name}`}
+              >
+                ×
+              </button>
+            </div>
+            <input
+              value={item.notes}
+              onChange={(event) => updateItem(item.id, { notes: event.target.value })}
+              placeholder="Notes"
+              aria-label={`${item.name} notes`}
+            />
+          </li>
+        ))}
+      </ul>
+      <button type="button" onClick={() => update({ inventory: [...character.inventory, createInventoryItem()] })}>
+        Add item
+      </button>
+    </section>
+  )
+}
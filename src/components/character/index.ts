@@ -0,0 +1,9 @@
+/**
+ * index.ts - Character Components
+ * ===============================
+ * The character side panel, the sheet inside it, and the hook that stores
+ * every character.
+ */
+export { default as CharacterPanel } from './CharacterPanel'
+export { default as CharacterSheet } from './CharacterSheet'
+export { useCharacters } from './useCharacters'
@@ -0,0 +1,60 @@
+/**
+ * useCharacters.ts - Character Roster State
+ * =========================================
+ * Holds every saved character and which one is open, and mirrors each
+ * change to localStorage (see src/character/characterStorage.ts).
+ */
+import { useEffect, useState } from 'react'
+import { createCharacter, loadCharacters, saveCharacters } from '../../character'
+import type { Character, CharacterRoster } from '../../character'
+
+export function useCharacters() {
+  const [roster, setRoster] = useState<CharacterRoster>(loadCharacters)
+
+  // Save whenever anything changes
+  useEffect(() => {
+    saveCharacters(roster)
+  }, [roster])
+
+  const active = roster.characters.find((character) => character.id === roster.activeId) ?? null
+
+  // A new character is opened straight away
+  const addCharacter = () => {
+    const character = createCharacter()
+    setRoster((previous) => ({ characters: [...previous.characters, character], activeId: character.id }))
+  }
+
+  // Imported characters go on the end of the roster; the first one in the file is opened
+  const importCharacters = (characters: Character[]) => {
+    if (characters.length === 0) return
+    setRoster((previous) => ({ characters: [...previous.characters, ...characters], activeId: characters[0].id }))
+  }
+
+  const updateCharacter = (character: Character) => {
+    setRoster((previous) => ({
+      ...previous,
+      characters: previous.characters.map((existing) => (existing.id === character.id ? character : existing)),
+    }))
+  }
+
+  // Removing the open character opens the first one left, if any
+  const removeCharacter = (id: string) => {
+    setRoster((previous) => {
+      const characters = previous.characters.filter((character) => character.id !== id)
+      const activeId = previous.activeId === id ? (characters[0]?.id ?? null) : previous.activeId
+      return { characters, activeId }
+    })
+  }
+
+  const selectCharacter = (id: string) => setRoster((previous) => ({ ...previous, activeId: id }))
+
+  return {
+    characters: roster.characters,
+    active,
+    addCharacter,
+    importCharacters,
+    updateCharacter,
+    removeCharacter,
+    selectCharacter,
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * ConditionList.tsx - A Creature's Conditions
+ * ===========================================
+ * Lists the conditions on one combatant with how long each lasts, and a
+ * small form to add another. The rules - what each condition does to a
+ * roll, and how durations run out - live in src/conditions/conditions.ts.
+ *
+ * Conditions that last "until a save" get a button that rolls the save;
+ * the parent removes the condition if it succeeds.
+ */
+import { useState } from 'react'
+import { ABILITIES } from '../../character'
+import type { Ability } from '../../character'
+import {
+  CONDITIONS,
+  CONDITION_IDS,
+  addCondition,
+  createCondition,
+  formatCondition,
+  formatDuration,
+} from '../../conditions'
+import type { ActiveCondition, ConditionDuration, ConditionId } from '../../conditions'
+
+interface ConditionListProps {
+  conditions: ActiveCondition[]
+  onChange: (conditions: ActiveCondition[]) => void
+  /** Who could be concentrating on a condition - the other combatants */
+  casters: { id: string; name: string }[]
+  onRollSave: (active: ActiveCondition) => void
+}
+
+type DurationKind = ConditionDuration['kind']
+
+const DURATION_OPTIONS: { value: DurationKind; label: string }[] = [
+  { value: 'rounds', label: 'Rounds' },
+  { value: 'until-save', label: 'Until save' },
+  { value: 'concentration', label: 'Concentration' },
+  { value: 'indefinite', label: 'Until removed' },
+]
+
+export default function ConditionList({ conditions, onChange, casters, onRollSave }: ConditionListProps) {
+  // The "add condition" form
+  const [condition, setCondition] = useState<ConditionId>('poisoned')
+  const [level, setLevel] = useState(1)
+  const [durationKind, setDurationKind] = useState<DurationKind>('rounds')
+  const [rounds, setRounds] = useState(1)
+  const [saveAbility, setSaveAbility] = useState<Ability>('con')
+  const [saveDc, setSaveDc] = useState(13)
+  const [casterId, setCasterId] = useState('')
+
+  const caster = casters.find((other) => other.id === casterId) ?? casters[0]
+
+  const buildDuration = (): ConditionDuration => {
+    switch (durationKind) {
+      case 'rounds':
+        return { kind: 'rounds', rounds: Math.max(1, rounds) }
+      case 'until-save':
+        return { kind: 'until-save', ability: saveAbility, dc: saveDc }
+      case 'concentration':
+        return caster ? { kind: 'concentration', casterId: caster.id, casterName: caster.name } : { kind: 'indefinite' }
+      case 'indefinite':
+        return { kind: 'indefinite' }
+    }
+  }
+
+  const handleAdd = () => onChange(addCondition(conditions, createCondition(condition, buildDuration(), level)))
+
+  return (
+    <div className="condition-list">
+      {conditions.length > 0 && (
+        <ul>
+          {conditions.map((active) => (
+            <li key={active.id} className="condition-entry" title={CONDITIONS[active.condition].summary}>
+              <span className="condition-name">{formatCondition(active)}</span>
+              <small>{formatDuration(active.duration)}</small>
+              {active.duration.kind === 'until-save' && (
+                <button type="button" onClick={() => onRollSave(active)}>
+                  Save
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(conditions.filter((other) => other.id !== active.id))}
+                aria-label={`Remove ${formatCondition(active)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="sheet-row">
+        <select
+          value={condition}
+          onChange={(event) => setCondition(event.target.value as ConditionId)}
+          aria-label="Condition"
+        >
+          {CONDITION_IDS.map((id) => (
+            <option key={id} value={id}>
+              {CONDITIONS[id].name}
+            </option>
+          ))}
+        </select>
+        {condition === 'exhaustion' && (
+          <input
+            type="number"
+            min={1}
+            max={6}
+            value={level}
+            onChange={(event) => setLevel(Number.parseInt(event.target.value, 10) || 1)}
+            aria-label="Exhaustion level"
+          />
+        )}
+        <select
+          value={durationKind}
+          onChange={(event) => setDurationKind(event.target.value as DurationKind)}
+          aria-label="Duration"
+        >
+          {DURATION_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value} disabled={value === 'concentration' && casters.length === 0}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="sheet-row">
+        {durationKind === 'rounds' && (
+          <input
+            type="number"
+            min={1}
+            value={rounds}
+            onChange={(event) => setRounds(Number.parseInt(event.target.value, 10) || 1)}
+            aria-label="Rounds"
+          />
+        )}
+        {durationKind === 'until-save' && (
+          <>
+            <label className="sheet-field">
+              DC
+              <input
+                type="number"
+                value={saveDc}
+                onChange={(event) => setSaveDc(Number.parseInt(event.target.value, 10) || 0)}
+              />
+            </label>
+            <select
+              value={saveAbility}
+              onChange={(event) => setSaveAbility(event.target.value as Ability)}
+              aria-label="Save ability"
+            >
+              {ABILITIES.map(({ id, short }) => (
+                <option key={id} value={id}>
+                  {short}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+        {durationKind === 'concentration' && caster && (
+          <select value={caster.id} onChange={(event) => setCasterId(event.target.value)} aria-label="Concentrating caster">
+            {casters.map(({ id, name }) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        <button type="button" onClick={handleAdd}>
+          Add condition
+        </button>
+      </div>
+    </div>
+  )
+}
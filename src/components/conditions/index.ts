@@ -0,0 +1,6 @@
+/**
+ * index.ts - Condition Components
+ * ===============================
+ * The condition list shown for each combatant in the initiative tracker.
+ */
+export { default as ConditionList } from './ConditionList'
@@ -0,0 +1,298 @@
+/**
+ * InitiativeTracker.tsx - Combat Turn Order
+ * =========================================
+ * A side panel for running a fight:
+ *   - add PCs and monsters (or a saved character) with their DEX modifier
+ *   - roll initiative - through the same d20 path as every other roll, so
+ *     the dice land in the Scene and the roll is kept in the history
+ *   - step through turns, counting rounds
+ *   - delay a turn, or add and remove combatants mid-combat
+ *   - track everyone's hit points - a character's HP is their sheet's,
+ *     so damage taken here shows up there too
+ *   - track conditions, which count down at the end of each turn and
+ *     change that combatant's d20 rolls
+ *
+ * The turn-order rules live in src/encounter/initiative.ts; this panel
+ * only shows the encounter and reports what was clicked.
+ */
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { abilityModifier, formatBonus } from '../../character'
+import type { Character } from '../../character'
+import { createCombatant, isInCombat } from '../../encounter'
+import type { Combatant, CombatantKind, Encounter } from '../../encounter'
+import { NO_DEFENSES, createHitPoints, getHitPointStatus } from '../../hitpoints'
+import { formatCondition } from '../../conditions'
+import type { ActiveCondition } from '../../conditions'
+import { ConditionList } from '../conditions'
+import { HitPointTracker } from '../hitpoints'
+
+interface InitiativeTrackerProps {
+  encounter: Encounter
+  characters: Character[] // Saved characters, offered as quick adds
+  onAdd: (combatant: Combatant) => void
+  onRemove: (id: string) => void
+  onUpdate: (id: string, changes: Partial<Pick<Combatant, 'hitPoints' | 'defenses' | 'conditions'>>) => void
+  onUpdateCharacter: (character: Character) => void
+  onSetInitiative: (id: string, initiative: number | null) => void
+  onRollInitiative: (combatant: Combatant) => void
+  onStart: () => void
+  onEnd: () => void
+  onNext: () => void
+  onDelay: () => void
+  onResume: (id: string) => void
+  onClear: () => void
+  lastRollTotal: number | null
+  onRollDeathSave: (label: string) => { natural: number; total: number }
+  onRollConditionSave: (combatant: Combatant, active: ActiveCondition) => void
+  onEndConcentration: (casterId: string) => void
+}
+
+// Number inputs hand us text; an empty or half-typed box counts as 0
+function toInteger(text: string) {
+  const value = Number.parseInt(text, 10)
+  return Number.isNaN(value) ? 0 : value
+}
+
+export default function InitiativeTracker({
+  encounter,
+  characters,
+  onAdd,
+  onRemove,
+  onUpdate,
+  onUpdateCharacter,
+  onSetInitiative,
+  onRollInitiative,
+  onStart,
+  onEnd,
+  onNext,
+  onDelay,
+  onResume,
+  onClear,
+  lastRollTotal,
+  onRollDeathSave,
+  onRollConditionSave,
+  onEndConcentration,
+}: InitiativeTrackerProps) {
+  // The "add combatant" form
+  const [name, setName] = useState('')
+  const [dexModifier, setDexModifier] = useState(0)
+  const [kind, setKind] = useState<CombatantKind>('monster')
+  const [maxHp, setMaxHp] = useState('')
+
+  // The combatant whose details (HP and conditions) are open, if any
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const inCombat = isInCombat(encounter)
+  const unrolled = encounter.combatants.filter((combatant) => combatant.initiative === null)
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (name.trim() === '') return
+    const hp = Number.parseInt(maxHp, 10)
+    onAdd(
+      createCombatant({
+        name: name.trim(),
+        kind,
+        dexModifier,
+        ...(hp > 0 && { hitPoints: createHitPoints(hp), defenses: NO_DEFENSES }),
+      }),
+    )
+    setName('')
+    setMaxHp('')
+  }
+
+  const handleAddCharacter = (id: string) => {
+    const character = characters.find((other) => other.id === id)
+    if (!character) return
+    onAdd(
+      createCombatant({
+        name: character.name,
+        kind: 'pc',
+        dexModifier: abilityModifier(character.abilityScores.dex),
+        characterId: character.id,
+      }),
+    )
+  }
+
+  const handleClear = () => {
+    if (window.confirm('Remove every combatant?')) onClear()
+  }
+
+  return (
+    <aside className="initiative-panel" aria-label="Initiative tracker">
+      <div className="history-header">
+        <h2>Initiative</h2>
+        <span className="initiative-round">{inCombat ? `Round ${encounter.round}` : 'Not in combat'}</span>
+      </div>
+
+      {/* Adding combatants works at any time - mid-combat too */}
+      <form className="initiative-add" onSubmit={handleAdd}>
+        <input value={name} onChange={(event) => setName(event.target.value)} placeholder="Name" aria-label="Name" />
+        <input
+          type="number"
+          value={dexModifier}
+          onChange={(event) => setDexModifier(toInteger(event.target.value))}
+          aria-label="DEX modifier"
+          title="DEX modifier"
+        />
+        <input
+          type="number"
+          min={1}
+          value={maxHp}
+          onChange={(event) => setMaxHp(event.target.value)}
+          placeholder="HP"
+          aria-label="Max HP"
+          title="Max HP (optional)"
+        />
+        <select value={kind} onChange={(event) => setKind(event.target.value as CombatantKind)} aria-label="Kind">
+          <option value="monster">Monster</option>
+          <option value="pc">PC</option>
+        </select>
+        <button type="submit">Add</button>
+      </form>
+
+      {characters.length > 0 && (
+        <select
+          className="history-filter"
+          value=""
+          onChange={(event) => handleAddCharacter(event.target.value)}
+          aria-label="Add a saved character"
+        >
+          <option value="">Add a character…</option>
+          {characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name || 'Unnamed'}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="history-actions">
+        <button onClick={() => unrolled.forEach(onRollInitiative)} disabled={unrolled.length === 0}>
+          Roll all
+        </button>
+        {inCombat ? (
+          <>
+            <button onClick={onNext}>Next turn</button>
+            <button onClick={onDelay} disabled={encounter.currentId === null}>
+              Delay
+            </button>
+            <button onClick={onEnd}>End</button>
+          </>
+        ) : (
+          <button onClick={onStart} disabled={encounter.combatants.length === 0}>
+            Start
+          </button>
+        )}
+        <button onClick={handleClear} disabled={encounter.combatants.length === 0}>
+          Clear
+        </button>
+      </div>
+
+      {encounter.combatants.length === 0 ? (
+        <p className="history-empty">No combatants yet.</p>
+      ) : (
+        <ol className="history-list">
+          {encounter.combatants.map((combatant) => {
+            const isCurrent = combatant.id === encounter.currentId
+            // A saved character's HP lives on their sheet
+            const character = characters.find((other) => other.id === combatant.characterId)
+            const hitPoints = character?.hitPoints ?? combatant.hitPoints
+            const defenses = character?.defenses ?? combatant.defenses ?? NO_DEFENSES
+            const isExpanded = expandedId === combatant.id
+            const conditions = combatant.conditions ?? []
+            const isConcentrating = encounter.combatants.some((other) =>
+              other.conditions?.some(
+                (active) => active.duration.kind === 'concentration' && active.duration.casterId === combatant.id,
+              ),
+            )
+            return (
+              <li
+                key={combatant.id}
+                className={`initiative-entry ${isCurrent ? 'current' : ''} ${combatant.delayed ? 'delayed' : ''}`}
+                aria-current={isCurrent ? 'step' : undefined}
+              >
+                <input
+                  type="number"
+                  className="initiative-value"
+                  value={combatant.initiative ?? ''}
+                  onChange={(event) =>
+                    onSetInitiative(combatant.id, event.target.value === '' ? null : toInteger(event.target.value))
+                  }
+                  aria-label={`${combatant.name} initiative`}
+                />
+                <span className="initiative-name">
+                  {combatant.name}
+                  <small>
+                    {combatant.kind === 'pc' ? 'PC' : 'Monster'} · DEX {formatBonus(combatant.dexModifier)}
+                    {combatant.delayed && ' · delayed'}
+                  </small>
+                  {conditions.length > 0 && (
+                    <small className="initiative-conditions">{conditions.map(formatCondition).join(', ')}</small>
+                  )}
+                </span>
+                {hitPoints && (
+                  <span className={`initiative-hp ${getHitPointStatus(hitPoints)}`} title="Hit points">
+                    {hitPoints.current}/{hitPoints.max}
+                    {hitPoints.temp > 0 && ` +${hitPoints.temp}`}
+                  </span>
+                )}
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : combatant.id)}
+                  aria-expanded={isExpanded}
+                  aria-label={`${combatant.name} details`}
+                  title="Hit points and conditions"
+                >
+                  {isExpanded ? '▴' : '▾'}
+                </button>
+                {combatant.delayed ? (
+                  <button onClick={() => onResume(combatant.id)} title="Stop delaying and act now">
+                    Act now
+                  </button>
+                ) : (
+                  <button onClick={() => onRollInitiative(combatant)} title="Roll initiative">
+                    d20
+                  </button>
+                )}
+                <button onClick={() => onRemove(combatant.id)} aria-label={`Remove ${combatant.name}`}>
+                  ×
+                </button>
+                {isExpanded && (
+                  <div className="initiative-details">
+                    {hitPoints && (
+                      <HitPointTracker
+                        name={combatant.name}
+                        hitPoints={hitPoints}
+                        defenses={defenses}
+                        onChange={(nextHitPoints, nextDefenses) =>
+                          character
+                            ? onUpdateCharacter({ ...character, hitPoints: nextHitPoints, defenses: nextDefenses })
+                            : onUpdate(combatant.id, { hitPoints: nextHitPoints, defenses: nextDefenses })
+                        }
+                        lastRollTotal={lastRollTotal}
+                        usesDeathSaves={combatant.kind === 'pc'}
+                        onRollDeathSave={onRollDeathSave}
+                      />
+                    )}
+                    <ConditionList
+                      conditions={conditions}
+                      onChange={(next) => onUpdate(combatant.id, { conditions: next })}
+                      casters={encounter.combatants
+                        .filter((other) => other.id !== combatant.id)
+                        .map(({ id, name }) => ({ id, name }))}
+                      onRollSave={(active) => onRollConditionSave(combatant, active)}
+                    />
+                    {isConcentrating && (
+                      <button onClick={() => onEndConcentration(combatant.id)}>End concentration</button>
+                    )}
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </aside>
+  )
+}
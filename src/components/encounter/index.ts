@@ -0,0 +1,7 @@
+/**
+ * index.ts - Encounter Components
+ * ===============================
+ * The initiative tracker panel and the hook that stores the encounter.
+ */
+export { default as InitiativeTracker } from './InitiativeTracker'
+export { useEncounter } from './useEncounter'
@@ -0,0 +1,55 @@
+/**
+ * useEncounter.ts - Encounter State
+ * =================================
+ * Holds the current encounter in React state and mirrors every change to
+ * localStorage. Each action is one of the pure functions from
+ * src/encounter, applied as a state update.
+ */
+import { useEffect, useState } from 'react'
+import {
+  EMPTY_ENCOUNTER,
+  addCombatant,
+  delayTurn,
+  endCombat,
+  endConcentration,
+  loadEncounter,
+  nextTurn,
+  removeCombatant,
+  resumeTurn,
+  saveEncounter,
+  setInitiative,
+  startCombat,
+  updateCombatant,
+} from '../../encounter'
+import type { Combatant, Encounter } from '../../encounter'
+
+export function useEncounter() {
+  const [encounter, setEncounter] = useState<Encounter>(loadEncounter)
+
+  // Save whenever anything changes
+  useEffect(() => {
+    saveEncounter(encounter)
+  }, [encounter])
+
+  /**
+   * LEARNING POINT: The updater form, setEncounter(previous => ...), matters
+   * here - "Roll all" sets several initiatives in one click, and each update
+   * has to build on the one before it.
+   */
+  return {
+    encounter,
+    add: (combatant: Combatant) => setEncounter((previous) => addCombatant(previous, combatant)),
+    remove: (id: string) => setEncounter((previous) => removeCombatant(previous, id)),
+    setInitiative: (id: string, initiative: number | null) =>
+      setEncounter((previous) => setInitiative(previous, id, initiative)),
+    start: () => setEncounter(startCombat),
+    end: () => setEncounter(endCombat),
+    next: () => setEncounter(nextTurn),
+    delay: () => setEncounter(delayTurn),
+    resume: (id: string) => setEncounter((previous) => resumeTurn(previous, id)),
+    update: (id: string, changes: Partial<Omit<Combatant, 'id' | 'initiative'>>) =>
+      setEncounter((previous) => updateCombatant(previous, id, changes)),
+    endConcentration: (casterId: string) => setEncounter((previous) => endConcentration(previous, casterId)),
+    clear: () => setEncounter(EMPTY_ENCOUNTER),
+  }
+}
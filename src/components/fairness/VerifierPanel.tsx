@@ -0,0 +1,178 @@
+/**
+ * VerifierPanel.tsx - Checking Rolls Against Their Commitments
+ * ============================================================
+ * Proof that nobody's app fudged a roll (see src/fairness):
+ *
+ *   - our next roll's hash, already published to the table
+ *   - every roll from the table, checked against the hash its roller
+ *     published first and the nonce the server sent after it - a mismatch
+ *     is flagged in red with what's wrong
+ *   - how many commitments each player published but never rolled with -
+ *     a player hunting for a good nonce would leave a trail of them
+ *   - a form to check any roll by hand: paste the hash, seed, nonce and
+ *     expression from an exported history, or from a friend's screen
+ */
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { verifyRoll } from '../../fairness'
+import type { RollVerification, VerificationStatus } from '../../fairness'
+import type { CheckedRoll } from '../../multiplayer'
+
+interface VerifierPanelProps {
+  checks: CheckedRoll[]
+  skipped: Record<string, number>
+  nextHash: string
+}
+
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  verified: '✓ Verified',
+  unverified: '? Unverified',
+  mismatch: '✗ Mismatch',
+}
+
+const STATUS_DETAILS: Record<VerificationStatus, string> = {
+  verified: 'The seed matches the hash published before the roll, and with the server’s nonce gives these dice.',
+  unverified: 'The seed gives these dice, but no hash was seen before the roll, or it was rolled without a nonce.',
+  mismatch: 'This roll does not match its seed or hash.',
+}
+
+// Hashes are 64 digits - the first few are plenty to compare by eye
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`
+
+function Verdict({ verification }: { verification: RollVerification }) {
+  return (
+    <>
+      <span className={`verify-status ${verification.status}`} title={STATUS_DETAILS[verification.status]}>
+        {STATUS_LABELS[verification.status]}
+      </span>
+      {verification.problems.length > 0 && (
+        <ul className="skin-problems">
+          {verification.problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
+
+export default function VerifierPanel({ checks, skipped, nextHash }: VerifierPanelProps) {
+  const [claim, setClaim] = useState({ hash: '', seed: '', nonce: '', expression: '', total: '' })
+  const [result, setResult] = useState<RollVerification | null>(null)
+
+  const update = (changes: Partial<typeof claim>) => {
+    setClaim((previous) => ({ ...previous, ...changes }))
+    setResult(null)
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const total = Number.parseInt(claim.total, 10)
+    setResult(
+      verifyRoll({
+        expression: claim.expression,
+        seed: claim.seed.trim(),
+        ...(claim.nonce.trim() !== '' && { nonce: claim.nonce.trim() }),
+        ...(claim.hash.trim() !== '' && { hash: claim.hash }),
+        ...(Number.isFinite(total) && { total }),
+      }),
+    )
+  }
+
+  return (
+    <aside className="verifier-panel" aria-label="Roll verifier">
+      <div className="history-header">
+        <h2>Verify</h2>
+      </div>
+
+      <h3 className="stats-heading">Our next roll</h3>
+      <p className="presenter-note">
+        Its seed's hash, published to the table before the roll:
+        <code className="verify-hash">{nextHash}</code>
+      </p>
+
+      <h3 className="stats-heading">Table rolls</h3>
+      {checks.length === 0 ? (
+        <p className="history-empty">No rolls from other players yet.</p>
+      ) : (
+        <ul className="verify-list">
+          {checks.map(({ roll, commitment, verification }) => (
+            <li key={roll.id} className={verification.status}>
+              <span>
+                <span className="history-roller">{roll.roller}</span>
+                {roll.label && ` · ${roll.label}`}
+              </span>
+              <span className="verify-roll">
+                {roll.expression} = {roll.total}
+              </span>
+              <span className="verify-roll">
+                seed {shortHash(roll.seed)}
+                {roll.nonce && ` · nonce ${shortHash(roll.nonce)}`}
+                {commitment && ` · hash ${shortHash(commitment.hash)}`}
+              </span>
+              <Verdict verification={verification} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {Object.keys(skipped).length > 0 && (
+        <>
+          <h3 className="stats-heading">Commitments never rolled with</h3>
+          <p className="presenter-note">GM-only rolls use one up without sharing it; many from a player is a warning sign.</p>
+          <ul className="stats-list">
+            {Object.entries(skipped).map(([roller, count]) => (
+              <li key={roller}>
+                {roller}: {count}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <h3 className="stats-heading">Check a roll</h3>
+      <form className="table-form" onSubmit={handleSubmit}>
+        <label className="sheet-field">
+          Hash
+          <input value={claim.hash} onChange={(event) => update({ hash: event.target.value })} spellCheck={false} />
+        </label>
+        <label className="sheet-field">
+          Seed
+          <input value={claim.seed} onChange={(event) => update({ seed: event.target.value })} spellCheck={false} />
+        </label>
+        <label className="sheet-field">
+          Nonce
+          <input
+            value={claim.nonce}
+            onChange={(event) => update({ nonce: event.target.value })}
+            placeholder="from the server"
+            spellCheck={false}
+          />
+        </label>
+        <label className="sheet-field">
+          Expression
+          <input
+            value={claim.expression}
+            onChange={(event) => update({ expression: event.target.value })}
+            placeholder="2d20kh1+5"
+            spellCheck={false}
+          />
+        </label>
+        {/* Before any bonus, crit or resistance from the modifier panel */}
+        <label className="sheet-field">
+          Total
+          <input
+            value={claim.total}
+            onChange={(event) => update({ total: event.target.value })}
+            inputMode="numeric"
+            placeholder="optional"
+          />
+        </label>
+        <button type="submit" disabled={claim.seed.trim() === '' || claim.expression.trim() === ''}>
+          Check
+        </button>
+      </form>
+      {result && <Verdict verification={result} />}
+    </aside>
+  )
+}
@@ -0,0 +1,6 @@
+/**
+ * index.ts - Fairness Components
+ * ==============================
+ * The verifier: other players' rolls checked against their commitments.
+ */
+export { default as VerifierPanel } from './VerifierPanel'
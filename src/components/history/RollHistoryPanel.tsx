@@ -0,0 +1,128 @@
+/**
+ * RollHistoryPanel.tsx - Scrollable Roll History
+ * ==============================================
+ * A side panel listing past rolls, newest first, with:
+ *   - a filter to show only rolls that used a given die
+ *   - JSON and CSV export for session recaps
+ *   - a button to clear everything
+ *
+ * The panel only displays records - adding them is up to the parent
+ * (see useRollHistory.ts).
+ */
+import { useState } from 'react'
+import {
+  downloadTextFile,
+  formatRecordDice,
+  getHistoryDieTypes,
+  rollHistoryToCSV,
+  rollHistoryToJSON,
+  rollUsesDie,
+} from '../../history'
+import type { RollRecord } from '../../history'
+
+interface RollHistoryPanelProps {
+  records: RollRecord[]
+  /**
+   * pendingId: a roll whose dice are still tumbling. It is listed, but its
+   * result stays hidden until the dice land - no spoilers.
+   */
+  pendingId?: string | null
+  onClear: () => void
+}
+
+/**
+ * formatModifier
+ * --------------
+ * +3, -1, or nothing at all for 0.
+ */
+function formatModifier(modifier: number) {
+  if (modifier === 0) return null
+  return modifier > 0 ? `+${modifier}` : String(modifier)
+}
+
+export default function RollHistoryPanel({ records, pendingId, onClear }: RollHistoryPanelProps) {
+  // null = show every roll; otherwise only rolls using this many sides
+  const [filterSides, setFilterSides] = useState<number | null>(null)
+
+  const dieTypes = getHistoryDieTypes(records)
+  const visible = filterSides === null ? records : records.filter((record) => rollUsesDie(record, filterSides))
+
+  // Export the filtered list - what you see is what you get
+  const handleExport = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10)
+    if (format === 'json') {
+      downloadTextFile(`roll-history-${stamp}.json`, rollHistoryToJSON(visible), 'application/json')
+    } else {
+      downloadTextFile(`roll-history-${stamp}.csv`, rollHistoryToCSV(visible), 'text/csv')
+    }
+  }
+
+  const handleClear = () => {
+    if (window.confirm('Clear the whole roll history?')) onClear()
+  }
+
+  return (
+    <aside className="history-panel" aria-label="Roll history">
+      <div className="history-header">
+        <h2>Roll History</h2>
+        <select
+          className="history-filter"
+          value={filterSides ?? ''}
+          onChange={(event) => setFilterSides(event.target.value === '' ? null : Number(event.target.value))}
+          aria-label="Filter by die type"
+        >
+          <option value="">All dice</option>
+          {dieTypes.map((sides) => (
+            <option key={sides} value={sides}>
+              d{sides}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="history-actions">
+        <button onClick={() => handleExport('json')} disabled={visible.length === 0}>
+          Export JSON
+        </button>
+        <button onClick={() => handleExport('csv')} disabled={visible.length === 0}>
+          Export CSV
+        </button>
+        <button onClick={handleClear} disabled={records.length === 0}>
+          Clear
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="history-empty">{records.length === 0 ? 'No rolls yet.' : 'No rolls with that die.'}</p>
+      ) : (
+        <ol className="history-list">
+          {visible.map((record) => {
+            const isPending = record.id === pendingId
+            const modifier = formatModifier(record.modifier)
+            return (
+              <li key={record.id} className="history-entry">
+                <div className="history-entry-top">
+                  <span className="history-expression">{record.label ?? record.expression}</span>
+                  <span className="history-total">
+                    {isPending ? '…' : record.total}
+                    {!isPending && record.failed && <span className="history-failed"> failed</span>}
+                  </span>
+                </div>
+                <div className="history-entry-details">
+                  <time dateTime={new Date(record.timestamp).toISOString()}>
+                    {new Date(record.timestamp).toLocaleTimeString()}
+                  </time>
+                  {record.roller && <span className="history-roller">{record.roller}</span>}
+                  {record.label && <span>{record.expression}</span>}
+                  {!isPending && record.dice.length > 0 && <span>{formatRecordDice(record)}</span>}
+                  {!isPending && modifier && <span>{modifier}</span>}
+                </div>
+                {!isPending && record.breakdown && <div className="history-breakdown">{record.breakdown}</div>}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </aside>
+  )
+}
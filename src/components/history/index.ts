@@ -0,0 +1,7 @@
+/**
+ * index.ts - Roll History Components
+ * ==================================
+ * The history side panel and the hook that stores what it shows.
+ */
+export { default as RollHistoryPanel } from './RollHistoryPanel'
+export { useRollHistory } from './useRollHistory'
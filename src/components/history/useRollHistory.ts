@@ -0,0 +1,37 @@
+/**
+ * useRollHistory.ts - Roll History State
+ * ======================================
+ * Holds the roll history in React state and mirrors every change to
+ * localStorage, so it is still there after a reload.
+ */
+import { useEffect, useState } from 'react'
+import { MAX_HISTORY, loadRollHistory, saveRollHistory } from '../../history'
+import type { RollRecord } from '../../history'
+
+export function useRollHistory() {
+  // Passing the function (not calling it) means storage is read only once
+  const [records, setRecords] = useState<RollRecord[]>(loadRollHistory)
+
+  // Save whenever the records change
+  useEffect(() => {
+    saveRollHistory(records)
+  }, [records])
+
+  const addRoll = (record: RollRecord) => {
+    setRecords((previous) => [record, ...previous].slice(0, MAX_HISTORY))
+  }
+
+  // Rolls from elsewhere (a shared table's recent rolls): any not already here, in time order
+  const mergeRolls = (incoming: RollRecord[]) => {
+    setRecords((previous) => {
+      const known = new Set(previous.map((record) => record.id))
+      const fresh = incoming.filter((record) => !known.has(record.id))
+      if (fresh.length === 0) return previous
+      return [...fresh, ...previous].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_HISTORY)
+    })
+  }
+
+  const clearHistory = () => setRecords([])
+
+  return { records, addRoll, mergeRolls, clearHistory }
+}
@@ -0,0 +1,232 @@
+/**
+ * HitPointTracker.tsx - Damage, Healing & Death Saves
+ * ===================================================
+ * Hit points for one creature - a character on their sheet, or a monster
+ * in the initiative tracker. Type an amount (or leave it blank to use the
+ * last roll), pick the damage type, and apply it as damage, healing or
+ * temporary HP. The rules live in src/hitpoints/hitPoints.ts.
+ *
+ * At 0 HP a dying character gets a "Roll death save" button that rolls
+ * the d20 through the normal roll path, so it lands in the Scene and is
+ * kept in the history.
+ */
+import { useState } from 'react'
+import {
+  DAMAGE_TYPES,
+  applyDamage,
+  applyDeathSave,
+  applyHealing,
+  createHitPoints,
+  getHitPointStatus,
+  grantTempHp,
+} from '../../hitpoints'
+import type { DamageType, Defenses, HitPoints } from '../../hitpoints'
+
+interface HitPointTrackerProps {
+  name: string
+  hitPoints: HitPoints
+  defenses: Defenses
+  onChange: (hitPoints: HitPoints, defenses: Defenses) => void
+  /** The last roll's total - used when no amount is typed */
+  lastRollTotal: number | null
+  /** Player characters roll death saves at 0 HP; monsters just die */
+  usesDeathSaves?: boolean
+  /** Rolls a d20 for the death save and reports its face and total */
+  onRollDeathSave: (label: string) => { natural: number; total: number }
+}
+
+type DefenseLevel = 'normal' | keyof Defenses
+
+const DEFENSE_OPTIONS: { value: DefenseLevel; label: string }[] = [
+  { value: 'normal', label: '—' },
+  { value: 'resistances', label: 'Resistant' },
+  { value: 'immunities', label: 'Immune' },
+  { value: 'vulnerabilities', label: 'Vulnerable' },
+]
+
+function defenseFor(defenses: Defenses, type: DamageType): DefenseLevel {
+  if (defenses.immunities.includes(type)) return 'immunities'
+  if (defenses.resistances.includes(type)) return 'resistances'
+  if (defenses.vulnerabilities.includes(type)) return 'vulnerabilities'
+  return 'normal'
+}
+
+// Three pips, filled for each save made or failed: "●●○"
+function pips(count: number) {
+  return '●'.repeat(count) + '○'.repeat(3 - count)
+}
+
+export default function HitPointTracker({
+  name,
+  hitPoints,
+  defenses,
+  onChange,
+  lastRollTotal,
+  usesDeathSaves = true,
+  onRollDeathSave,
+}: HitPointTrackerProps) {
+  const [amountText, setAmountText] = useState('')
+  const [damageType, setDamageType] = useState<DamageType>('slashing')
+  const [critical, setCritical] = useState(false)
+  const [summary, setSummary] = useState<string | null>(null)
+
+  const status = getHitPointStatus(hitPoints)
+  const typed = Number.parseInt(amountText, 10)
+  const amount = Number.isNaN(typed) ? lastRollTotal : typed
+
+  const setHitPoints = (next: HitPoints) => onChange(next, defenses)
+
+  const handleDamage = () => {
+    if (amount === null) return
+    const result = applyDamage(hitPoints, amount, damageType, defenses, { critical, usesDeathSaves })
+    setHitPoints(result.hitPoints)
+    setSummary(result.summary)
+    setAmountText('')
+  }
+
+  const handleHeal = () => {
+    if (amount === null) return
+    setHitPoints(applyHealing(hitPoints, amount))
+    setSummary(hitPoints.dead ? 'The dead can’t be healed' : `healed ${amount}`)
+    setAmountText('')
+  }
+
+  const handleTemp = () => {
+    if (amount === null) return
+    setHitPoints(grantTempHp(hitPoints, amount))
+    setSummary(amount > hitPoints.temp ? `${amount} temp HP` : 'Temp HP don’t stack - kept the higher amount')
+    setAmountText('')
+  }
+
+  const handleDeathSave = () => {
+    const { natural, total } = onRollDeathSave(`${name}: Death save`)
+    const next = applyDeathSave(hitPoints, natural, total)
+    setHitPoints(next)
+    setSummary(
+      natural === 20
+        ? 'Natural 20: back up with 1 HP'
+        : getHitPointStatus(next) === 'dead'
+          ? 'Three failures: dead'
+          : next.stable
+            ? 'Three successes: stable'
+            : `Death save ${natural === 1 ? 'natural 1: two failures' : total >= 10 ? 'succeeded' : 'failed'}`,
+    )
+  }
+
+  const setDefense = (type: DamageType, level: DefenseLevel) => {
+    const without = (list: DamageType[]) => list.filter((other) => other !== type)
+    const next: Defenses = {
+      immunities: without(defenses.immunities),
+      resistances: without(defenses.resistances),
+      vulnerabilities: without(defenses.vulnerabilities),
+    }
+    if (level !== 'normal') next[level] = [...next[level], type]
+    onChange(hitPoints, next)
+  }
+
+  return (
+    <div className="hp-tracker">
+      <div className="hp-summary-row">
+        <strong className={`hp-current ${status}`}>
+          {hitPoints.current} / {hitPoints.max}
+        </strong>
+        {hitPoints.temp > 0 && <span className="hp-temp">+{hitPoints.temp} temp</span>}
+        {status !== 'healthy' && <span className={`hp-status ${status}`}>{status}</span>}
+      </div>
+      <div className="hp-bar" aria-hidden="true">
+        <div style={{ width: `${Math.min(100, (hitPoints.current / Math.max(1, hitPoints.max)) * 100)}%` }} />
+      </div>
+
+      <div className="sheet-row">
+        <input
+          type="number"
+          min={0}
+          value={amountText}
+          onChange={(event) => setAmountText(event.target.value)}
+          placeholder={lastRollTotal === null ? 'Amount' : String(lastRollTotal)}
+          aria-label="Amount"
+          title="Leave blank to use the last roll"
+        />
+        <select
+          value={damageType}
+          onChange={(event) => setDamageType(event.target.value as DamageType)}
+          aria-label="Damage type"
+        >
+          {DAMAGE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <label className="sheet-field" title="A critical hit at 0 HP is two death save failures">
+          <input type="checkbox" checked={critical} onChange={(event) => setCritical(event.target.checked)} />
+          Crit
+        </label>
+      </div>
+
+      <div className="sheet-row">
+        <button type="button" onClick={handleDamage} disabled={amount === null}>
+          Damage
+        </button>
+        <button type="button" onClick={handleHeal} disabled={amount === null}>
+          Heal
+        </button>
+        <button type="button" onClick={handleTemp} disabled={amount === null}>
+          Temp HP
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setHitPoints(createHitPoints(hitPoints.max))
+            setSummary('Back to full HP')
+          }}
+          title="Full HP, no temp HP, death saves cleared"
+        >
+          Full
+        </button>
+      </div>
+
+      {usesDeathSaves && hitPoints.current === 0 && !hitPoints.dead && (
+        <div className="sheet-row hp-death-saves">
+          <span title="Successes">✓ {pips(hitPoints.deathSaves.successes)}</span>
+          <span title="Failures">✗ {pips(hitPoints.deathSaves.failures)}</span>
+          <button type="button" onClick={handleDeathSave} disabled={status !== 'dying'}>
+            Roll death save
+          </button>
+        </div>
+      )}
+
+      {summary && <p className="hp-log">{summary}</p>}
+
+      <label className="sheet-field">
+        Max HP
+        <input
+          type="number"
+          min={1}
+          value={hitPoints.max}
+          onChange={(event) => {
+            const max = Math.max(1, Number.parseInt(event.target.value, 10) || 1)
+            setHitPoints({ ...hitPoints, max, current: Math.min(hitPoints.current, max) })
+          }}
+        />
+      </label>
+
+      {/* Resistances, immunities and vulnerabilities, one damage type per row */}
+      <details className="hp-defenses">
+        <summary>Defenses</summary>
+        {DAMAGE_TYPES.map((type) => (
+          <label key={type} className="sheet-field">
+            <span>{type}</span>
+            <select value={defenseFor(defenses, type)} onChange={(event) => setDefense(type, event.target.value as DefenseLevel)}>
+              {DEFENSE_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </details>
+    </div>
+  )
+}
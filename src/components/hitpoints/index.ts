@@ -0,0 +1,6 @@
+/**
+ * index.ts - Hit Point Components
+ * ===============================
+ * The HP tracker shared by character sheets and the initiative tracker.
+ */
+export { default as HitPointTracker } from './HitPointTracker'
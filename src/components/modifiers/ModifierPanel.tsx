@@ -0,0 +1,116 @@
+/**
+ * ModifierPanel.tsx - Modifier & Damage Calculator
+ * ================================================
+ * The controls for everything added on top of the dice: a flat bonus,
+ * proficiency, critical hits, and the target: its armour class (for attack
+ * rolls) and its resistance or vulnerability.
+ * The maths lives in the dice engine (see src/dice/modifiers.ts); this
+ * panel only edits the settings.
+ *
+ * CONTROLLED COMPONENT:
+ * ---------------------
+ * The panel keeps no state of its own - the parent owns `modifiers` and
+ * gets every change through onChange. That way the parent can apply them
+ * to a roll, save them, or reset them.
+ */
+import { NO_MODIFIERS } from '../../dice'
+import type { DamageScaling, RollModifiers } from '../../dice'
+
+interface ModifierPanelProps {
+  modifiers: RollModifiers
+  onChange: (modifiers: RollModifiers) => void
+  targetAc: number
+  onTargetAcChange: (targetAc: number) => void
+}
+
+const SCALING_OPTIONS: { value: DamageScaling; label: string; title: string }[] = [
+  { value: 'normal', label: 'Normal', title: 'Full damage' },
+  { value: 'resistant', label: 'Resistant', title: 'Resistance: half damage, rounded down' },
+  { value: 'vulnerable', label: 'Vulnerable', title: 'Vulnerability: double damage' },
+]
+
+/**
+ * toInteger
+ * ---------
+ * Number inputs hand us text; an empty or half-typed box ("-") counts as 0.
+ */
+function toInteger(text: string) {
+  const value = Number.parseInt(text, 10)
+  return Number.isNaN(value) ? 0 : value
+}
+
+export default function ModifierPanel({ modifiers, onChange, targetAc, onTargetAcChange }: ModifierPanelProps) {
+  // Change one setting, keep the rest
+  const update = (changes: Partial<RollModifiers>) => onChange({ ...modifiers, ...changes })
+
+  return (
+    <section className="modifier-panel" aria-label="Modifiers">
+      <label className="modifier-field">
+        Bonus
+        <input
+          type="number"
+          value={modifiers.bonus}
+          onChange={(event) => update({ bonus: toInteger(event.target.value) })}
+        />
+      </label>
+
+      <label className="modifier-field">
+        <input
+          type="checkbox"
+          checked={modifiers.proficient}
+          onChange={(event) => update({ proficient: event.target.checked })}
+        />
+        Proficiency
+        <input
+          type="number"
+          min={2}
+          max={6}
+          value={modifiers.proficiencyBonus}
+          onChange={(event) => update({ proficiencyBonus: toInteger(event.target.value) })}
+          aria-label="Proficiency bonus"
+        />
+      </label>
+
+      <label className="modifier-field" title="Critical hit: the dice are doubled, the bonuses are not">
+        <input
+          type="checkbox"
+          checked={modifiers.critical}
+          onChange={(event) => update({ critical: event.target.checked })}
+        />
+        Critical hit
+      </label>
+
+      <label className="modifier-field" title="Attacks hit when the d20 plus bonus meets or beats this">
+        Target AC
+        <input
+          type="number"
+          min={0}
+          value={targetAc}
+          onChange={(event) => onTargetAcChange(toInteger(event.target.value))}
+        />
+      </label>
+
+      <div className="modifier-scaling" role="radiogroup" aria-label="Damage resistance">
+        {SCALING_OPTIONS.map(({ value, label, title }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={modifiers.scaling === value}
+            className={`roll-mode-button ${modifiers.scaling === value ? 'selected' : ''}`}
+            onClick={() => update({ scaling: value })}
+            title={title}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <button type="button" className="reset-button" onClick={() => onChange(NO_MODIFIERS)}>
+        Reset
+      </button>
+
+      <p className="modifier-hint">Applies to the next roll</p>
+    </section>
+  )
+}
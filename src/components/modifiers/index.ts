@@ -0,0 +1,6 @@
+/**
+ * index.ts - Modifier Components
+ * ==============================
+ * The modifier & damage calculator panel.
+ */
+export { default as ModifierPanel } from './ModifierPanel'
@@ -0,0 +1,158 @@
+/**
+ * MonsterPanel.tsx - Monster Library & Stat Blocks
+ * ================================================
+ * Import stat blocks from SRD 5e JSON or the app's own format (see
+ * src/monsters/monsterImport.ts), pick one, and roll straight from it.
+ * "Add to encounter" puts the monster in the initiative tracker with its
+ * average hit points, or hit points rolled from its hit dice.
+ */
+import { useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import StatBlock from './StatBlock'
+import type { AttackMacro } from '../../attacks'
+import type { D20Roll } from '../../conditions'
+import { downloadTextFile } from '../../history'
+import { MonsterImportError, monsterToJSON, parseMonsters } from '../../monsters'
+import type { Monster } from '../../monsters'
+
+export type HitPointMode = 'average' | 'rolled'
+
+interface MonsterPanelProps {
+  monsters: Monster[]
+  active: Monster | null
+  onSelect: (id: string) => void
+  onImport: (monsters: Monster[]) => void
+  onRemove: (id: string) => void
+  onRollCheck: (label: string, bonus: number, roll: D20Roll) => void
+  onRollAttack: (macro: AttackMacro) => void
+  onRollDamage: (label: string, notation: string) => void
+  onAddToEncounter: (monster: Monster, hitPoints: HitPointMode) => void
+}
+
+// "Adult Red Dragon" -> "adult-red-dragon.monster.json"
+const monsterFileName = (monster: Monster) =>
+  `${monster.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'monster'}.monster.json`
+
+export default function MonsterPanel({
+  monsters,
+  active,
+  onSelect,
+  onImport,
+  onRemove,
+  onRollCheck,
+  onRollAttack,
+  onRollDamage,
+  onAddToEncounter,
+}: MonsterPanelProps) {
+  // What was wrong with the last file, field by field
+  const [problems, setProblems] = useState<string[]>([])
+  const [hitPoints, setHitPoints] = useState<HitPointMode>('average')
+  const importInput = useRef<HTMLInputElement>(null)
+
+  /**
+   * Importing
+   * ---------
+   * One file can hold a whole bestiary. Nothing is imported from a file
+   * with problems, so fixing it and importing again doesn't duplicate
+   * the monsters that were fine.
+   */
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      onImport(parseMonsters(await file.text()))
+      setProblems([])
+    } catch (error) {
+      if (!(error instanceof MonsterImportError)) throw error
+      setProblems(error.problems)
+    }
+  }
+
+  const handleRemove = () => {
+    if (active && window.confirm(`Delete ${active.name}?`)) onRemove(active.id)
+  }
+
+  return (
+    <aside className="monster-panel" aria-label="Monsters">
+      <div className="history-header">
+        <h2>Monsters</h2>
+      </div>
+
+      <div className="history-actions">
+        <select
+          className="history-filter"
+          value={active?.id ?? ''}
+          onChange={(event) => onSelect(event.target.value)}
+          disabled={monsters.length === 0}
+          aria-label="Open monster"
+        >
+          {monsters.length === 0 && <option value="">No monsters</option>}
+          {monsters.map((monster) => (
+            <option key={monster.id} value={monster.id}>
+              {monster.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="history-actions">
+        <button type="button" onClick={() => importInput.current?.click()}>
+          Import
+        </button>
+        <input ref={importInput} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+        <button
+          type="button"
+          onClick={() => active && downloadTextFile(monsterFileName(active), monsterToJSON(active), 'application/json')}
+          disabled={!active}
+        >
+          Export
+        </button>
+        <button type="button" onClick={handleRemove} disabled={!active}>
+          Delete
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="notation-error skin-problems">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {active ? (
+        <>
+          <div className="history-actions">
+            <select
+              className="history-filter"
+              value={hitPoints}
+              onChange={(event) => setHitPoints(event.target.value as HitPointMode)}
+              aria-label="Hit points for the encounter"
+            >
+              <option value="average">Average HP ({active.hitPoints.average})</option>
+              <option value="rolled" disabled={!active.hitPoints.dice}>
+                Rolled HP{active.hitPoints.dice && ` (${active.hitPoints.dice})`}
+              </option>
+            </select>
+            <button type="button" onClick={() => onAddToEncounter(active, active.hitPoints.dice ? hitPoints : 'average')}>
+              Add to encounter
+            </button>
+          </div>
+
+          <StatBlock
+            key={active.id}
+            monster={active}
+            onRollCheck={(label, bonus, roll) => onRollCheck(`${active.name}: ${label}`, bonus, roll)}
+            onRollAttack={onRollAttack}
+            onRollDamage={(label, notation) => onRollDamage(`${active.name}: ${label}`, notation)}
+          />
+        </>
+      ) : (
+        <p className="history-empty">
+          Import a monster file - SRD 5e JSON, or one exported from here - to roll from its stat block.
+        </p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,197 @@
+/**
+ * StatBlock.tsx - A Monster's Stat Block
+ * ======================================
+ * Laid out like the Monster Manual's, with every number a roll button:
+ * ability checks and saves, skills, attacks (to hit, then damage on a
+ * hit) and any dice written in the text, like "7 (2d6) fire damage".
+ *
+ * Rolls are passed up with their labels still short ("DEX save"); the
+ * panel adds the monster's name. Attacks already have it, from
+ * actionToAttackMacro.
+ */
+import { ABILITIES, abilityModifier, formatBonus } from '../../character'
+import type { D20Roll } from '../../conditions'
+import type { AttackMacro } from '../../attacks'
+import {
+  actionToAttackMacro,
+  formatChallengeRating,
+  monsterSaveBonus,
+  monsterSkills,
+  splitDiceText,
+} from '../../monsters'
+import type { Monster, MonsterAction, MonsterTrait } from '../../monsters'
+
+interface StatBlockProps {
+  monster: Monster
+  onRollCheck: (label: string, bonus: number, roll: D20Roll) => void
+  onRollAttack: (macro: AttackMacro) => void
+  onRollDamage: (label: string, notation: string) => void
+}
+
+// A description with its dice as buttons
+function DiceText({ text, onRoll }: { text: string; onRoll: (notation: string) => void }) {
+  return (
+    <>
+      {splitDiceText(text).map((part, index) =>
+        part.kind === 'text' ? (
+          part.text
+        ) : (
+          <button key={index} type="button" className="stat-dice" onClick={() => onRoll(part.notation)}>
+            {part.text}
+          </button>
+        ),
+      )}
+    </>
+  )
+}
+
+// "Damage Immunities fire, poison" - left out when there's nothing to say
+function StatLine({ label, value }: { label: string; value: string }) {
+  if (value === '') return null
+  return (
+    <p className="stat-line">
+      <strong>{label}</strong> {value}
+    </p>
+  )
+}
+
+export default function StatBlock({ monster, onRollCheck, onRollAttack, onRollDamage }: StatBlockProps) {
+  const skills = monsterSkills(monster)
+
+  const renderTrait = (trait: MonsterTrait, index: number) => (
+    <p key={index} className="stat-line">
+      <strong>
+        <em>{trait.name}.</em>
+      </strong>{' '}
+      <DiceText text={trait.description} onRoll={(notation) => onRollDamage(trait.name, notation)} />
+    </p>
+  )
+
+  /**
+   * Actions
+   * -------
+   * The buttons first - to hit, the save to call for, each damage roll -
+   * then the text as printed, whose dice can be rolled too.
+   */
+  const renderAction = (action: MonsterAction, index: number, group: string) => {
+    const macro = actionToAttackMacro(monster, action, `${monster.id}-${group}-${index}`)
+    return (
+      <div key={index} className="stat-action">
+        <div className="sheet-row">
+          <strong>
+            <em>{action.name}.</em>
+          </strong>
+          {macro && (
+            <button type="button" className="sheet-roll" onClick={() => onRollAttack(macro)}>
+              {formatBonus(macro.toHit)} to hit
+            </button>
+          )}
+          {action.save && (
+            <span className="stat-save">
+              DC {action.save.dc} {action.save.ability.toUpperCase()} save
+            </span>
+          )}
+          {action.damage?.map((part, partIndex) => (
+            <button
+              key={partIndex}
+              type="button"
+              className="sheet-roll"
+              onClick={() => onRollDamage(`${action.name} damage`, part.dice)}
+            >
+              {part.dice} {part.type}
+            </button>
+          ))}
+        </div>
+        <p className="stat-line">
+          <DiceText text={action.description} onRoll={(notation) => onRollDamage(action.name, notation)} />
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <section className="stat-block" aria-label={`${monster.name} stat block`}>
+      <h3 className="stat-name">{monster.name}</h3>
+      {monster.meta && <p className="stat-meta">{monster.meta}</p>}
+
+      <div className="stat-rule" />
+      <StatLine
+        label="Armor Class"
+        value={`${monster.armorClass}${monster.armorNote ? ` (${monster.armorNote})` : ''}`}
+      />
+      {/* Rolled when the monster joins a fight - see the panel's Add button */}
+      <StatLine
+        label="Hit Points"
+        value={`${monster.hitPoints.average}${monster.hitPoints.dice ? ` (${monster.hitPoints.dice})` : ''}`}
+      />
+      <StatLine label="Speed" value={monster.speed} />
+
+      {/* Score, then the check and the save - printed saves stand out */}
+      <div className="stat-rule" />
+      <div className="sheet-abilities">
+        {ABILITIES.map(({ id, name, short }) => {
+          const check = abilityModifier(monster.abilityScores[id])
+          const save = monsterSaveBonus(monster, id)
+          return (
+            <div key={id} className="sheet-ability">
+              <span className="sheet-ability-name" title={name}>
+                {short}
+              </span>
+              <span>{monster.abilityScores[id]}</span>
+              <button
+                type="button"
+                className="sheet-roll"
+                onClick={() => onRollCheck(`${short} check`, check, { kind: 'check', ability: id })}
+              >
+                {formatBonus(check)}
+              </button>
+              <button
+                type="button"
+                className={`sheet-roll ${monster.savingThrows[id] !== undefined ? 'stat-proficient' : ''}`}
+                onClick={() => onRollCheck(`${short} save`, save, { kind: 'save', ability: id })}
+              >
+                {formatBonus(save)} save
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="stat-rule" />
+      {skills.length > 0 && (
+        <p className="stat-line">
+          <strong>Skills</strong>{' '}
+          {skills.map(({ id, name, ability, bonus }) => (
+            <button
+              key={id}
+              type="button"
+              className="sheet-roll"
+              onClick={() => onRollCheck(name, bonus, { kind: 'check', ability })}
+            >
+              {name} {formatBonus(bonus)}
+            </button>
+          ))}
+        </p>
+      )}
+      <StatLine label="Damage Vulnerabilities" value={monster.damageVulnerabilities.join('; ')} />
+      <StatLine label="Damage Resistances" value={monster.damageResistances.join('; ')} />
+      <StatLine label="Damage Immunities" value={monster.damageImmunities.join('; ')} />
+      <StatLine label="Condition Immunities" value={monster.conditionImmunities.join(', ')} />
+      <StatLine label="Senses" value={monster.senses} />
+      <StatLine label="Languages" value={monster.languages} />
+      <StatLine label="Challenge" value={formatChallengeRating(monster.challengeRating)} />
+
+      {monster.traits.length > 0 && <div className="stat-rule" />}
+      {monster.traits.map(renderTrait)}
+
+      {monster.actions.length > 0 && <h4 className="stat-heading">Actions</h4>}
+      {monster.actions.map((action, index) => renderAction(action, index, 'action'))}
+
+      {monster.reactions.length > 0 && <h4 className="stat-heading">Reactions</h4>}
+      {monster.reactions.map((action, index) => renderAction(action, index, 'reaction'))}
+
+      {monster.legendaryActions.length > 0 && <h4 className="stat-heading">Legendary Actions</h4>}
+      {monster.legendaryActions.map((action, index) => renderAction(action, index, 'legendary'))}
+    </section>
+  )
+}
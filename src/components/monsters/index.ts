@@ -0,0 +1,9 @@
+/**
+ * index.ts - Monster Components
+ * =============================
+ * The monster library panel, its stat blocks, and the hook behind them.
+ */
+export { default as MonsterPanel } from './MonsterPanel'
+export type { HitPointMode } from './MonsterPanel'
+export { default as StatBlock } from './StatBlock'
+export { useMonsters } from './useMonsters'
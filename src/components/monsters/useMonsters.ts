@@ -0,0 +1,40 @@
+/**
+ * useMonsters.ts - Monster Library State
+ * ======================================
+ * The imported stat blocks and which one is open, mirrored to
+ * localStorage (see src/monsters/monsterStorage.ts).
+ */
+import { useEffect, useState } from 'react'
+import { loadMonsters, saveMonsters } from '../../monsters'
+import type { Monster, MonsterLibrary } from '../../monsters'
+
+export function useMonsters() {
+  const [library, setLibrary] = useState<MonsterLibrary>(loadMonsters)
+
+  // Save whenever anything changes
+  useEffect(() => {
+    saveMonsters(library)
+  }, [library])
+
+  const active = library.monsters.find((monster) => monster.id === library.activeId) ?? null
+
+  const selectMonster = (id: string) => setLibrary((previous) => ({ ...previous, activeId: id }))
+
+  // Imported monsters are listed alphabetically; the first one in the file is opened
+  const importMonsters = (monsters: Monster[]) => {
+    if (monsters.length === 0) return
+    setLibrary((previous) => ({
+      monsters: [...previous.monsters, ...monsters].sort((a, b) => a.name.localeCompare(b.name)),
+      activeId: monsters[0].id,
+    }))
+  }
+
+  const removeMonster = (id: string) => {
+    setLibrary((previous) => {
+      const monsters = previous.monsters.filter((monster) => monster.id !== id)
+      return { monsters, activeId: previous.activeId === id ? (monsters[0]?.id ?? null) : previous.activeId }
+    })
+  }
+
+  return { monsters: library.monsters, active, selectMonster, importMonsters, removeMonster }
+}
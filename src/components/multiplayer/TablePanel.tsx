@@ -0,0 +1,89 @@
+/**
+ * TablePanel.tsx - Joining a Shared Table
+ * =======================================
+ * For groups playing remotely: everyone at the same table (server + room)
+ * sees everyone's rolls thrown in their own Scene, signed with the
+ * roller's name. Joining late brings in the room's recent rolls.
+ *
+ * One person runs the table server (npm run table-server) and shares its
+ * address; see server/tableServer.js.
+ */
+import type { FormEvent } from 'react'
+import type { TableSettings, TableStatus } from '../../multiplayer'
+
+interface TablePanelProps {
+  settings: TableSettings
+  onChange: (changes: Partial<TableSettings>) => void
+  joined: boolean
+  status: TableStatus
+  players: string[]
+  error: string | null
+  onJoin: () => void
+  onLeave: () => void
+}
+
+const STATUS_LABELS: Record<TableStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnected: 'Not connected',
+}
+
+export default function TablePanel({ settings, onChange, joined, status, players, error, onJoin, onLeave }: TablePanelProps) {
+  const canJoin = settings.serverUrl.trim() !== '' && settings.room.trim() !== '' && settings.name.trim() !== ''
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (joined) onLeave()
+    else if (canJoin) onJoin()
+  }
+
+  return (
+    <aside className="table-panel" aria-label="Shared table">
+      <div className="history-header">
+        <h2>Table</h2>
+      </div>
+
+      <form className="table-form" onSubmit={handleSubmit}>
+        <label className="sheet-field">
+          Your name
+          <input value={settings.name} onChange={(event) => onChange({ name: event.target.value })} disabled={joined} />
+        </label>
+        <label className="sheet-field">
+          Room
+          <input value={settings.room} onChange={(event) => onChange({ room: event.target.value })} disabled={joined} />
+        </label>
+        <label className="sheet-field">
+          Server
+          <input
+            value={settings.serverUrl}
+            onChange={(event) => onChange({ serverUrl: event.target.value })}
+            disabled={joined}
+            spellCheck={false}
+          />
+        </label>
+        <button type="submit" disabled={!joined && !canJoin}>
+          {joined ? 'Leave' : 'Join'}
+        </button>
+      </form>
+
+      {joined && (
+        <p className={`table-status ${status}`} role="status">
+          {STATUS_LABELS[status]}
+          {status === 'disconnected' && ' - retrying'}
+        </p>
+      )}
+      {error && <p className="notation-error">{error}</p>}
+
+      {joined && players.length > 0 && (
+        <>
+          <h3 className="stats-heading">At the table</h3>
+          <ul className="stats-list">
+            {players.map((player, index) => (
+              <li key={`${player}-${index}`}>{player}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </aside>
+  )
+}
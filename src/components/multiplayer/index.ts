@@ -0,0 +1,7 @@
+/**
+ * index.ts - Shared Table Components
+ * ==================================
+ * The join form and player list, and the hook that holds the connection.
+ */
+export { default as TablePanel } from './TablePanel'
+export { useSharedTable } from './useSharedTable'
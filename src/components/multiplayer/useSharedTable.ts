@@ -0,0 +1,193 @@
+/**
+ * useSharedTable.ts - Shared Table State
+ * ======================================
+ * Joins and leaves a table on the table server, keeps the player list and
+ * connection status for the panel, and passes other players' rolls to the
+ * app (see src/multiplayer).
+ *
+ * The form's settings are saved as they're typed; the connection only uses
+ * them when Join is pressed, so typing a new room name doesn't reconnect
+ * on every key.
+ *
+ * Commit-Reveal
+ * -------------
+ * Each of our rolls uses a seed whose hash was published before the roll,
+ * mixed with the nonce the server sent back for that hash (see
+ * src/fairness): drawSeed hands over the committed seed and its nonce,
+ * and commits to the next one. Every player's hashes and nonces are
+ * remembered until a roll uses them. A roll names the hash it was
+ * committed under, and is checked against it only if that roller really
+ * published it earlier - so it doesn't matter that the next hash may
+ * arrive before the roll it follows. The results are the `checks` the
+ * verifier shows; hashes a player published but never rolled with are
+ * counted in `skipped`.
+ */
+import { useEffect, useEffectEvent, useRef, useState } from 'react'
+import {
+  checkSharedRoll,
+  connectToTable,
+  loadTableSettings,
+  saveTableSettings,
+  toSharedRoll,
+} from '../../multiplayer'
+import type { CheckedRoll, SharedRoll, TableConnection, TableSettings, TableStatus } from '../../multiplayer'
+import { createSeedCommitment } from '../../fairness'
+import type { PublishedCommitment, SeedCommitment } from '../../fairness'
+import type { RandomSource, RollModifiers } from '../../dice'
+import type { RollRecord } from '../../history'
+
+interface SharedTableOptions {
+  // Where our seeds come from - the app's random source
+  random: RandomSource
+  // Another player rolled - replay it. `hash` is the commitment it was checked against, if any
+  onRoll: (roll: SharedRoll, hash?: string) => void
+  // The room's recent rolls, sent on joining - add them to the history
+  onHistory: (rolls: SharedRoll[]) => void
+}
+
+// How many checked rolls the verifier keeps
+const MAX_CHECKS = 100
+
+// How many unused hashes are kept per player - GM-only rolls use a hash but are never shared
+const MAX_COMMITMENTS = 20
+
+export function useSharedTable({ random, onRoll, onHistory }: SharedTableOptions) {
+  const [settings, setSettings] = useState<TableSettings>(loadTableSettings)
+  // The settings we joined with, or null when not at a table
+  const [joinedAs, setJoinedAs] = useState<TableSettings | null>(null)
+  const [status, setStatus] = useState<TableStatus>('disconnected')
+  const [players, setPlayers] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const connection = useRef<TableConnection | null>(null)
+
+  // The seed our next roll will use, and its hash - what we've published.
+  // A ref, so a roll made from an old closure (damage after a delay) still draws a fresh seed
+  const [firstSeed] = useState(() => createSeedCommitment(random))
+  const nextSeed = useRef<SeedCommitment>(firstSeed)
+  const [nextHash, setNextHash] = useState(firstSeed.hash)
+  // The server's nonces for our own hashes, waiting for the roll that uses them
+  const nonces = useRef(new Map<string, string>())
+  // The commitments each other player has published and not yet used, oldest first
+  const commitments = useRef(new Map<string, PublishedCommitment[]>())
+  // Other players' rolls as checked against those commitments, newest first
+  const [checks, setChecks] = useState<CheckedRoll[]>([])
+  // How many commitments each player passed over without rolling with them
+  const [skipped, setSkipped] = useState<Record<string, number>>({})
+
+  const countSkipped = (roller: string, count: number) => {
+    if (count > 0) setSkipped((previous) => ({ ...previous, [roller]: (previous[roller] ?? 0) + count }))
+  }
+
+  useEffect(() => {
+    saveTableSettings(settings)
+  }, [settings])
+
+  const handleRoll = useEffectEvent((roll: SharedRoll) => {
+    // A commitment is good for one roll - and any published before it were passed over
+    const published = commitments.current.get(roll.roller) ?? []
+    const index = published.findIndex(({ hash }) => hash === roll.commitment)
+    const commitment = index >= 0 ? published[index] : undefined
+    if (commitment) {
+      commitments.current.set(roll.roller, published.slice(index + 1))
+      countSkipped(roll.roller, index)
+    }
+    const check = checkSharedRoll(roll, commitment)
+    setChecks((previous) => [check, ...previous].slice(0, MAX_CHECKS))
+    onRoll(roll, commitment?.hash)
+  })
+  const handleHistory = useEffectEvent((rolls: SharedRoll[]) => {
+    // Rolled before we arrived, so we never saw their hashes
+    const checked = rolls.map((roll) => checkSharedRoll(roll)).reverse()
+    setChecks((previous) => [...checked, ...previous].slice(0, MAX_CHECKS))
+    onHistory(rolls)
+  })
+
+  /**
+   * The Connection
+   * --------------
+   * Opened when joinedAs is set and closed by the cleanup - on Leave, or
+   * when the app closes.
+   */
+  useEffect(() => {
+    if (!joinedAs) return
+    const table = connectToTable(joinedAs, {
+      onStatus: (next) => {
+        setStatus(next)
+        if (next === 'connected') setError(null)
+      },
+      onWelcome: (names, history, published) => {
+        setPlayers(names)
+        commitments.current = new Map(Object.entries(published).map(([roller, commitment]) => [roller, [commitment]]))
+        handleHistory(history)
+      },
+      onPlayers: setPlayers,
+      onRoll: (roll) => handleRoll(roll),
+      onNonce: (hash, nonce) => nonces.current.set(hash, nonce),
+      onCommit: (roller, commitment) => {
+        const published = [...(commitments.current.get(roller) ?? []), commitment]
+        commitments.current.set(roller, published.slice(-MAX_COMMITMENTS))
+        countSkipped(roller, published.length - MAX_COMMITMENTS)
+      },
+      onError: setError,
+      // Back to the form, with the server's error still showing, to pick another name
+      onTurnedAway: () => setJoinedAs(null),
+    })
+    table.commit(nextSeed.current.hash)
+    connection.current = table
+    return () => {
+      table.close()
+      connection.current = null
+      setPlayers([])
+    }
+  }, [joinedAs])
+
+  const updateSettings = (changes: Partial<TableSettings>) => setSettings((previous) => ({ ...previous, ...changes }))
+
+  const join = () => {
+    setError(null)
+    setJoinedAs({ ...settings, name: settings.name.trim(), room: settings.room.trim() })
+  }
+  const leave = () => setJoinedAs(null)
+
+  /**
+   * drawSeed
+   * --------
+   * The seed for the roll being made now - committed to before it - the
+   * hash published for it, and the server's nonce for that hash. The nonce
+   * is missing away from a table, or if the server hasn't answered yet;
+   * the roll then can't be verified. A new seed is picked and committed to
+   * at once, before anyone knows what the next roll will be for.
+   */
+  const drawSeed = (): SeedCommitment & { nonce?: string } => {
+    const drawn = nextSeed.current
+    const nonce = nonces.current.get(drawn.hash)
+    nonces.current.delete(drawn.hash)
+    nextSeed.current = createSeedCommitment(random)
+    setNextHash(nextSeed.current.hash)
+    connection.current?.commit(nextSeed.current.hash)
+    return { ...drawn, ...(nonce !== undefined && { nonce }) }
+  }
+
+  // Our own roll, for everyone else - nothing happens away from a table
+  const shareRoll = (record: RollRecord, modifiers: RollModifiers) => {
+    if (!joinedAs) return
+    const roll = toSharedRoll(record, modifiers, joinedAs.name)
+    if (roll) connection.current?.shareRoll(roll)
+  }
+
+  return {
+    settings,
+    updateSettings,
+    joined: joinedAs !== null,
+    status,
+    players,
+    error,
+    join,
+    leave,
+    shareRoll,
+    drawSeed,
+    nextHash,
+    checks,
+    skipped,
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * PresenterDisplay.tsx - The Players' Screen
+ * ==========================================
+ * What the display window shows instead of the app: the dice and nothing
+ * else, full screen, thrown whenever the GM's window posts a roll (see
+ * usePresenter). There are no controls - nobody at the TV can roll, and
+ * GM-only rolls never arrive here until they're revealed.
+ *
+ * Each roll is replayed from its seed, exactly like a shared-table roll,
+ * so the dice land on the faces the GM rolled.
+ */
+import { useEffect, useState } from 'react'
+import { DiceSkinProvider, Scene } from '../3d'
+import { DiceNotationError, getRolledDice } from '../../dice'
+import type { ModifiedRoll, RollResult } from '../../dice'
+import { SharedRollError, replaySharedRoll } from '../../multiplayer'
+import type { SharedRoll } from '../../multiplayer'
+import { openPresenterChannel } from '../../presenter'
+import { CLASSIC_SKIN } from '../../skins'
+import type { DiceSkin } from '../../skins'
+
+interface ShownRoll {
+  roll: SharedRoll
+  result: RollResult
+  modified: ModifiedRoll
+}
+
+// A roll from another version of the app is left out rather than shown wrong
+function replayOrSkip(roll: SharedRoll): ShownRoll | null {
+  try {
+    const { result, modified } = replaySharedRoll(roll)
+    return { roll, result, modified }
+  } catch (error) {
+    if (error instanceof SharedRollError || error instanceof DiceNotationError) {
+      console.warn(`Skipped a presented roll: ${error.message}`)
+      return null
+    }
+    throw error
+  }
+}
+
+export default function PresenterDisplay() {
+  // The GM's window sends its skin in answer to our hello
+  const [skin, setSkin] = useState<DiceSkin>(CLASSIC_SKIN)
+  const [shown, setShown] = useState<ShownRoll | null>(null)
+  const [rollId, setRollId] = useState(0)
+  const [isRevealed, setIsRevealed] = useState(false)
+
+  useEffect(() => {
+    const channel = openPresenterChannel((message) => {
+      switch (message.type) {
+        case 'roll': {
+          const next = replayOrSkip(message.roll)
+          if (!next) return
+          setShown(next)
+          setRollId((id) => id + 1)
+          setIsRevealed(getRolledDice(next.result).length === 0)
+          break
+        }
+        case 'skin':
+          setSkin(message.skin)
+          break
+      }
+    })
+    channel.post({ type: 'hello' })
+    return () => channel.close()
+  }, [])
+
+  const dice = shown ? getRolledDice(shown.result) : undefined
+  const label = shown ? [shown.roll.roller, shown.roll.label].filter(Boolean).join(' · ') : null
+  const breakdown = shown ? [label, shown.modified.breakdown].filter(Boolean).join(' — ') : null
+
+  return (
+    <div className="presenter-display">
+      <DiceSkinProvider skin={skin}>
+        <Scene
+          onPoolComplete={() => setIsRevealed(true)}
+          displayValue={shown?.modified.total ?? null}
+          breakdown={breakdown}
+          dice={dice}
+          rollId={rollId}
+        />
+      </DiceSkinProvider>
+
+      {!shown && <p className="presenter-waiting">Waiting for the GM's first roll…</p>}
+      {/* A roll with no dice ("5") has nothing in 3D to show its breakdown next to */}
+      {shown && isRevealed && dice?.length === 0 && <div className="roll-breakdown">{breakdown}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+/**
+ * PresenterPanel.tsx - Presenter Mode Controls
+ * ============================================
+ * For a table round one screen: "Open display" opens a second window
+ * showing only the dice, to drag onto the TV or projector, while the GM
+ * keeps the full app on their own screen.
+ *
+ * "GM only" keeps the next rolls off the display - a hidden Perception
+ * check, a monster's save. They wait below until revealed.
+ */
+import type { SharedRoll } from '../../multiplayer'
+
+interface PresenterPanelProps {
+  secret: boolean
+  onSecretChange: (secret: boolean) => void
+  hidden: SharedRoll[]
+  onOpenDisplay: () => void
+  onReveal: (id: string) => void
+  onDiscard: (id: string) => void
+}
+
+export default function PresenterPanel({
+  secret,
+  onSecretChange,
+  hidden,
+  onOpenDisplay,
+  onReveal,
+  onDiscard,
+}: PresenterPanelProps) {
+  return (
+    <aside className="presenter-panel" aria-label="Presenter mode">
+      <div className="history-header">
+        <h2>Present</h2>
+        <div className="history-actions">
+          <button type="button" onClick={onOpenDisplay}>
+            Open display
+          </button>
+        </div>
+      </div>
+
+      <div className="roll-mode" role="radiogroup" aria-label="Who sees new rolls">
+        <button
+          type="button"
+          role="radio"
+          aria-checked={!secret}
+          className={`roll-mode-button ${!secret ? 'selected' : ''}`}
+          onClick={() => onSecretChange(false)}
+        >
+          Everyone
+        </button>
+        <button
+          type="button"
+          role="radio"
+          aria-checked={secret}
+          className={`roll-mode-button ${secret ? 'selected' : ''}`}
+          onClick={() => onSecretChange(true)}
+        >
+          GM only
+        </button>
+      </div>
+      <p className="presenter-note">
+        {secret
+          ? 'New rolls stay on this screen - not on the display, not at a shared table.'
+          : 'New rolls are thrown on the display too.'}
+      </p>
+
+      <h3 className="stats-heading">Hidden rolls</h3>
+      {hidden.length === 0 ? (
+        <p className="history-empty">No hidden rolls.</p>
+      ) : (
+        <ul className="presenter-hidden">
+          {hidden.map((roll) => (
+            <li key={roll.id}>
+              <span className="presenter-hidden-roll">
+                {roll.label && <strong>{roll.label}</strong>}
+                {roll.breakdown}
+              </span>
+              <span className="history-actions">
+                <button type="button" onClick={() => onReveal(roll.id)}>
+                  Reveal
+                </button>
+                <button type="button" onClick={() => onDiscard(roll.id)} aria-label={`Discard ${roll.label ?? roll.expression}`}>
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,8 @@
+/**
+ * index.ts - Presenter Mode Components
+ * ====================================
+ * The GM's controls, the hook behind them, and the display window's screen.
+ */
+export { default as PresenterPanel } from './PresenterPanel'
+export { default as PresenterDisplay } from './PresenterDisplay'
+export { usePresenter } from './usePresenter'
@@ -0,0 +1,72 @@
+/**
+ * usePresenter.ts - Presenter Mode, Control Side
+ * ==============================================
+ * Runs in the GM's own window. Every public roll is posted to the display
+ * window (see src/presenter); with "GM only" switched on, rolls are kept
+ * back instead - they animate here as usual, and wait in a list until
+ * the GM reveals them to the display or throws them away.
+ *
+ * The channel stays open whether or not a display is, since posting to
+ * nobody costs nothing. A display that opens (or reloads) says hello and
+ * is sent the dice skin and whatever it should be showing.
+ */
+import { useEffect, useEffectEvent, useRef, useState } from 'react'
+import { getDisplayUrl, openPresenterChannel } from '../../presenter'
+import type { PresenterChannel } from '../../presenter'
+import type { SharedRoll } from '../../multiplayer'
+import type { DiceSkin } from '../../skins'
+
+// One display at a time - opening it again brings the same window back
+const DISPLAY_WINDOW_NAME = 'dnd-application-display'
+
+export function usePresenter(skin: DiceSkin) {
+  // Whether new rolls are GM-only, and the GM-only rolls not yet revealed (newest first)
+  const [secret, setSecret] = useState(false)
+  const [hidden, setHidden] = useState<SharedRoll[]>([])
+  const channel = useRef<PresenterChannel | null>(null)
+  // The roll the display is showing, for a display that opens later
+  const showing = useRef<SharedRoll | null>(null)
+
+  const handleHello = useEffectEvent(() => {
+    channel.current?.post({ type: 'skin', skin })
+    if (showing.current) channel.current?.post({ type: 'roll', roll: showing.current })
+  })
+
+  useEffect(() => {
+    const opened = openPresenterChannel((message) => {
+      if (message.type === 'hello') handleHello()
+    })
+    channel.current = opened
+    return () => {
+      opened.close()
+      channel.current = null
+    }
+  }, [])
+
+  // A new skin is worn on the display straight away
+  useEffect(() => {
+    channel.current?.post({ type: 'skin', skin })
+  }, [skin])
+
+  const openDisplay = () => window.open(getDisplayUrl(), DISPLAY_WINDOW_NAME, 'popup')
+
+  // Throw a roll on the display
+  const present = (roll: SharedRoll) => {
+    showing.current = roll
+    channel.current?.post({ type: 'roll', roll })
+  }
+
+  // Keep a GM-only roll back until it's revealed
+  const hide = (roll: SharedRoll) => setHidden((previous) => [roll, ...previous])
+
+  const reveal = (id: string) => {
+    const roll = hidden.find((other) => other.id === id)
+    if (!roll) return
+    setHidden((previous) => previous.filter((other) => other.id !== id))
+    present(roll)
+  }
+
+  const discard = (id: string) => setHidden((previous) => previous.filter((other) => other.id !== id))
+
+  return { secret, setSecret, hidden, openDisplay, present, hide, reveal, discard }
+}
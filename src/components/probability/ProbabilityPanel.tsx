@@ -0,0 +1,185 @@
+/**
+ * ProbabilityPanel.tsx - What Are the Odds?
+ * =========================================
+ * Type an expression and a target, and see exactly how likely each total
+ * is - handy for "is Great Weapon Master's -5 to hit worth +10 damage
+ * against this AC?" before committing to it.
+ *
+ *   DC  - the chance the total meets or beats it, as for a save or check
+ *   AC  - the attack rules: natural 20s always hit, natural 1s always miss
+ *
+ * Nothing is rolled: the numbers are exact, worked out by convolution in
+ * src/dice/probability.ts. The roll mode here is the panel's own, so you
+ * can compare advantage and disadvantage without changing the next roll.
+ */
+import { useState } from 'react'
+import {
+  DiceNotationError,
+  ROLL_MODES,
+  applyRollMode,
+  chanceAtLeast,
+  expectedValue,
+  formatDiceNotation,
+  getAttackChances,
+  getDistribution,
+  parseDiceNotation,
+} from '../../dice'
+import type { RollMode } from '../../dice'
+
+type TargetKind = 'dc' | 'ac'
+
+// Number inputs hand us text; an empty or half-typed box counts as 0
+function toInteger(text: string) {
+  const value = Number.parseInt(text, 10)
+  return Number.isNaN(value) ? 0 : value
+}
+
+// 0.5523 → "55.2%"
+function formatPercent(chance: number) {
+  return `${(chance * 100).toFixed(1)}%`
+}
+
+/**
+ * calculate
+ * ---------
+ * Everything the panel shows, or the reason it can't be worked out - a
+ * typo in the notation, or an expression too big to compute exactly.
+ */
+function calculate(notation: string, mode: RollMode, targetKind: TargetKind, target: number) {
+  try {
+    const written = parseDiceNotation(notation)
+    const expression = applyRollMode(written, mode)
+    const distribution = getDistribution(expression)
+    // "1d20+5" with advantage is really "2d20kh1+5" - worth saying so
+    const rolledAs = formatDiceNotation(expression)
+    return {
+      error: null,
+      rolledAs: rolledAs === formatDiceNotation(written) ? null : rolledAs,
+      distribution,
+      mean: expectedValue(distribution),
+      tallest: distribution.probabilities.reduce((most, chance) => Math.max(most, chance), 0),
+      success: chanceAtLeast(distribution, target),
+      attack: targetKind === 'ac' ? getAttackChances(expression, target) : null,
+    }
+  } catch (error) {
+    if (error instanceof DiceNotationError || error instanceof RangeError) {
+      return { error: error.message }
+    }
+    throw error
+  }
+}
+
+export default function ProbabilityPanel() {
+  const [notation, setNotation] = useState('1d20+5')
+  const [mode, setMode] = useState<RollMode>('normal')
+  const [targetKind, setTargetKind] = useState<TargetKind>('ac')
+  const [target, setTarget] = useState(15)
+
+  const odds = calculate(notation, mode, targetKind, target)
+
+  return (
+    <aside className="probability-panel" aria-label="Probability calculator">
+      <div className="history-header">
+        <h2>Odds</h2>
+      </div>
+
+      <input
+        className="notation-input"
+        value={notation}
+        onChange={(event) => setNotation(event.target.value)}
+        aria-label="Expression to analyse"
+        aria-invalid={odds.error !== null}
+        spellCheck={false}
+      />
+
+      <div className="roll-mode" role="radiogroup" aria-label="Roll mode for the calculation">
+        {(Object.keys(ROLL_MODES) as RollMode[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={mode === option}
+            className={`roll-mode-button ${mode === option ? 'selected' : ''}`}
+            onClick={() => setMode(option)}
+          >
+            {ROLL_MODES[option].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="sheet-row">
+        <div className="roll-mode" role="radiogroup" aria-label="Target type">
+          {(['ac', 'dc'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={targetKind === option}
+              className={`roll-mode-button ${targetKind === option ? 'selected' : ''}`}
+              onClick={() => setTargetKind(option)}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <input
+          className="probability-target"
+          type="number"
+          value={target}
+          onChange={(event) => setTarget(toInteger(event.target.value))}
+          aria-label={targetKind === 'ac' ? 'Target AC' : 'Target DC'}
+        />
+      </div>
+
+      {odds.error !== null ? (
+        <p className="notation-error">{odds.error}</p>
+      ) : (
+        <>
+          {odds.rolledAs && <p className="history-empty">Rolled as {odds.rolledAs}</p>}
+          <p className="stats-summary">
+            Average <strong>{odds.mean.toFixed(2)}</strong> · range {odds.distribution.min} to{' '}
+            {odds.distribution.min + odds.distribution.probabilities.length - 1}
+          </p>
+
+          {odds.attack ? (
+            <p className="stats-verdict fair">
+              Hit {formatPercent(odds.attack.critical + odds.attack.hit)} (critical{' '}
+              {formatPercent(odds.attack.critical)})
+              <br />
+              Miss {formatPercent(odds.attack.miss + odds.attack.fumble)} (fumble {formatPercent(odds.attack.fumble)})
+            </p>
+          ) : (
+            <p className="stats-verdict fair">
+              Meets or beats DC {target}: {formatPercent(odds.success)}
+            </p>
+          )}
+
+          {/**
+           * Distribution Chart
+           * ------------------
+           * One bar per possible total. Bars that reach the target are
+           * highlighted - against an AC that's the total alone, the natural
+           * 20s and 1s are in the percentages above.
+           */}
+          <div className="stats-histogram" role="img" aria-label="Chance of each total">
+            {odds.distribution.probabilities.map((chance, index) => {
+              const total = odds.distribution.min + index
+              return (
+                <div
+                  key={total}
+                  className={`stats-bar ${total >= target ? 'success' : ''}`}
+                  style={{ height: `${(chance / odds.tallest) * 100}%` }}
+                  title={`${total}: ${formatPercent(chance)}`}
+                />
+              )
+            })}
+          </div>
+          <div className="stats-axis">
+            <span>{odds.distribution.min}</span>
+            <span>{odds.distribution.min + odds.distribution.probabilities.length - 1}</span>
+          </div>
+        </>
+      )}
+    </aside>
+  )
+}
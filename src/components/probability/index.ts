@@ -0,0 +1,6 @@
+/**
+ * index.ts - Probability Components
+ * =================================
+ * The probability calculator panel.
+ */
+export { default as ProbabilityPanel } from './ProbabilityPanel'
@@ -0,0 +1,271 @@
+/**
+ * SkinPicker.tsx - Choosing How the Dice Look
+ * ===========================================
+ * A side panel with every skin in a dropdown and a preview of the one in
+ * use. Presets are read-only: "Copy" makes a custom skin from the current
+ * one, which can then be edited here - colours, finish, number font, and a
+ * gradient or image for the body.
+ *
+ * Custom skins can be exported as JSON files and imported again, here or
+ * at another table. An imported file is checked field by field, and every
+ * problem is listed (see parseDiceSkin in src/skins/diceSkin.ts).
+ */
+import { useRef, useState } from 'react'
+import type { ChangeEvent, CSSProperties } from 'react'
+import { downloadTextFile } from '../../history'
+import { NUMBER_FONTS, SkinImportError, isPresetSkin, parseDiceSkin, skinToJSON } from '../../skins'
+import type { DiceSkin } from '../../skins'
+
+interface SkinPickerProps {
+  skins: DiceSkin[]
+  active: DiceSkin
+  onSelect: (id: string) => void
+  onAdd: (skin: DiceSkin) => void
+  onCopy: (skin: DiceSkin) => void
+  onChange: (skin: DiceSkin) => void
+  onRemove: (id: string) => void
+}
+
+type Finish = 'plain' | 'gradient' | 'texture'
+
+// Uploaded images are stored inside the skin, so keep them small
+const MAX_TEXTURE_BYTES = 512 * 1024
+
+const COLOR_FIELDS: { key: 'bodyColor' | 'numberColor' | 'criticalColor' | 'fumbleColor'; label: string }[] = [
+  { key: 'bodyColor', label: 'Body' },
+  { key: 'numberColor', label: 'Numbers' },
+  { key: 'criticalColor', label: 'Critical / max' },
+  { key: 'fumbleColor', label: 'Fumble / min' },
+]
+
+const FINISH_SLIDERS: { key: 'metalness' | 'roughness'; label: string }[] = [
+  { key: 'metalness', label: 'Metalness' },
+  { key: 'roughness', label: 'Roughness' },
+]
+
+function getFinish(skin: DiceSkin): Finish {
+  if (skin.textureUrl !== undefined) return 'texture'
+  return skin.gradientColor ? 'gradient' : 'plain'
+}
+
+// The swatch's background, roughly as the dice will look
+function previewStyle(skin: DiceSkin): CSSProperties {
+  const background = skin.textureUrl
+    ? `center / cover url("${skin.textureUrl}")`
+    : skin.gradientColor
+      ? `linear-gradient(${skin.bodyColor}, ${skin.gradientColor})`
+      : skin.bodyColor
+  return { background, color: skin.numberColor, fontFamily: skin.numberFont }
+}
+
+// "Dragon Gold" → "dragon-gold.dice-skin.json"
+function skinFileName(skin: DiceSkin) {
+  const slug = skin.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug || 'dice-skin'}.dice-skin.json`
+}
+
+export default function SkinPicker({ skins, active, onSelect, onAdd, onCopy, onChange, onRemove }: SkinPickerProps) {
+  const [problems, setProblems] = useState<string[]>([])
+  const importInput = useRef<HTMLInputElement>(null)
+
+  const editable = !isPresetSkin(active.id)
+  const finish = getFinish(active)
+
+  const update = (changes: Partial<DiceSkin>) => onChange({ ...active, ...changes })
+
+  const handleFinish = (next: Finish) => {
+    if (next === 'plain') update({ gradientColor: undefined, textureUrl: undefined })
+    if (next === 'gradient') update({ gradientColor: active.gradientColor ?? '#000000', textureUrl: undefined })
+    if (next === 'texture') update({ gradientColor: undefined, textureUrl: active.textureUrl ?? '' })
+  }
+
+  const handleRemove = () => {
+    if (window.confirm(`Delete the ${active.name} skin?`)) onRemove(active.id)
+  }
+
+  /**
+   * Importing
+   * ---------
+   * file.text() reads the chosen file as a string (it returns a Promise).
+   * The input is cleared afterwards so picking the same file again still
+   * counts as a change.
+   */
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      onAdd(parseDiceSkin(await file.text()))
+      setProblems([])
+    } catch (error) {
+      if (!(error instanceof SkinImportError)) throw error
+      setProblems(error.problems)
+    }
+  }
+
+  // An image from disk becomes a data URL, so it's saved with the skin
+  const handleTextureFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    if (file.size > MAX_TEXTURE_BYTES) {
+      setProblems([`textureUrl: images must be under ${MAX_TEXTURE_BYTES / 1024} KB`])
+      return
+    }
+    const reader = new FileReader()
+    reader.addEventListener('load', () => {
+      update({ textureUrl: String(reader.result) })
+      setProblems([])
+    })
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <aside className="skin-panel" aria-label="Dice skins">
+      <div className="history-header">
+        <h2>Dice</h2>
+      </div>
+
+      <select
+        className="history-filter"
+        value={active.id}
+        onChange={(event) => onSelect(event.target.value)}
+        aria-label="Dice skin"
+      >
+        {skins.map((skin) => (
+          <option key={skin.id} value={skin.id}>
+            {skin.name}
+            {isPresetSkin(skin.id) ? ' (preset)' : ''}
+          </option>
+        ))}
+      </select>
+
+      <div className="skin-preview" style={previewStyle(active)} aria-hidden="true">
+        20
+      </div>
+
+      <div className="history-actions">
+        <button type="button" onClick={() => onCopy(active)}>
+          Copy
+        </button>
+        <button type="button" onClick={handleRemove} disabled={!editable}>
+          Delete
+        </button>
+        <button type="button" onClick={() => downloadTextFile(skinFileName(active), skinToJSON(active), 'application/json')}>
+          Export
+        </button>
+        <button type="button" onClick={() => importInput.current?.click()}>
+          Import
+        </button>
+        <input
+          ref={importInput}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={handleImport}
+        />
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="notation-error skin-problems">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {editable ? (
+        <div className="skin-editor">
+          {/* A skin needs a name to be saved, so an emptied box gets one back */}
+          <label className="sheet-field">
+            Name
+            <input
+              value={active.name}
+              onChange={(event) => update({ name: event.target.value })}
+              onBlur={() => active.name.trim() === '' && update({ name: 'Custom skin' })}
+            />
+          </label>
+
+          {COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="skin-color">
+              {label}
+              <input type="color" value={active[key]} onChange={(event) => update({ [key]: event.target.value })} />
+            </label>
+          ))}
+
+          {FINISH_SLIDERS.map(({ key, label }) => (
+            <label key={key} className="audio-slider">
+              {label}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={active[key]}
+                onChange={(event) => update({ [key]: Number(event.target.value) })}
+              />
+              <span>{active[key].toFixed(2)}</span>
+            </label>
+          ))}
+
+          <label className="sheet-field">
+            Number font
+            <select value={active.numberFont} onChange={(event) => update({ numberFont: event.target.value })}>
+              {/* A font from an imported file stays selectable */}
+              {[...new Set([...NUMBER_FONTS, active.numberFont])].map((font) => (
+                <option key={font} value={font} style={{ fontFamily: font }}>
+                  {font}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="roll-mode" role="radiogroup" aria-label="Body finish">
+            {(['plain', 'gradient', 'texture'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={finish === option}
+                className={`roll-mode-button ${finish === option ? 'selected' : ''}`}
+                onClick={() => handleFinish(option)}
+              >
+                {option === 'plain' ? 'Plain' : option === 'gradient' ? 'Gradient' : 'Image'}
+              </button>
+            ))}
+          </div>
+
+          {finish === 'gradient' && (
+            <label className="skin-color">
+              Fades to
+              <input
+                type="color"
+                value={active.gradientColor}
+                onChange={(event) => update({ gradientColor: event.target.value })}
+              />
+            </label>
+          )}
+
+          {finish === 'texture' && (
+            <>
+              <label className="sheet-field">
+                Image URL
+                <input
+                  value={active.textureUrl?.startsWith('data:') ? '' : active.textureUrl}
+                  onChange={(event) => update({ textureUrl: event.target.value })}
+                  placeholder={active.textureUrl?.startsWith('data:') ? '(uploaded image)' : 'https://...'}
+                />
+              </label>
+              <label className="sheet-field">
+                Or upload
+                <input type="file" accept="image/*" onChange={handleTextureFile} />
+              </label>
+            </>
+          )}
+        </div>
+      ) : (
+        <p className="history-empty">Presets can't be changed - copy one to make your own.</p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,7 @@
+/**
+ * index.ts - Dice Skins Barrel Export
+ * ===================================
+ * The skin picker panel and the state behind it.
+ */
+export { default as SkinPicker } from './SkinPicker'
+export { useDiceSkins } from './useDiceSkins'
@@ -0,0 +1,48 @@
+/**
+ * useDiceSkins.ts - Dice Skin State
+ * =================================
+ * Holds the custom skins and which skin the dice wear, and mirrors each
+ * change to localStorage (see src/skins/skinStorage.ts). Presets can't be
+ * changed - copying one gives a custom skin to edit.
+ */
+import { useEffect, useState } from 'react'
+import { CLASSIC_SKIN, PRESET_SKINS, createSkinId, loadSkins, saveSkins } from '../../skins'
+import type { DiceSkin, SkinCollection } from '../../skins'
+
+export function useDiceSkins() {
+  const [collection, setCollection] = useState<SkinCollection>(loadSkins)
+
+  // Save whenever anything changes
+  useEffect(() => {
+    saveSkins(collection)
+  }, [collection])
+
+  const skins = [...PRESET_SKINS, ...collection.custom]
+  const active = skins.find((skin) => skin.id === collection.activeId) ?? CLASSIC_SKIN
+
+  const selectSkin = (id: string) => setCollection((previous) => ({ ...previous, activeId: id }))
+
+  // A new or imported skin is worn straight away
+  const addSkin = (skin: DiceSkin) => {
+    setCollection((previous) => ({ custom: [...previous.custom, skin], activeId: skin.id }))
+  }
+
+  const copySkin = (skin: DiceSkin) => addSkin({ ...skin, id: createSkinId(), name: `${skin.name} copy` })
+
+  const updateSkin = (skin: DiceSkin) => {
+    setCollection((previous) => ({
+      ...previous,
+      custom: previous.custom.map((existing) => (existing.id === skin.id ? skin : existing)),
+    }))
+  }
+
+  // Removing the skin in use puts the Classic dice back
+  const removeSkin = (id: string) => {
+    setCollection((previous) => ({
+      custom: previous.custom.filter((skin) => skin.id !== id),
+      activeId: previous.activeId === id ? CLASSIC_SKIN.id : previous.activeId,
+    }))
+  }
+
+  return { skins, active, selectSkin, addSkin, copySkin, updateSkin, removeSkin }
+}
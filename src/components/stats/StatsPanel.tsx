@@ -0,0 +1,187 @@
+/**
+ * StatsPanel.tsx - Roll Statistics & Fairness
+ * ===========================================
+ * For the table that's sure the d20 is cursed. Pick a die and see:
+ *   - how often each face came up, against what a fair die would give
+ *   - the mean against the expected mean
+ *   - the longest streaks, good and bad
+ *   - a chi-square test: could a fair die plausibly have rolled this?
+ *   - natural 20s and 1s per session
+ *
+ * The numbers come from the roll history, or from a bulk simulation of
+ * 100,000 rolls of the same seeded die as real ones - no animation, so it
+ * takes a moment rather than a week. The maths lives in src/stats.
+ */
+import { useState } from 'react'
+import { getHistoryDieTypes } from '../../history'
+import type { RollRecord } from '../../history'
+import type { RandomSource } from '../../dice'
+import {
+  MIN_EXPECTED_PER_FACE,
+  SIGNIFICANCE_LEVEL,
+  SIMULATION_ROLLS,
+  chiSquareTest,
+  collectFaces,
+  findStreaks,
+  getSessionStats,
+  simulateRolls,
+  summarizeFaces,
+} from '../../stats'
+
+interface StatsPanelProps {
+  records: RollRecord[]
+  // The app's random source - a simulation seeds the same die real rolls use from it
+  random: RandomSource
+}
+
+type Source = 'history' | 'simulation'
+
+const STANDARD_DICE = [4, 6, 8, 10, 12, 20, 100]
+
+// 0.0523 → "0.052"; tiny p-values as "< 0.001"
+function formatPValue(pValue: number) {
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3)
+}
+
+export default function StatsPanel({ records, random }: StatsPanelProps) {
+  const [sides, setSides] = useState(20)
+  const [source, setSource] = useState<Source>('history')
+  // The last simulation run, kept until another die is simulated
+  const [simulation, setSimulation] = useState<{ sides: number; faces: number[] } | null>(null)
+
+  const dieTypes = [...new Set([...STANDARD_DICE, ...getHistoryDieTypes(records)])].sort((a, b) => a - b)
+
+  const faces =
+    source === 'history' ? collectFaces(records, sides) : simulation?.sides === sides ? simulation.faces : []
+  const summary = summarizeFaces(faces, sides)
+  const test = chiSquareTest(summary.counts)
+  const streaks = findStreaks(faces, sides)
+  const sessions = getSessionStats(records)
+
+  const expectedCount = summary.rolls / sides
+  const tallest = Math.max(expectedCount, ...summary.counts, 1)
+
+  const handleSimulate = () => {
+    setSimulation({ sides, faces: simulateRolls(sides, SIMULATION_ROLLS, random) })
+    setSource('simulation')
+  }
+
+  return (
+    <aside className="stats-panel" aria-label="Roll statistics">
+      <div className="history-header">
+        <h2>Statistics</h2>
+        <select
+          className="history-filter"
+          value={sides}
+          onChange={(event) => setSides(Number(event.target.value))}
+          aria-label="Die type"
+        >
+          {dieTypes.map((option) => (
+            <option key={option} value={option}>
+              d{option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="roll-mode" role="radiogroup" aria-label="Rolls to analyse">
+        {(['history', 'simulation'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={source === option}
+            className={`roll-mode-button ${source === option ? 'selected' : ''}`}
+            onClick={() => setSource(option)}
+          >
+            {option === 'history' ? 'Recorded' : 'Simulated'}
+          </button>
+        ))}
+      </div>
+      <button type="button" onClick={handleSimulate}>
+        Simulate {SIMULATION_ROLLS.toLocaleString()} d{sides} rolls
+      </button>
+
+      {summary.rolls === 0 ? (
+        <p className="history-empty">
+          {source === 'history' ? `No d${sides} rolls recorded yet.` : `No d${sides} simulation yet.`}
+        </p>
+      ) : (
+        <>
+          <p className="stats-summary">
+            {summary.rolls.toLocaleString()} rolls · mean <strong>{summary.mean.toFixed(2)}</strong> (expected{' '}
+            {summary.expectedMean.toFixed(2)})
+          </p>
+
+          {/**
+           * Histogram
+           * ---------
+           * One bar per face, scaled to the tallest; the dashed line is
+           * how tall every bar would be on a perfectly even die.
+           */}
+          <div className="stats-histogram" role="img" aria-label={`Face counts for d${sides}`}>
+            {summary.counts.map((count, index) => (
+              <div
+                key={index}
+                className="stats-bar"
+                style={{ height: `${(count / tallest) * 100}%` }}
+                title={`${index + 1}: ${count} (${((count / summary.rolls) * 100).toFixed(1)}%)`}
+              />
+            ))}
+            <div className="stats-expected" style={{ bottom: `${(expectedCount / tallest) * 100}%` }} />
+          </div>
+          <div className="stats-axis">
+            <span>1</span>
+            <span>{sides}</span>
+          </div>
+
+          <p className={`stats-verdict ${test.consistent ? 'fair' : 'unfair'}`}>
+            χ² = {test.statistic.toFixed(2)}, {test.degreesOfFreedom} df, p = {formatPValue(test.pValue)}
+            <br />
+            {test.consistent
+              ? 'Consistent with a fair die.'
+              : `Not consistent with a fair die (p < ${SIGNIFICANCE_LEVEL}).`}
+            {!test.reliable && ` Too few rolls to be sure - aim for at least ${sides * MIN_EXPECTED_PER_FACE}.`}
+          </p>
+
+          <ul className="stats-list">
+            {streaks.sameFace && (
+              <li>
+                Same face in a row: {streaks.sameFace.length} × {streaks.sameFace.face}
+              </li>
+            )}
+            <li>Longest run above average: {streaks.high}</li>
+            <li>Longest run below average: {streaks.low}</li>
+          </ul>
+        </>
+      )}
+
+      {/* Sessions come from the history whichever source is picked above */}
+      {sessions.length > 0 && (
+        <>
+          <h3 className="stats-heading">Natural 20s & 1s by session</h3>
+          <table className="stats-sessions">
+            <thead>
+              <tr>
+                <th>Session</th>
+                <th>d20s</th>
+                <th>20s</th>
+                <th>1s</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr key={session.start}>
+                  <td>{new Date(session.start).toLocaleDateString()}</td>
+                  <td>{session.d20s}</td>
+                  <td>{session.nat20s}</td>
+                  <td>{session.nat1s}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </aside>
+  )
+}
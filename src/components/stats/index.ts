@@ -0,0 +1,6 @@
+/**
+ * index.ts - Statistics Components
+ * ================================
+ * The statistics panel: face counts, streaks and the fairness test.
+ */
+export { default as StatsPanel } from './StatsPanel'
@@ -0,0 +1,288 @@
+/**
+ * conditions.ts - Conditions & Their Effect on d20 Rolls
+ * ======================================================
+ * The conditions from the Player's Handbook appendix, what each one does
+ * to its creature's own d20 rolls, and how long it lasts.
+ *
+ *   getRollEffects   which conditions give advantage, disadvantage or an
+ *                    automatic failure on a given roll - and why
+ *   applyRollEffects combines those with the roll mode the player picked
+ *   tickConditions   counts down round-based durations at the end of a turn
+ *
+ * ADVANTAGE + DISADVANTAGE:
+ * -------------------------
+ * However many sources of each there are, having both means rolling one
+ * d20 as normal - the rule this file leans on most.
+ */
+import { ABILITIES } from '../character'
+import type { Ability } from '../character'
+import type { RollMode } from '../dice'
+
+export type ConditionId =
+  | 'blinded'
+  | 'charmed'
+  | 'deafened'
+  | 'exhaustion'
+  | 'frightened'
+  | 'grappled'
+  | 'incapacitated'
+  | 'invisible'
+  | 'paralyzed'
+  | 'petrified'
+  | 'poisoned'
+  | 'prone'
+  | 'restrained'
+  | 'stunned'
+  | 'unconscious'
+
+/**
+ * D20Roll
+ * -------
+ * What kind of d20 roll is being made - conditions care about the
+ * difference, and saves also about the ability.
+ */
+export type D20Roll = { kind: 'attack' } | { kind: 'check'; ability: Ability } | { kind: 'save'; ability: Ability }
+
+type Effect = 'advantage' | 'disadvantage' | 'auto-fail'
+
+/**
+ * CONDITIONS
+ * ----------
+ * Each condition's name, a short reminder of what it does, and its effect
+ * on a roll (if any). Exhaustion is the odd one out: its effect depends on
+ * its level, so it's handled separately in getRollEffects.
+ */
+const STR_DEX_SAVES_FAIL = (roll: D20Roll): Effect | null =>
+  roll.kind === 'save' && (roll.ability === 'str' || roll.ability === 'dex') ? 'auto-fail' : null
+
+export const CONDITIONS: Record<ConditionId, { name: string; summary: string; effect: (roll: D20Roll) => Effect | null }> = {
+  blinded: {
+    name: 'Blinded',
+    summary: 'Disadvantage on attack rolls',
+    effect: (roll) => (roll.kind === 'attack' ? 'disadvantage' : null),
+  },
+  charmed: { name: 'Charmed', summary: 'Can’t attack the charmer', effect: () => null },
+  deafened: { name: 'Deafened', summary: 'Can’t hear', effect: () => null },
+  exhaustion: {
+    name: 'Exhaustion',
+    summary: 'Level 1+: disadvantage on checks. Level 3+: on attacks and saves too',
+    effect: () => null,
+  },
+  frightened: {
+    name: 'Frightened',
+    summary: 'Disadvantage on checks and attacks while the source is in sight',
+    effect: (roll) => (roll.kind === 'attack' || roll.kind === 'check' ? 'disadvantage' : null),
+  },
+  grappled: { name: 'Grappled', summary: 'Speed 0', effect: () => null },
+  incapacitated: { name: 'Incapacitated', summary: 'No actions or reactions', effect: () => null },
+  invisible: {
+    name: 'Invisible',
+    summary: 'Advantage on attack rolls',
+    effect: (roll) => (roll.kind === 'attack' ? 'advantage' : null),
+  },
+  paralyzed: { name: 'Paralyzed', summary: 'Automatically fails STR and DEX saves', effect: STR_DEX_SAVES_FAIL },
+  petrified: { name: 'Petrified', summary: 'Automatically fails STR and DEX saves', effect: STR_DEX_SAVES_FAIL },
+  poisoned: {
+    name: 'Poisoned',
+    summary: 'Disadvantage on attacks and ability checks',
+    effect: (roll) => (roll.kind === 'attack' || roll.kind === 'check' ? 'disadvantage' : null),
+  },
+  prone: {
+    name: 'Prone',
+    summary: 'Disadvantage on attack rolls',
+    effect: (roll) => (roll.kind === 'attack' ? 'disadvantage' : null),
+  },
+  restrained: {
+    name: 'Restrained',
+    summary: 'Disadvantage on attacks and DEX saves',
+    effect: (roll) =>
+      roll.kind === 'attack' || (roll.kind === 'save' && roll.ability === 'dex') ? 'disadvantage' : null,
+  },
+  stunned: { name: 'Stunned', summary: 'Automatically fails STR and DEX saves', effect: STR_DEX_SAVES_FAIL },
+  unconscious: { name: 'Unconscious', summary: 'Automatically fails STR and DEX saves', effect: STR_DEX_SAVES_FAIL },
+}
+
+export const CONDITION_IDS = Object.keys(CONDITIONS) as ConditionId[]
+
+/**
+ * Duration
+ * --------
+ *   rounds        - ends after this many of the creature's own turns
+ *   until-save    - ends when the creature passes a saving throw
+ *   concentration - ends when the caster's concentration does
+ *   indefinite    - until someone removes it
+ */
+export type ConditionDuration =
+  | { kind: 'rounds'; rounds: number }
+  | { kind: 'until-save'; ability: Ability; dc: number }
+  | { kind: 'concentration'; casterId: string; casterName: string }
+  | { kind: 'indefinite' }
+
+/**
+ * ActiveCondition
+ * ---------------
+ * A condition on a creature. `level` is only used by exhaustion (1-6).
+ */
+export interface ActiveCondition {
+  id: string
+  condition: ConditionId
+  level?: number
+  duration: ConditionDuration
+}
+
+export function createCondition(condition: ConditionId, duration: ConditionDuration, level?: number): ActiveCondition {
+  const active: ActiveCondition = { id: crypto.randomUUID(), condition, duration }
+  if (condition === 'exhaustion') active.level = Math.min(6, Math.max(1, level ?? 1))
+  return active
+}
+
+/**
+ * isActiveCondition
+ * -----------------
+ * For saved data, which can be anything: a condition the tracker and the
+ * d20 rolls can use - a known condition, a sensible level, a duration of
+ * one of the kinds above.
+ */
+function isDuration(value: unknown): value is ConditionDuration {
+  if (typeof value !== 'object' || value === null) return false
+  const duration = value as Record<string, unknown>
+  switch (duration.kind) {
+    case 'rounds':
+      return typeof duration.rounds === 'number'
+    case 'until-save':
+      return ABILITIES.some(({ id }) => id === duration.ability) && typeof duration.dc === 'number'
+    case 'concentration':
+      return typeof duration.casterId === 'string' && typeof duration.casterName === 'string'
+    case 'indefinite':
+      return true
+    default:
+      return false
+  }
+}
+
+export function isActiveCondition(value: unknown): value is ActiveCondition {
+  if (typeof value !== 'object' || value === null) return false
+  const active = value as Partial<ActiveCondition>
+  return (
+    typeof active.id === 'string' &&
+    CONDITION_IDS.some((id) => id === active.condition) &&
+    (active.level === undefined || (Number.isInteger(active.level) && active.level >= 1 && active.level <= 6)) &&
+    isDuration(active.duration)
+  )
+}
+
+export function formatCondition(active: ActiveCondition): string {
+  const { name } = CONDITIONS[active.condition]
+  return active.condition === 'exhaustion' ? `${name} ${active.level ?? 1}` : name
+}
+
+export function formatDuration(duration: ConditionDuration): string {
+  switch (duration.kind) {
+    case 'rounds':
+      return `${duration.rounds} round${duration.rounds === 1 ? '' : 's'}`
+    case 'until-save':
+      return `until DC ${duration.dc} ${duration.ability.toUpperCase()} save`
+    case 'concentration':
+      return `${duration.casterName}'s concentration`
+    case 'indefinite':
+      return 'until removed'
+  }
+}
+
+/**
+ * addCondition
+ * ------------
+ * A creature can't have the same condition twice - adding it again
+ * replaces the old one (so exhaustion simply moves to the new level).
+ */
+export function addCondition(conditions: ActiveCondition[], active: ActiveCondition): ActiveCondition[] {
+  return [...conditions.filter((other) => other.condition !== active.condition), active]
+}
+
+/**
+ * tickConditions
+ * --------------
+ * Called when the creature's turn ends: round-based conditions lose a
+ * round and disappear at zero.
+ */
+export function tickConditions(conditions: ActiveCondition[]): ActiveCondition[] {
+  return conditions
+    .map((active) =>
+      active.duration.kind === 'rounds'
+        ? { ...active, duration: { ...active.duration, rounds: active.duration.rounds - 1 } }
+        : active,
+    )
+    .filter((active) => active.duration.kind !== 'rounds' || active.duration.rounds > 0)
+}
+
+/**
+ * RollEffects
+ * -----------
+ * Everything the conditions do to one roll, with the names of the
+ * conditions responsible so the breakdown can say why.
+ */
+export interface RollEffects {
+  advantage: string[]
+  disadvantage: string[]
+  autoFail: string[]
+}
+
+export const NO_ROLL_EFFECTS: RollEffects = { advantage: [], disadvantage: [], autoFail: [] }
+
+function exhaustionEffect(level: number, roll: D20Roll): Effect | null {
+  if (level >= 3 && (roll.kind === 'attack' || roll.kind === 'save')) return 'disadvantage'
+  if (level >= 1 && roll.kind === 'check') return 'disadvantage'
+  return null
+}
+
+export function getRollEffects(conditions: ActiveCondition[], roll: D20Roll): RollEffects {
+  const effects: RollEffects = { advantage: [], disadvantage: [], autoFail: [] }
+  for (const active of conditions) {
+    const effect =
+      active.condition === 'exhaustion'
+        ? exhaustionEffect(active.level ?? 1, roll)
+        : CONDITIONS[active.condition].effect(roll)
+    const name = formatCondition(active).toLowerCase()
+    if (effect === 'advantage') effects.advantage.push(name)
+    else if (effect === 'disadvantage') effects.disadvantage.push(name)
+    else if (effect === 'auto-fail') effects.autoFail.push(name)
+  }
+  return effects
+}
+
+/**
+ * applyRollEffects
+ * ----------------
+ * Combines the conditions with the roll mode the player picked, and
+ * describes the result for the breakdown:
+ *
+ *   mode   - the roll mode to actually use
+ *   note   - e.g. "disadvantage: poisoned, prone", or
+ *            "advantage and disadvantage cancel: prone"
+ *
+ * Elven Accuracy only improves advantage, so it survives as long as the
+ * roll still ends up with advantage.
+ */
+export function applyRollEffects(selected: RollMode, effects: RollEffects): { mode: RollMode; note: string | null } {
+  const notes: string[] = []
+  if (effects.autoFail.length > 0) notes.push(`automatic failure: ${effects.autoFail.join(', ')}`)
+
+  const hasAdvantage = selected === 'advantage' || selected === 'elven-accuracy' || effects.advantage.length > 0
+  const hasDisadvantage = selected === 'disadvantage' || effects.disadvantage.length > 0
+  const reasons = [...effects.advantage, ...effects.disadvantage]
+
+  let mode: RollMode
+  if (hasAdvantage && hasDisadvantage) {
+    mode = 'normal'
+    if (reasons.length > 0) notes.push(`advantage and disadvantage cancel: ${reasons.join(', ')}`)
+  } else if (hasDisadvantage) {
+    mode = 'disadvantage'
+    if (effects.disadvantage.length > 0) notes.push(`disadvantage: ${effects.disadvantage.join(', ')}`)
+  } else if (hasAdvantage) {
+    mode = selected === 'elven-accuracy' ? 'elven-accuracy' : 'advantage'
+    if (effects.advantage.length > 0) notes.push(`advantage: ${effects.advantage.join(', ')}`)
+  } else {
+    mode = 'normal'
+  }
+  return { mode, note: notes.length > 0 ? notes.join('; ') : null }
+}
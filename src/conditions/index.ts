@@ -0,0 +1,21 @@
+/**
+ * index.ts - Conditions Barrel Export
+ * ===================================
+ * Conditions, their durations and their effect on d20 rolls:
+ *
+ *   import { getRollEffects, applyRollEffects } from './conditions'
+ */
+export {
+  CONDITIONS,
+  CONDITION_IDS,
+  NO_ROLL_EFFECTS,
+  createCondition,
+  isActiveCondition,
+  formatCondition,
+  formatDuration,
+  addCondition,
+  tickConditions,
+  getRollEffects,
+  applyRollEffects,
+} from './conditions'
+export type { ConditionId, ConditionDuration, ActiveCondition, D20Roll, RollEffects } from './conditions'
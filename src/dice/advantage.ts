@@ -0,0 +1,50 @@
+/**
+ * advantage.ts - Advantage & Disadvantage
+ * =======================================
+ * D&D 5e's "roll twice, take the higher (or lower)" is just keep notation
+ * in disguise:
+ *
+ *   advantage       1d20 -> 2d20kh1
+ *   disadvantage    1d20 -> 2d20kl1
+ *   elven accuracy  1d20 -> 3d20kh1   (the Elven Accuracy feat: roll three)
+ *
+ * applyRollMode rewrites an expression that way, so the evaluator, the
+ * breakdown text and the 3D dice need no special cases at all.
+ */
+import type { DiceExpression, KeepMode } from './notation'
+
+export type RollMode = 'normal' | 'advantage' | 'disadvantage' | 'elven-accuracy'
+
+/**
+ * ROLL_MODES
+ * ----------
+ * How many d20s each mode rolls, and which one it keeps. Also gives the UI
+ * a label for each mode.
+ */
+export const ROLL_MODES: Record<RollMode, { label: string; count: number; keep: KeepMode }> = {
+  normal: { label: 'Normal', count: 1, keep: 'kh' },
+  advantage: { label: 'Advantage', count: 2, keep: 'kh' },
+  disadvantage: { label: 'Disadvantage', count: 2, keep: 'kl' },
+  'elven-accuracy': { label: 'Elven Accuracy', count: 3, keep: 'kh' },
+}
+
+/**
+ * applyRollMode
+ * -------------
+ * Replaces every plain single d20 ("1d20", "d20") with the mode's dice.
+ * Other terms - and d20 terms that already say how many to roll or keep,
+ * like "2d20kh1" - are left exactly as written.
+ */
+export function applyRollMode(expression: DiceExpression, mode: RollMode): DiceExpression {
+  if (mode === 'normal') return expression
+
+  const { count, keep } = ROLL_MODES[mode]
+  return {
+    terms: expression.terms.map((signed) => {
+      const { term } = signed
+      const isPlainD20 = term.kind === 'dice' && term.sides === 20 && term.count === 1 && !term.keep
+      if (!isPlainD20) return signed
+      return { ...signed, term: { ...term, count, keep: { mode: keep, count: 1 } } }
+    }),
+  }
+}
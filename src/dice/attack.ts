@@ -0,0 +1,69 @@
+/**
+ * attack.ts - Attack Rolls
+ * ========================
+ * The D&D 5e rules for deciding whether an attack lands:
+ *
+ *   natural 20  critical hit - always hits, and the damage dice are doubled
+ *   natural 1   fumble       - always misses, whatever the bonus
+ *   otherwise   hit when the total meets or beats the target's AC
+ *
+ * "Natural" means the face on the d20 itself, before any bonus - and with
+ * advantage, the d20 that was kept.
+ */
+import type { RollResult } from './evaluate'
+
+/**
+ * getNaturalRoll
+ * --------------
+ * What a d20 face means on its own: 20 is a critical, 1 a fumble. Used by
+ * the attack rules below and by the 3D d20 to colour itself.
+ */
+export type NaturalRoll = 'critical' | 'fumble' | null
+
+export function getNaturalRoll(value: number | null | undefined): NaturalRoll {
+  if (value === 20) return 'critical'
+  if (value === 1) return 'fumble'
+  return null
+}
+
+/**
+ * getNaturalD20
+ * -------------
+ * The kept face of the first d20 in a roll, or null if no d20 was rolled.
+ */
+export function getNaturalD20(result: RollResult): number | null {
+  for (const term of result.terms) {
+    if (term.kind !== 'dice' || term.term.sides !== 20) continue
+    const kept = term.rolls.find((roll) => roll.kept)
+    if (kept) return kept.value
+  }
+  return null
+}
+
+/**
+ * Attack Outcome
+ * --------------
+ * ATTACK_OUTCOMES gives each outcome a label for the breakdown line, and
+ * says whether damage should be rolled.
+ */
+export type AttackOutcome = 'critical' | 'hit' | 'miss' | 'fumble'
+
+export const ATTACK_OUTCOMES: Record<AttackOutcome, { label: string; hits: boolean }> = {
+  critical: { label: 'CRITICAL HIT', hits: true },
+  hit: { label: 'HIT', hits: true },
+  miss: { label: 'MISS', hits: false },
+  fumble: { label: 'FUMBLE', hits: false },
+}
+
+/**
+ * resolveAttack
+ * -------------
+ *   result    - the raw to-hit roll (for the natural d20)
+ *   total     - the to-hit total, bonuses included
+ *   targetAc  - the target's armour class
+ */
+export function resolveAttack(result: RollResult, total: number, targetAc: number): AttackOutcome {
+  const natural = getNaturalRoll(getNaturalD20(result))
+  if (natural) return natural
+  return total >= targetAc ? 'hit' : 'miss'
+}
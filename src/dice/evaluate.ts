@@ -0,0 +1,160 @@
+/**
+ * evaluate.ts - Dice Expression Evaluator
+ * =======================================
+ * Rolls a parsed DiceExpression (see notation.ts) and returns the total
+ * together with a per-term breakdown, so the UI can show exactly which dice
+ * came up and which ones were dropped.
+ */
+import { formatTerm } from './notation'
+import { secureRandom } from './random'
+import type { ConstantTerm, DiceExpression, DiceTerm, KeepRule } from './notation'
+
+/**
+ * Result Types
+ * ------------
+ * DieRoll     - one physical die: its size, the face it landed on, and
+ *               whether it counts towards the total (keep/drop rules)
+ * TermResult  - the outcome of one term of the expression
+ * RollResult  - the outcome of the whole expression
+ *
+ * `subtotal` is always the unsigned value of the term; `sign` says whether
+ * it was added or subtracted.
+ */
+export interface DieRoll {
+  sides: number
+  value: number
+  kept: boolean
+}
+
+export interface DiceTermResult {
+  kind: 'dice'
+  sign: 1 | -1
+  term: DiceTerm
+  rolls: DieRoll[]
+  subtotal: number
+}
+
+export interface ConstantTermResult {
+  kind: 'constant'
+  sign: 1 | -1
+  term: ConstantTerm
+  subtotal: number
+}
+
+export type TermResult = DiceTermResult | ConstantTermResult
+
+export interface RollResult {
+  terms: TermResult[]
+  total: number
+}
+
+/**
+ * DieRoller
+ * ---------
+ * A function that returns a random face (1..sides). Passing it in, instead
+ * of calling Math.random() directly, lets callers decide where the
+ * randomness comes from - usually a RandomSource's rollDie (see random.ts).
+ */
+export type DieRoller = (sides: number) => number
+
+export const defaultDieRoller: DieRoller = secureRandom.rollDie
+
+/**
+ * applyKeepRule
+ * -------------
+ * Given the face values of a dice group, returns which of them are kept.
+ * Ties are broken by position so "2d20kh1" with [15, 15] keeps the first.
+ */
+export function applyKeepRule(values: number[], keep?: KeepRule): boolean[] {
+  if (!keep) return values.map(() => true)
+
+  // Sort indices from highest to lowest value (stable for equal values)
+  const byHighest = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => b.value - a.value || a.index - b.index)
+    .map((entry) => entry.index)
+
+  let keptIndices: number[]
+  switch (keep.mode) {
+    case 'kh':
+      keptIndices = byHighest.slice(0, keep.count)
+      break
+    case 'kl':
+      keptIndices = byHighest.slice(-keep.count)
+      break
+    case 'dh':
+      keptIndices = byHighest.slice(keep.count)
+      break
+    case 'dl':
+      keptIndices = byHighest.slice(0, values.length - keep.count)
+      break
+  }
+
+  const kept = new Set(keptIndices)
+  return values.map((_, index) => kept.has(index))
+}
+
+/**
+ * evaluateDiceExpression
+ * ----------------------
+ * Rolls every die in the expression and adds everything up.
+ */
+export function evaluateDiceExpression(
+  expression: DiceExpression,
+  rollDie: DieRoller = defaultDieRoller,
+): RollResult {
+  const terms: TermResult[] = expression.terms.map(({ sign, term }): TermResult => {
+    if (term.kind === 'constant') {
+      return { kind: 'constant', sign, term, subtotal: term.value }
+    }
+
+    const values = Array.from({ length: term.count }, () => rollDie(term.sides))
+    const kept = applyKeepRule(values, term.keep)
+    const rolls = values.map((value, index) => ({ sides: term.sides, value, kept: kept[index] }))
+    const subtotal = rolls.reduce((sum, roll) => (roll.kept ? sum + roll.value : sum), 0)
+    return { kind: 'dice', sign, term, rolls, subtotal }
+  })
+
+  const total = terms.reduce((sum, result) => sum + result.sign * result.subtotal, 0)
+  return { terms, total }
+}
+
+/**
+ * getRolledDice
+ * -------------
+ * Flattens a result into the list of physical dice, in order. This is what
+ * the Scene needs to know: which dice to spawn and which face each shows.
+ */
+export function getRolledDice(result: RollResult): DieRoll[] {
+  return result.terms.flatMap((term) => (term.kind === 'dice' ? term.rolls : []))
+}
+
+/**
+ * getDiceToSpawn
+ * --------------
+ * Same idea as getRolledDice but for an expression that hasn't been rolled
+ * yet - useful for showing the dice before the first throw.
+ */
+export function getDiceToSpawn(expression: DiceExpression): { sides: number }[] {
+  return expression.terms.flatMap(({ term }) =>
+    term.kind === 'dice' ? Array.from({ length: term.count }, () => ({ sides: term.sides })) : [],
+  )
+}
+
+/**
+ * formatRollBreakdown
+ * -------------------
+ * Human-readable breakdown, e.g. "4d6kh3 [6, 5, 3, (1)] + 2 = 16".
+ * Dropped dice are shown in parentheses.
+ */
+export function formatRollBreakdown(result: RollResult): string {
+  const parts = result.terms.map((termResult, index) => {
+    const operator = index === 0 ? (termResult.sign < 0 ? '-' : '') : termResult.sign < 0 ? ' - ' : ' + '
+    if (termResult.kind === 'constant') return `${operator}${termResult.subtotal}`
+
+    const faces = termResult.rolls.map((roll) => (roll.kept ? String(roll.value) : `(${roll.value})`))
+    return `${operator}${formatTerm(termResult.term)} [${faces.join(', ')}]`
+  })
+
+  return `${parts.join('')} = ${result.total}`
+}
@@ -0,0 +1,43 @@
+/**
+ * index.ts - Dice Engine Barrel Export
+ * ====================================
+ * The dice engine is plain TypeScript with no React or Three.js inside, so
+ * it can be used by components, tests or tooling alike.
+ *
+ *   import { parseDiceNotation, evaluateDiceExpression } from './dice'
+ */
+
+// Parsing: notation string -> AST
+export { parseDiceNotation, formatDiceNotation, formatTerm, DiceNotationError, MAX_DICE_PER_TERM, MAX_SIDES } from './notation'
+export type { DiceExpression, SignedTerm, Term, DiceTerm, ConstantTerm, KeepRule, KeepMode } from './notation'
+
+// Evaluating: AST -> rolled result with breakdown
+export {
+  evaluateDiceExpression,
+  applyKeepRule,
+  getRolledDice,
+  getDiceToSpawn,
+  formatRollBreakdown,
+  defaultDieRoller,
+} from './evaluate'
+export type { RollResult, TermResult, DiceTermResult, ConstantTermResult, DieRoll, DieRoller } from './evaluate'
+
+// Randomness: secure by default, seedable for replays and tests
+export { secureRandom, createSeededRandom, createRandomSource, createRollSeed, createRollDieRoller } from './random'
+export type { RandomSource } from './random'
+
+// Advantage / disadvantage: rewrite d20s as keep-highest / keep-lowest
+export { applyRollMode, ROLL_MODES } from './advantage'
+export type { RollMode } from './advantage'
+
+// Modifiers: bonuses, proficiency, crits, resistance and vulnerability
+export { applyModifiers, NO_MODIFIERS } from './modifiers'
+export type { RollModifiers, ModifiedRoll, DamageScaling } from './modifiers'
+
+// Attack rolls: natural 20s and 1s, hit or miss against AC
+export { getNaturalRoll, getNaturalD20, resolveAttack, ATTACK_OUTCOMES } from './attack'
+export type { NaturalRoll, AttackOutcome } from './attack'
+
+// Probability: exact distributions, by convolution rather than sampling
+export { getDistribution, expectedValue, chanceAtLeast, getAttackChances, MAX_PROBABILITY_WORK } from './probability'
+export type { Distribution, AttackChances } from './probability'
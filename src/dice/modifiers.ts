@@ -0,0 +1,124 @@
+/**
+ * modifiers.ts - Modifiers & Damage Rules
+ * =======================================
+ * Applies the D&D 5e rules that sit on top of a raw roll:
+ *
+ *   flat bonus        +1 from a magic weapon, -2 from a curse...
+ *   proficiency bonus added when the character is proficient
+ *   critical hit      roll the dice twice - only the dice, never the bonuses
+ *   resistance        half damage, rounded down
+ *   vulnerability     double damage
+ *
+ * ORDER MATTERS:
+ * --------------
+ * The dice are doubled first, then every flat number is added, and
+ * resistance or vulnerability applies last, to the whole total - which is
+ * the order the Player's Handbook uses.
+ *
+ * Doubling the rolled dice stands in for rolling them twice: the 3D dice
+ * you watched land are the ones that count.
+ */
+import { formatTerm } from './notation'
+import type { RollResult } from './evaluate'
+
+export type DamageScaling = 'normal' | 'resistant' | 'vulnerable'
+
+/**
+ * RollModifiers
+ * -------------
+ *   bonus            - flat bonus (negative for a penalty)
+ *   proficiencyBonus - +2 at levels 1-4, up to +6 at level 17
+ *   proficient       - whether to add it
+ *   critical         - double the dice
+ *   scaling          - resistance / vulnerability of the target
+ */
+export interface RollModifiers {
+  bonus: number
+  proficiencyBonus: number
+  proficient: boolean
+  critical: boolean
+  scaling: DamageScaling
+}
+
+export const NO_MODIFIERS: RollModifiers = {
+  bonus: 0,
+  proficiencyBonus: 2,
+  proficient: false,
+  critical: false,
+  scaling: 'normal',
+}
+
+/**
+ * ModifiedRoll
+ * ------------
+ * The final total and a one-line explanation of how it was reached,
+ * e.g. "2d6 (4+5) ×2 crit +3 = 21".
+ */
+export interface ModifiedRoll {
+  total: number
+  breakdown: string
+}
+
+// "+3" / "-1" with the sign always shown
+function signed(value: number) {
+  return value < 0 ? `-${-value}` : `+${value}`
+}
+
+/**
+ * applyModifiers
+ * --------------
+ * Works out the total and builds the breakdown line piece by piece.
+ */
+export function applyModifiers(result: RollResult, modifiers: RollModifiers): ModifiedRoll {
+  const diceTerms = result.terms.filter((term) => term.kind === 'dice')
+  const diceSum = diceTerms.reduce((sum, term) => sum + term.sign * term.subtotal, 0)
+  const constants = result.terms.filter((term) => term.kind === 'constant')
+  const proficiency = modifiers.proficient ? modifiers.proficiencyBonus : 0
+
+  // 1. Dice (doubled on a crit)
+  const critMultiplier = modifiers.critical && diceTerms.length > 0 ? 2 : 1
+  let subtotal = diceSum * critMultiplier
+
+  // "2d6 (4+5)" - only the kept faces, since dropped dice don't count
+  let line = diceTerms
+    .map((term, index) => {
+      const operator = term.sign < 0 ? (index === 0 ? '-' : ' - ') : index === 0 ? '' : ' + '
+      const faces = term.rolls.filter((roll) => roll.kept).map((roll) => roll.value)
+      return `${operator}${formatTerm(term.term)} (${faces.join('+')})`
+    })
+    .join('')
+  if (critMultiplier === 2) {
+    line = diceTerms.length > 1 ? `[${line}] ×2 crit` : `${line} ×2 crit`
+  }
+
+  // 2. Flat numbers: constants from the expression, the bonus, proficiency
+  const flats: string[] = constants.map((term) => signed(term.sign * term.subtotal))
+  subtotal += constants.reduce((sum, term) => sum + term.sign * term.subtotal, 0)
+  if (modifiers.bonus !== 0) {
+    flats.push(signed(modifiers.bonus))
+    subtotal += modifiers.bonus
+  }
+  if (proficiency !== 0) {
+    flats.push(`${signed(proficiency)} prof`)
+    subtotal += proficiency
+  }
+
+  // An expression with no dice at all ("5") starts with a bare number
+  if (line === '' && flats.length > 0) flats[0] = flats[0].replace(/^\+/, '')
+  line = [line, ...flats].filter(Boolean).join(' ')
+  line = `${line} = ${subtotal}`
+
+  // 3. Resistance / vulnerability, applied to the whole total
+  switch (modifiers.scaling) {
+    case 'resistant': {
+      const total = Math.floor(subtotal / 2)
+      return { total, breakdown: `${line} → ½ resist = ${total}` }
+    }
+    case 'vulnerable': {
+      const total = subtotal * 2
+      return { total, breakdown: `${line} → ×2 vuln = ${total}` }
+    }
+    default:
+      return { total: subtotal, breakdown: line }
+  }
+}
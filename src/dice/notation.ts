@@ -0,0 +1,229 @@
+/**
+ * notation.ts - Dice Notation Parser
+ * ==================================
+ * Turns strings like "2d6+3", "4d6kh3" or "1d20+5-1d4" into a small
+ * syntax tree (an "AST") that the evaluator can walk.
+ *
+ * SUPPORTED SYNTAX:
+ * -----------------
+ *   NdS     - roll N dice with S sides. N is optional: "d20" means "1d20"
+ *   d%      - percentile die, the same as d100
+ *   khN     - keep the highest N dice ("4d6kh3"). "k" on its own means "kh"
+ *   klN     - keep the lowest N dice
+ *   dhN     - drop the highest N dice
+ *   dlN     - drop the lowest N dice ("4d6dl1" is the same as "4d6kh3")
+ *   + and - - add or subtract dice groups and flat numbers
+ *
+ * Whitespace is ignored and "D" works as well as "d".
+ *
+ * LEARNING POINT: Parsing is split from evaluating on purpose. The AST
+ * describes *what* to roll; rolling it can then happen many times (or not at
+ * all, e.g. when we only want to know which dice to show in the Scene).
+ */
+
+/**
+ * AST Types
+ * ---------
+ * A DiceExpression is a flat list of terms, each with a sign.
+ * "1d20+5-1d4" becomes: [+ 1d20] [+ 5] [- 1d4]
+ */
+export type KeepMode = 'kh' | 'kl' | 'dh' | 'dl'
+
+export interface KeepRule {
+  mode: KeepMode
+  count: number
+}
+
+export interface DiceTerm {
+  kind: 'dice'
+  count: number
+  sides: number
+  keep?: KeepRule
+}
+
+export interface ConstantTerm {
+  kind: 'constant'
+  value: number
+}
+
+export type Term = DiceTerm | ConstantTerm
+
+export interface SignedTerm {
+  sign: 1 | -1
+  term: Term
+}
+
+export interface DiceExpression {
+  terms: SignedTerm[]
+}
+
+/**
+ * Limits
+ * ------
+ * Keeps a typo like "1000d6" from freezing the page or spawning a mountain
+ * of dice in the Scene.
+ */
+export const MAX_DICE_PER_TERM = 100
+export const MAX_SIDES = 1000
+
+/**
+ * DiceNotationError
+ * -----------------
+ * Thrown for any malformed input. `index` is the character position where
+ * the problem was found, so the UI can point at it.
+ */
+export class DiceNotationError extends Error {
+  readonly index: number
+
+  constructor(message: string, index: number) {
+    super(message)
+    this.name = 'DiceNotationError'
+    this.index = index
+  }
+}
+
+/**
+ * parseDiceNotation
+ * -----------------
+ * Parses a notation string into a DiceExpression, or throws DiceNotationError.
+ *
+ * This is a small hand-written "recursive descent" style parser: a cursor
+ * (pos) walks through the string and each helper consumes the part it
+ * understands.
+ */
+export function parseDiceNotation(input: string): DiceExpression {
+  // Strip whitespace but remember where each character came from for errors
+  const chars: { ch: string; index: number }[] = []
+  for (let i = 0; i < input.length; i++) {
+    if (!/\s/.test(input[i])) chars.push({ ch: input[i].toLowerCase(), index: i })
+  }
+
+  if (chars.length === 0) {
+    throw new DiceNotationError('Enter a dice expression, e.g. 2d6+3', 0)
+  }
+
+  let pos = 0
+  const peek = () => chars[pos]?.ch
+  const indexAt = (p: number) => chars[p]?.index ?? input.length
+
+  const readNumber = (): number | null => {
+    const start = pos
+    while (pos < chars.length && /[0-9]/.test(chars[pos].ch)) pos++
+    if (pos === start) return null
+    return Number(chars.slice(start, pos).map((c) => c.ch).join(''))
+  }
+
+  const readTerm = (): Term => {
+    const start = pos
+    const count = readNumber()
+
+    // A plain number with no "d" after it is a flat modifier
+    if (peek() !== 'd') {
+      if (count === null) {
+        throw new DiceNotationError(
+          peek() === undefined ? 'Expression ends unexpectedly' : `Unexpected "${peek()}"`,
+          indexAt(pos),
+        )
+      }
+      return { kind: 'constant', value: count }
+    }
+    pos++ // consume "d"
+
+    let sides: number | null
+    if (peek() === '%') {
+      pos++
+      sides = 100
+    } else {
+      sides = readNumber()
+    }
+    if (sides === null) {
+      throw new DiceNotationError('Expected a number of sides after "d"', indexAt(pos))
+    }
+
+    const term: DiceTerm = { kind: 'dice', count: count ?? 1, sides }
+    if (term.count < 1 || term.count > MAX_DICE_PER_TERM) {
+      throw new DiceNotationError(`Dice count must be between 1 and ${MAX_DICE_PER_TERM}`, indexAt(start))
+    }
+    if (sides < 2 || sides > MAX_SIDES) {
+      throw new DiceNotationError(`A die needs between 2 and ${MAX_SIDES} sides`, indexAt(start))
+    }
+
+    // Optional keep/drop modifier
+    const modifierStart = pos
+    if (peek() === 'k' || peek() === 'd') {
+      const first = peek()
+      pos++
+      let mode: KeepMode
+      if (peek() === 'h' || peek() === 'l') {
+        mode = `${first}${peek()}` as KeepMode
+        pos++
+      } else if (first === 'k') {
+        mode = 'kh'
+      } else {
+        throw new DiceNotationError('Use "dh" or "dl" to drop dice', indexAt(modifierStart))
+      }
+
+      const keepCount = readNumber()
+      if (keepCount === null) {
+        throw new DiceNotationError(`Expected a number after "${mode}"`, indexAt(pos))
+      }
+      const isKeep = mode === 'kh' || mode === 'kl'
+      if (isKeep ? keepCount < 1 || keepCount > term.count : keepCount >= term.count) {
+        throw new DiceNotationError(
+          isKeep
+            ? `Can only keep between 1 and ${term.count} of ${term.count} dice`
+            : `Must leave at least one of ${term.count} dice after dropping`,
+          indexAt(modifierStart),
+        )
+      }
+      term.keep = { mode, count: keepCount }
+    }
+
+    return term
+  }
+
+  const terms: SignedTerm[] = []
+  let sign: 1 | -1 = 1
+
+  // Allow a leading sign: "-1d4" or "+2"
+  if (peek() === '+' || peek() === '-') {
+    sign = peek() === '-' ? -1 : 1
+    pos++
+  }
+
+  for (;;) {
+    terms.push({ sign, term: readTerm() })
+
+    const next = peek()
+    if (next === undefined) break
+    if (next !== '+' && next !== '-') {
+      throw new DiceNotationError(`Unexpected "${next}"`, indexAt(pos))
+    }
+    sign = next === '-' ? -1 : 1
+    pos++
+  }
+
+  return { terms }
+}
+
+/**
+ * formatTerm / formatDiceNotation
+ * -------------------------------
+ * The reverse of parsing: turns an AST back into canonical notation.
+ * Handy for labels ("d20" typed as "1D20 " comes back as "1d20").
+ */
+export function formatTerm(term: Term): string {
+  if (term.kind === 'constant') return String(term.value)
+  const keep = term.keep ? `${term.keep.mode}${term.keep.count}` : ''
+  return `${term.count}d${term.sides}${keep}`
+}
+
+export function formatDiceNotation(expression: DiceExpression): string {
+  return expression.terms
+    .map(({ sign, term }, index) => {
+      const text = formatTerm(term)
+      if (index === 0) return sign < 0 ? `-${text}` : text
+      return `${sign < 0 ? '-' : '+'}${text}`
+    })
+    .join('')
+}
@@ -0,0 +1,227 @@
+/**
+ * probability.ts - Exact Odds for a Dice Expression
+ * =================================================
+ * Works out the chance of every possible total - not by rolling a million
+ * times, but exactly, by convolution:
+ *
+ *   the chance that 2d6 totals 7 = Σ P(first die = a) × P(second die = 7 - a)
+ *
+ * Doing that die by die, then term by term, gives the whole distribution.
+ *
+ *   getDistribution    every total of an expression, with its probability
+ *   expectedValue      the average total
+ *   chanceAtLeast      the chance to meet or beat a DC
+ *   getAttackChances   hit / miss / critical / fumble against an AC
+ *
+ * KEEP AND DROP:
+ * --------------
+ * "4d6kh3" can't be convolved one die at a time - whether a die counts
+ * depends on the others. keptDistribution instead walks the faces from
+ * best to worst, deciding how many dice show each face; the first
+ * `keepCount` dice placed are the kept ones. Advantage is just 2d20kh1
+ * (see advantage.ts), so it needs nothing extra.
+ */
+import type { DiceExpression, DiceTerm, SignedTerm } from './notation'
+
+/**
+ * Distribution
+ * ------------
+ * probabilities[i] is the chance of a total of exactly min + i. They add
+ * up to 1.
+ */
+export interface Distribution {
+  min: number
+  probabilities: number[]
+}
+
+// Past this many steps the page would freeze, so we refuse instead
+export const MAX_PROBABILITY_WORK = 50_000_000
+
+function checkWork(work: number) {
+  if (work > MAX_PROBABILITY_WORK) {
+    throw new RangeError('Too many possible totals to work out exactly')
+  }
+}
+
+const pointDistribution = (value: number): Distribution => ({ min: value, probabilities: [1] })
+
+/**
+ * convolve
+ * --------
+ * The distribution of A + B, for independent A and B: every pair of
+ * totals, its probabilities multiplied.
+ */
+function convolve(a: Distribution, b: Distribution): Distribution {
+  checkWork(a.probabilities.length * b.probabilities.length)
+  const probabilities = new Array<number>(a.probabilities.length + b.probabilities.length - 1).fill(0)
+  a.probabilities.forEach((pa, i) => {
+    if (pa === 0) return
+    b.probabilities.forEach((pb, j) => {
+      probabilities[i + j] += pa * pb
+    })
+  })
+  return { min: a.min + b.min, probabilities }
+}
+
+function negate({ min, probabilities }: Distribution): Distribution {
+  return { min: -(min + probabilities.length - 1), probabilities: [...probabilities].reverse() }
+}
+
+/**
+ * sumDistribution
+ * ---------------
+ * `count` dice all kept. Adding one die spreads each total evenly over the
+ * next `sides` totals - a running sum makes that one step per total
+ * instead of `sides` steps.
+ */
+function sumDistribution(count: number, sides: number): Distribution {
+  let probabilities = [1]
+  for (let die = 0; die < count; die++) {
+    const next = new Array<number>(probabilities.length + sides - 1).fill(0)
+    let window = 0
+    for (let total = 0; total < next.length; total++) {
+      if (total < probabilities.length) window += probabilities[total]
+      if (total - sides >= 0) window -= probabilities[total - sides]
+      next[total] = window / sides
+    }
+    probabilities = next
+  }
+  return { min: count, probabilities }
+}
+
+/**
+ * keptDistribution
+ * ----------------
+ * `count` dice of which the `keepCount` highest (or lowest) are added up.
+ *
+ * ways[placed][sum] is the chance that, of the faces looked at so far,
+ * exactly `placed` dice showed one of them and the kept ones among those
+ * add up to `sum`. For each face, `c` of the remaining dice can show it -
+ * C(remaining, c) ways, each with chance (1 / sides)^c.
+ */
+function keptDistribution(count: number, sides: number, keepCount: number, highest: boolean): Distribution {
+  if (keepCount <= 0) return pointDistribution(0)
+  if (keepCount >= count) return sumDistribution(count, sides)
+  checkWork(sides * (count + 1) ** 2 * (keepCount * sides + 1))
+
+  // binomial[n][k] = C(n, k), and powers[c] = (1 / sides)^c
+  const binomial: number[][] = [[1]]
+  for (let n = 1; n <= count; n++) {
+    binomial.push(Array.from({ length: n + 1 }, (_, k) => (binomial[n - 1][k - 1] ?? 0) + (binomial[n - 1][k] ?? 0)))
+  }
+  const powers = Array.from({ length: count + 1 }, (_, c) => sides ** -c)
+
+  const width = keepCount * sides + 1
+  let ways = Array.from({ length: count + 1 }, () => new Array<number>(width).fill(0))
+  ways[0][0] = 1
+
+  for (let step = 0; step < sides; step++) {
+    const face = highest ? sides - step : step + 1
+    const next = Array.from({ length: count + 1 }, () => new Array<number>(width).fill(0))
+    for (let placed = 0; placed <= count; placed++) {
+      const remaining = count - placed
+      for (let sum = 0; sum < width; sum++) {
+        const chance = ways[placed][sum]
+        if (chance === 0) continue
+        for (let c = 0; c <= remaining; c++) {
+          const kept = Math.min(c, Math.max(0, keepCount - placed))
+          next[placed + c][sum + kept * face] += chance * binomial[remaining][c] * powers[c]
+        }
+      }
+    }
+    ways = next
+  }
+
+  // The kept dice show at least 1 each
+  return { min: keepCount, probabilities: ways[count].slice(keepCount) }
+}
+
+/**
+ * Keep rules in terms of "keep the N highest / lowest":
+ *   kh N - keep N highest     dl N - drop N lowest  = keep count - N highest
+ *   kl N - keep N lowest      dh N - drop N highest = keep count - N lowest
+ */
+function keptCount({ count, keep }: DiceTerm): number {
+  if (!keep) return count
+  return keep.mode === 'kh' || keep.mode === 'kl' ? keep.count : count - keep.count
+}
+
+function diceTermDistribution({ count, sides, keep }: DiceTerm): Distribution {
+  if (!keep) return sumDistribution(count, sides)
+  switch (keep.mode) {
+    case 'kh':
+      return keptDistribution(count, sides, keep.count, true)
+    case 'kl':
+      return keptDistribution(count, sides, keep.count, false)
+    case 'dl':
+      return keptDistribution(count, sides, count - keep.count, true)
+    case 'dh':
+      return keptDistribution(count, sides, count - keep.count, false)
+  }
+}
+
+function signedTermDistribution({ sign, term }: SignedTerm): Distribution {
+  const distribution = term.kind === 'constant' ? pointDistribution(term.value) : diceTermDistribution(term)
+  return sign === 1 ? distribution : negate(distribution)
+}
+
+/**
+ * getDistribution
+ * ---------------
+ * Throws a RangeError for expressions too big to work out in the browser
+ * (a hundred d1000s kept three at a time, say).
+ */
+export function getDistribution(expression: DiceExpression): Distribution {
+  return expression.terms.map(signedTermDistribution).reduce(convolve, pointDistribution(0))
+}
+
+export function expectedValue({ min, probabilities }: Distribution): number {
+  return probabilities.reduce((sum, chance, i) => sum + chance * (min + i), 0)
+}
+
+export function chanceAtLeast({ min, probabilities }: Distribution, target: number): number {
+  return probabilities.reduce((sum, chance, i) => (min + i >= target ? sum + chance : sum), 0)
+}
+
+/**
+ * getAttackChances
+ * ----------------
+ * Against an AC a natural 20 always hits and a natural 1 always misses
+ * (see attack.ts), so the d20's own face matters, not just the total.
+ * Splitting the expression into that d20 and everything else - which are
+ * independent - gives each outcome exactly:
+ *
+ *   hit = Σ over faces 2..19 of P(d20 = face) × P(rest ≥ AC - face)
+ *
+ * The "natural" d20 is the first d20 term, as for a real roll. Without one
+ * that keeps a single die there is nothing natural to check, and the
+ * attack is just total against AC.
+ */
+export interface AttackChances {
+  critical: number
+  hit: number
+  miss: number
+  fumble: number
+}
+
+export function getAttackChances(expression: DiceExpression, targetAc: number): AttackChances {
+  const index = expression.terms.findIndex(({ term }) => term.kind === 'dice' && term.sides === 20)
+  const d20 = expression.terms[index]
+
+  if (!d20 || d20.term.kind !== 'dice' || d20.sign !== 1 || keptCount(d20.term) !== 1) {
+    const hit = chanceAtLeast(getDistribution(expression), targetAc)
+    return { critical: 0, hit, miss: 1 - hit, fumble: 0 }
+  }
+
+  const natural = signedTermDistribution(d20)
+  const rest = getDistribution({ terms: expression.terms.filter((_, i) => i !== index) })
+  const chanceOf = (face: number) => natural.probabilities[face - natural.min] ?? 0
+
+  let hit = 0
+  for (let face = 2; face <= 19; face++) {
+    hit += chanceOf(face) * chanceAtLeast(rest, targetAc - face)
+  }
+  const critical = chanceOf(20)
+  const fumble = chanceOf(1)
+  return { critical, hit, miss: 1 - critical - hit - fumble, fumble }
+}
@@ -0,0 +1,164 @@
+/**
+ * random.ts - Random Number Sources
+ * =================================
+ * Every roll in the app draws its randomness from a RandomSource, so where
+ * the randomness comes from can be swapped in one place:
+ *
+ *   secureRandom          - the default, backed by crypto.getRandomValues
+ *   createSeededRandom(s) - deterministic: the same seed always gives the
+ *                           same sequence, for replays and tests
+ *
+ * Both are built from a generator of random 32-bit integers by
+ * createRandomSource, which adds an unbiased die roll and a [0, 1) float
+ * (the physics needs floats for throw speeds and spins).
+ */
+import type { DieRoller } from './evaluate'
+
+/**
+ * RandomSource
+ * ------------
+ *   nextUint32 - a uniformly random integer in [0, 2^32)
+ *   next       - a uniformly random number in [0, 1), like Math.random()
+ *   rollDie    - a uniformly random face, 1..sides
+ */
+export interface RandomSource {
+  nextUint32: () => number
+  next: () => number
+  rollDie: DieRoller
+}
+
+const UINT32_RANGE = 2 ** 32
+
+/**
+ * createRandomSource
+ * ------------------
+ * Wraps a 32-bit integer generator.
+ *
+ * WHY REJECTION SAMPLING?
+ * -----------------------
+ * `x % 6` on a 32-bit x is very slightly biased: 2^32 isn't a multiple of
+ * 6, so the first few faces get one extra way to come up. Throwing away
+ * draws from that uneven tail (and drawing again) makes every face exactly
+ * equally likely. At most half of all draws are ever thrown away, and for
+ * normal dice it is fewer than one in a hundred million.
+ */
+export function createRandomSource(nextUint32: () => number): RandomSource {
+  const rollDie: DieRoller = (sides) => {
+    if (!Number.isInteger(sides) || sides < 1 || sides > UINT32_RANGE) {
+      throw new RangeError(`Cannot roll a die with ${sides} sides`)
+    }
+
+    const limit = UINT32_RANGE - (UINT32_RANGE % sides) // Largest multiple of sides
+    let draw = nextUint32()
+    while (draw >= limit) draw = nextUint32()
+    return (draw % sides) + 1
+  }
+
+  return {
+    nextUint32,
+    next: () => nextUint32() / UINT32_RANGE,
+    rollDie,
+  }
+}
+
+/**
+ * secureRandom
+ * ------------
+ * Cryptographically secure randomness from the browser. Values are fetched
+ * 256 at a time because each call into crypto has a small fixed cost.
+ */
+const secureBuffer = new Uint32Array(256)
+let secureIndex = secureBuffer.length
+
+export const secureRandom: RandomSource = createRandomSource(() => {
+  if (secureIndex === secureBuffer.length) {
+    crypto.getRandomValues(secureBuffer)
+    secureIndex = 0
+  }
+  return secureBuffer[secureIndex++]
+})
+
+/**
+ * hashSeed
+ * --------
+ * Turns any seed (a number or a string like "session-42") into the four
+ * 32-bit words of generator state. This is cyrb128, a small string hash
+ * that spreads similar seeds far apart.
+ */
+function hashSeed(seed: string | number): [number, number, number, number] {
+  const text = String(seed)
+  let h1 = 1779033703
+  let h2 = 3144134277
+  let h3 = 1013904242
+  let h4 = 2773480762
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067)
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233)
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213)
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179)
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067)
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233)
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213)
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179)
+  h1 ^= h2 ^ h3 ^ h4
+  h2 ^= h1
+  h3 ^= h1
+  h4 ^= h1
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0]
+}
+
+/**
+ * createSeededRandom
+ * ------------------
+ * A deterministic source: sfc32 ("Small Fast Counting" generator), which
+ * passes the standard statistical test suites and is tiny. Not suitable
+ * for secrets - anyone who knows the seed can predict every roll, which is
+ * exactly what a replay needs.
+ *
+ * LEARNING POINT: `>>> 0` turns a JavaScript number into an unsigned
+ * 32-bit integer, and Math.imul multiplies like a 32-bit CPU would.
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let [a, b, c, d] = hashSeed(seed)
+
+  return createRandomSource(() => {
+    const t = (((a + b) >>> 0) + d) >>> 0
+    d = (d + 1) >>> 0
+    a = b ^ (b >>> 9)
+    b = (c + (c << 3)) >>> 0
+    c = (c << 21) | (c >>> 11)
+    c = (c + t) >>> 0
+    return t
+  })
+}
+
+/**
+ * createRollSeed
+ * --------------
+ * A fresh seed for one roll: 128 bits from `source`, as 32 hex digits.
+ * Rolling with createSeededRandom(seed) then gives faces that anyone
+ * holding the seed can reproduce - how a shared table replays a roll
+ * without sending every die. With a seeded `source` (?seed= in the URL)
+ * the roll seeds are themselves reproducible.
+ */
+export function createRollSeed(source: RandomSource): string {
+  return Array.from({ length: 4 }, () => source.nextUint32().toString(16).padStart(8, '0')).join('')
+}
+
+/**
+ * createRollDieRoller
+ * -------------------
+ * The dice for one roll, from its seed - and the nonce mixed into it at a
+ * shared table, if there is one (see src/fairness). Every roll goes
+ * through here - our own, replays of other players' rolls, checks of a
+ * roll's seed, and the statistics panel's simulation - so they all test
+ * and trust the same path.
+ */
+export function createRollDieRoller(seed: string, nonce?: string): DieRoller {
+  return createSeededRandom(nonce === undefined ? seed : `${seed}:${nonce}`).rollDie
+}
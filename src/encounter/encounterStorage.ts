@@ -0,0 +1,59 @@
+/**
+ * encounterStorage.ts - Saving the Encounter
+ * ==========================================
+ * The encounter is stored in localStorage as one JSON object, so a reload
+ * in the middle of a fight comes back on the same turn of the same round.
+ */
+import { EMPTY_ENCOUNTER } from './initiative'
+import type { Combatant, Encounter } from './initiative'
+import { isActiveCondition } from '../conditions'
+import { isDefenses, isHitPoints } from '../hitpoints'
+
+const STORAGE_KEY = 'dnd-application:encounter'
+
+/**
+ * isCombatant
+ * -----------
+ * localStorage can hold anything (an older version's data, a hand edit...),
+ * so each saved combatant is checked before it is trusted - down to its
+ * hit points, defenses and conditions, which the tracker does sums with
+ * and rolls by. One that fails is dropped rather than crashing the fight.
+ */
+function isCombatant(value: unknown): value is Combatant {
+  if (typeof value !== 'object' || value === null) return false
+  const combatant = value as Partial<Combatant>
+  return (
+    typeof combatant.id === 'string' &&
+    typeof combatant.name === 'string' &&
+    (combatant.kind === 'pc' || combatant.kind === 'monster') &&
+    typeof combatant.dexModifier === 'number' &&
+    (combatant.initiative === null || typeof combatant.initiative === 'number') &&
+    typeof combatant.delayed === 'boolean' &&
+    (combatant.characterId === undefined || typeof combatant.characterId === 'string') &&
+    (combatant.hitPoints === undefined || isHitPoints(combatant.hitPoints)) &&
+    (combatant.defenses === undefined || isDefenses(combatant.defenses)) &&
+    (combatant.conditions === undefined ||
+      (Array.isArray(combatant.conditions) && combatant.conditions.every(isActiveCondition)))
+  )
+}
+
+export function loadEncounter(): Encounter {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<Encounter> | null
+    if (!saved || !Array.isArray(saved.combatants)) return EMPTY_ENCOUNTER
+    const combatants = saved.combatants.filter(isCombatant)
+    const round = typeof saved.round === 'number' && saved.round > 0 ? saved.round : 0
+    const currentId = combatants.some((combatant) => combatant.id === saved.currentId) ? saved.currentId! : null
+    return { combatants, round, currentId }
+  } catch {
+    return EMPTY_ENCOUNTER
+  }
+}
+
+export function saveEncounter(encounter: Encounter) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(encounter))
+  } catch {
+    // Storage unavailable - the encounter lasts until the page is closed
+  }
+}
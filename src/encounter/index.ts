@@ -0,0 +1,26 @@
+/**
+ * index.ts - Encounter Barrel Export
+ * ==================================
+ * Initiative, turn order and storage for combat:
+ *
+ *   import { startCombat, nextTurn } from './encounter'
+ */
+export {
+  EMPTY_ENCOUNTER,
+  createCombatant,
+  compareInitiative,
+  isInCombat,
+  addCombatant,
+  removeCombatant,
+  setInitiative,
+  startCombat,
+  endCombat,
+  nextTurn,
+  delayTurn,
+  resumeTurn,
+  updateCombatant,
+  endConcentration,
+} from './initiative'
+export type { Combatant, CombatantKind, Encounter } from './initiative'
+
+export { loadEncounter, saveEncounter } from './encounterStorage'
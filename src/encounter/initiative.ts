@@ -0,0 +1,266 @@
+/**
+ * initiative.ts - Initiative & Turn Order
+ * =======================================
+ * The rules of combat order, as pure functions: each one takes an
+ * Encounter and returns a new one, never changing the original - the same
+ * habit React state wants.
+ *
+ *   addCombatant / removeCombatant - anyone can join or leave mid-fight
+ *   setInitiative                  - record a combatant's initiative roll
+ *   startCombat / endCombat        - sort everyone and begin at round 1
+ *   nextTurn                       - pass to the next combatant, counting rounds
+ *                                    and counting down their conditions
+ *   delayTurn / resumeTurn         - hold a turn and jump back in later
+ *   updateCombatant                - e.g. new hit points after a hit
+ *   endConcentration               - a caster's concentration breaks
+ *
+ * TURN ORDER:
+ * -----------
+ * Highest initiative goes first; a tie goes to the higher DEX modifier.
+ * `combatants` is kept *in turn order*, so once combat starts the order
+ * only changes when someone joins, re-rolls or comes back from a delay.
+ */
+import { tickConditions } from '../conditions'
+import type { ActiveCondition } from '../conditions'
+import type { Defenses, HitPoints } from '../hitpoints'
+
+export type CombatantKind = 'pc' | 'monster'
+
+/**
+ * Combatant
+ * ---------
+ *   initiative  - null until rolled (or typed in)
+ *   delayed     - holding their turn; skipped until they resume
+ *   characterId - the saved character this came from, if any; their hit
+ *                 points live on the character sheet, not here
+ *   hitPoints   - a monster's HP (left out when not being tracked)
+ *   defenses    - a monster's resistances, immunities and vulnerabilities
+ *   conditions  - poisoned, prone... (see src/conditions)
+ */
+export interface Combatant {
+  id: string
+  name: string
+  kind: CombatantKind
+  dexModifier: number
+  initiative: number | null
+  delayed: boolean
+  characterId?: string
+  hitPoints?: HitPoints
+  defenses?: Defenses
+  conditions?: ActiveCondition[]
+}
+
+/**
+ * Encounter
+ * ---------
+ *   round     - 0 before combat starts, then 1, 2, 3...
+ *   currentId - whose turn it is (null outside combat)
+ */
+export interface Encounter {
+  combatants: Combatant[]
+  round: number
+  currentId: string | null
+}
+
+export const EMPTY_ENCOUNTER: Encounter = { combatants: [], round: 0, currentId: null }
+
+export function createCombatant({
+  name,
+  kind,
+  dexModifier,
+  characterId,
+  hitPoints,
+  defenses,
+}: Pick<Combatant, 'name' | 'kind' | 'dexModifier' | 'characterId' | 'hitPoints' | 'defenses'>): Combatant {
+  const combatant: Combatant = { id: crypto.randomUUID(), name, kind, dexModifier, initiative: null, delayed: false }
+  if (characterId) combatant.characterId = characterId
+  if (hitPoints) combatant.hitPoints = hitPoints
+  if (defenses) combatant.defenses = defenses
+  return combatant
+}
+
+/**
+ * compareInitiative
+ * -----------------
+ * A sort comparator: negative when `a` acts before `b`. Anyone who hasn't
+ * rolled yet goes to the end.
+ */
+export function compareInitiative(a: Combatant, b: Combatant): number {
+  if (a.initiative === null || b.initiative === null) {
+    return (a.initiative === null ? 1 : 0) - (b.initiative === null ? 1 : 0)
+  }
+  return b.initiative - a.initiative || b.dexModifier - a.dexModifier
+}
+
+/**
+ * insertInOrder
+ * -------------
+ * Puts a combatant after everyone who acts before (or ties with) them, so
+ * joining mid-combat never reshuffles the others.
+ */
+function insertInOrder(combatants: Combatant[], combatant: Combatant): Combatant[] {
+  const index = combatants.findIndex((other) => compareInitiative(combatant, other) < 0)
+  return index === -1
+    ? [...combatants, combatant]
+    : [...combatants.slice(0, index), combatant, ...combatants.slice(index)]
+}
+
+export function isInCombat(encounter: Encounter): boolean {
+  return encounter.round > 0
+}
+
+export function addCombatant(encounter: Encounter, combatant: Combatant): Encounter {
+  return { ...encounter, combatants: insertInOrder(encounter.combatants, combatant) }
+}
+
+export function setInitiative(encounter: Encounter, id: string, initiative: number | null): Encounter {
+  const combatant = encounter.combatants.find((other) => other.id === id)
+  if (!combatant) return encounter
+  const others = encounter.combatants.filter((other) => other.id !== id)
+  return { ...encounter, combatants: insertInOrder(others, { ...combatant, initiative }) }
+}
+
+/**
+ * findNextTurn
+ * ------------
+ * Walks forward from `fromIndex`, skipping delayed combatants, and notes
+ * whether it wrapped past the end (a new round). Returns null when
+ * everyone is delayed.
+ */
+function findNextTurn(combatants: Combatant[], fromIndex: number) {
+  for (let step = 1; step <= combatants.length; step++) {
+    const index = fromIndex + step
+    const combatant = combatants[index % combatants.length]
+    if (!combatant.delayed) return { id: combatant.id, wrapped: index >= combatants.length }
+  }
+  return null
+}
+
+function advance(encounter: Encounter): Encounter {
+  const { combatants } = encounter
+  const currentIndex = combatants.findIndex((combatant) => combatant.id === encounter.currentId)
+  const next = findNextTurn(combatants, currentIndex)
+  if (!next) return { ...encounter, currentId: null }
+  return { ...encounter, currentId: next.id, round: encounter.round + (next.wrapped ? 1 : 0) }
+}
+
+/**
+ * startCombat / endCombat
+ * -----------------------
+ * Starting sorts everyone (stable, so full ties keep the order they were
+ * added in) and hands the first turn to the top of the order.
+ * Ending keeps the combatants and their rolls, ready for the next fight.
+ */
+export function startCombat(encounter: Encounter): Encounter {
+  const combatants = [...encounter.combatants]
+    .sort(compareInitiative)
+    .map((combatant) => ({ ...combatant, delayed: false }))
+  return {
+    combatants,
+    round: combatants.length > 0 ? 1 : 0,
+    currentId: combatants[0]?.id ?? null,
+  }
+}
+
+export function endCombat(encounter: Encounter): Encounter {
+  return {
+    combatants: encounter.combatants.map((combatant) => ({ ...combatant, delayed: false })),
+    round: 0,
+    currentId: null,
+  }
+}
+
+/**
+ * nextTurn
+ * --------
+ * The combatant whose turn is ending has their round-based conditions
+ * counted down first ("poisoned for 1 round" ends with their next turn).
+ */
+export function nextTurn(encounter: Encounter): Encounter {
+  if (!isInCombat(encounter) || encounter.combatants.length === 0) return encounter
+  const combatants = encounter.combatants.map((combatant) =>
+    combatant.id === encounter.currentId && combatant.conditions
+      ? { ...combatant, conditions: tickConditions(combatant.conditions) }
+      : combatant,
+  )
+  return advance({ ...encounter, combatants })
+}
+
+/**
+ * delayTurn / resumeTurn
+ * ----------------------
+ * Delaying steps out of the order; the turn passes on as usual.
+ * Resuming jumps back in *right now*: the combatant takes the current
+ * initiative count and acts before whoever was up, who then goes next.
+ */
+export function delayTurn(encounter: Encounter): Encounter {
+  if (encounter.currentId === null) return encounter
+  const combatants = encounter.combatants.map((combatant) =>
+    combatant.id === encounter.currentId ? { ...combatant, delayed: true } : combatant,
+  )
+  return advance({ ...encounter, combatants })
+}
+
+export function resumeTurn(encounter: Encounter, id: string): Encounter {
+  const combatant = encounter.combatants.find((other) => other.id === id)
+  if (!combatant?.delayed) return encounter
+  const current = encounter.combatants.find((other) => other.id === encounter.currentId)
+  const resumed = { ...combatant, delayed: false, initiative: current?.initiative ?? combatant.initiative }
+  const others = encounter.combatants.filter((other) => other.id !== id)
+  const index = current ? others.indexOf(current) : others.length
+  return {
+    ...encounter,
+    combatants: [...others.slice(0, index), resumed, ...others.slice(index)],
+    currentId: id,
+  }
+}
+
+/**
+ * removeCombatant
+ * ---------------
+ * If it was their turn, the turn passes on first.
+ */
+export function removeCombatant(encounter: Encounter, id: string): Encounter {
+  const passed = encounter.currentId === id ? advance(encounter) : encounter
+  const combatants = passed.combatants.filter((combatant) => combatant.id !== id)
+  return {
+    ...passed,
+    combatants,
+    currentId: passed.currentId === id ? null : passed.currentId,
+  }
+}
+
+/**
+ * updateCombatant
+ * ---------------
+ * Changes anything but the turn order - use setInitiative for that.
+ */
+export function updateCombatant(
+  encounter: Encounter,
+  id: string,
+  changes: Partial<Omit<Combatant, 'id' | 'initiative'>>,
+): Encounter {
+  return {
+    ...encounter,
+    combatants: encounter.combatants.map((combatant) => (combatant.id === id ? { ...combatant, ...changes } : combatant)),
+  }
+}
+
+/**
+ * endConcentration
+ * ----------------
+ * Removes every condition held up by this caster's concentration, on
+ * every combatant.
+ */
+export function endConcentration(encounter: Encounter, casterId: string): Encounter {
+  const held = (active: ActiveCondition) =>
+    active.duration.kind === 'concentration' && active.duration.casterId === casterId
+  return {
+    ...encounter,
+    combatants: encounter.combatants.map((combatant) =>
+      combatant.conditions?.some(held)
+        ? { ...combatant, conditions: combatant.conditions.filter((active) => !held(active)) }
+        : combatant,
+    ),
+  }
+}
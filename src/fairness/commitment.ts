@@ -0,0 +1,170 @@
+/**
+ * commitment.ts - Commit-Reveal Fairness Proofs
+ * =============================================
+ * How a player (or the GM) proves they didn't fudge a roll. The dice come
+ * from two halves of a seed, one from each side of the table:
+ *
+ *   1. Commit - before rolling, the player picks their half (the seed)
+ *      and publishes only its SHA-256 hash. The hash gives nothing away,
+ *      but pins the seed down: no other seed has that hash.
+ *   2. Nonce  - only once the hash has arrived does the table server pick
+ *      the other half, a random nonce, and send it to everyone.
+ *   3. Roll   - the dice come from seed and nonce together
+ *      (createRollDieRoller, the same path every roll in the app takes).
+ *   4. Reveal - the roll is shared with its seed and nonce. Anyone can
+ *      hash the seed and compare it with what was published, check the
+ *      nonce is the one the server sent, and roll the expression again
+ *      to compare the faces and total.
+ *
+ * Why two halves? With the seed alone, a player could try seeds offline
+ * until one starts with a natural 20, and commit to that one. Here the
+ * seed is fixed before the nonce exists, so nobody can know what the dice
+ * will show until it's too late to change their half.
+ *
+ * What it can't stop: a player who dislikes where a nonce points can leave
+ * that commitment unused and commit to a new seed. Every commitment goes
+ * to the whole table, though, so the verifier counts the ones a player
+ * never rolled with (a GM-only roll uses one up too, without sharing it).
+ */
+import {
+  DiceNotationError,
+  NO_MODIFIERS,
+  applyModifiers,
+  createRollDieRoller,
+  createRollSeed,
+  evaluateDiceExpression,
+  parseDiceNotation,
+} from '../dice'
+import type { RandomSource, RollModifiers } from '../dice'
+import { sha256Hex } from './sha256'
+
+/**
+ * SeedCommitment
+ * --------------
+ *   seed - kept private until the roll is made
+ *   hash - published straight away (see commitToSeed)
+ */
+export interface SeedCommitment {
+  seed: string
+  hash: string
+}
+
+/**
+ * PublishedCommitment
+ * -------------------
+ * A commitment as the table sees it: the hash, and the nonce the server
+ * picked after the hash arrived.
+ */
+export interface PublishedCommitment {
+  hash: string
+  nonce: string
+}
+
+// The published half of a commitment
+export function commitToSeed(seed: string): string {
+  return sha256Hex(seed)
+}
+
+export function createSeedCommitment(source: RandomSource): SeedCommitment {
+  const seed = createRollSeed(source)
+  return { seed, hash: commitToSeed(seed) }
+}
+
+/**
+ * RollVerification
+ * ----------------
+ *   verified   - a hash was published before the roll, and the seed
+ *                matches it and, with the nonce issued after it,
+ *                reproduces the roll
+ *   unverified - nothing contradicts the roll, but no hash was seen before
+ *                it, or the roll has no nonce (it was made before the
+ *                server's arrived), so the roller could have chosen the
+ *                dice
+ *   mismatch   - something doesn't add up; `problems` says what
+ */
+export type VerificationStatus = 'verified' | 'unverified' | 'mismatch'
+
+export interface RollVerification {
+  status: VerificationStatus
+  problems: string[]
+}
+
+/**
+ * RollClaim
+ * ---------
+ * What was shown for a roll, to check against its seed:
+ *   expression - the notation as rolled, roll mode already applied
+ *   nonce      - the nonce the roll was made with, if any
+ *   hash       - the commitment published before the roll, if one was seen
+ *   issuedNonce - the nonce the server sent after that hash, if known; the
+ *                roll must have used it
+ *   dice       - the faces shown, in order (optional)
+ *   total      - the total shown, after `modifiers` (optional)
+ */
+export interface RollClaim {
+  expression: string
+  seed: string
+  nonce?: string
+  hash?: string
+  issuedNonce?: string
+  dice?: { sides: number; value: number }[]
+  total?: number
+  modifiers?: RollModifiers
+}
+
+/**
+ * verifyRoll
+ * ----------
+ * Every check that can be made is made, so a mismatch lists everything
+ * wrong rather than just the first thing.
+ */
+export function verifyRoll({
+  expression,
+  seed,
+  nonce,
+  hash,
+  issuedNonce,
+  dice,
+  total,
+  modifiers = NO_MODIFIERS,
+}: RollClaim): RollVerification {
+  const problems: string[] = []
+
+  if (hash !== undefined && commitToSeed(seed) !== hash.trim().toLowerCase()) {
+    problems.push('The revealed seed does not match the hash published before the roll')
+  }
+  if (nonce !== undefined && issuedNonce !== undefined && nonce !== issuedNonce) {
+    problems.push(`The roll used nonce ${nonce}, not ${issuedNonce}, which the server sent after the hash`)
+  }
+
+  try {
+    const result = evaluateDiceExpression(parseDiceNotation(expression), createRollDieRoller(seed, nonce))
+    const rolled = result.terms.flatMap((term) => (term.kind === 'dice' ? term.rolls : []))
+
+    if (dice) {
+      if (dice.length !== rolled.length) {
+        problems.push(`${dice.length} dice were shown, but ${expression} rolls ${rolled.length}`)
+      } else {
+        dice.forEach((die, index) => {
+          const expected = rolled[index]
+          if (die.sides !== expected.sides || die.value !== expected.value) {
+            problems.push(
+              `Die ${index + 1} was shown as ${die.value} on a d${die.sides}; the seed gives ${expected.value} on a d${expected.sides}`,
+            )
+          }
+        })
+      }
+    }
+
+    const expectedTotal = applyModifiers(result, modifiers).total
+    if (total !== undefined && total !== expectedTotal) {
+      problems.push(`The total was shown as ${total}; the seed gives ${expectedTotal}`)
+    }
+  } catch (error) {
+    if (!(error instanceof DiceNotationError)) throw error
+    problems.push(`"${expression}" can't be rolled: ${error.message}`)
+  }
+
+  if (problems.length > 0) return { status: 'mismatch', problems }
+  return { status: hash === undefined || nonce === undefined ? 'unverified' : 'verified', problems }
+}
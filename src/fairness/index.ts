@@ -0,0 +1,10 @@
+/**
+ * index.ts - Fairness Barrel Export
+ * =================================
+ * Commit-reveal proofs that a roll wasn't fudged:
+ *
+ *   import { createSeedCommitment, verifyRoll } from './fairness'
+ */
+export { commitToSeed, createSeedCommitment, verifyRoll } from './commitment'
+export type { PublishedCommitment, RollClaim, RollVerification, SeedCommitment, VerificationStatus } from './commitment'
+export { sha256Hex } from './sha256'
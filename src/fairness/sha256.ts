@@ -0,0 +1,93 @@
+/**
+ * sha256.ts - SHA-256, Synchronously
+ * ==================================
+ * The hash behind seed commitments (see commitment.ts).
+ *
+ * WHY NOT crypto.subtle.digest?
+ * -----------------------------
+ * Browsers only provide crypto.subtle on "secure" pages - https, or
+ * localhost. A table on a home network is usually opened as
+ * http://192.168.1.20:5173, where it doesn't exist. It is also async,
+ * and a roll is made synchronously the moment a button is clicked.
+ * SHA-256 itself is short enough to carry here (FIPS 180-4).
+ *
+ * LEARNING POINT: `>>> 0` keeps every sum an unsigned 32-bit integer, as
+ * the standard's arithmetic is "modulo 2^32".
+ */
+
+// The first 32 bits of the fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+// The first 32 bits of the fractional parts of the square roots of the first 8 primes
+const INITIAL_HASH = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+
+const rotateRight = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits))
+
+/**
+ * sha256Hex
+ * ---------
+ * The SHA-256 of a string's UTF-8 bytes, as 64 lowercase hex digits -
+ * the same as `sha256sum` or any online SHA-256 tool gives.
+ */
+export function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+
+  // Padding: a 1 bit, zeros, then the length in bits, to a multiple of 64 bytes
+  const length = Math.ceil((bytes.length + 9) / 64) * 64
+  const padded = new Uint8Array(length)
+  padded.set(bytes)
+  padded[bytes.length] = 0x80
+  const view = new DataView(padded.buffer)
+  view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000))
+  view.setUint32(length - 4, (bytes.length * 8) >>> 0)
+
+  const hash = [...INITIAL_HASH]
+  const w = new Uint32Array(64)
+
+  for (let block = 0; block < length; block += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(block + i * 4)
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)
+      const choice = (e & f) ^ (~e & g)
+      const temp1 = (h + S1 + choice + K[i] + w[i]) >>> 0
+      const S0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)
+      const majority = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (S0 + majority) >>> 0
+      h = g
+      g = f
+      f = e
+      e = (d + temp1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) >>> 0
+    }
+
+    hash[0] = (hash[0] + a) >>> 0
+    hash[1] = (hash[1] + b) >>> 0
+    hash[2] = (hash[2] + c) >>> 0
+    hash[3] = (hash[3] + d) >>> 0
+    hash[4] = (hash[4] + e) >>> 0
+    hash[5] = (hash[5] + f) >>> 0
+    hash[6] = (hash[6] + g) >>> 0
+    hash[7] = (hash[7] + h) >>> 0
+  }
+
+  return hash.map((word) => word.toString(16).padStart(8, '0')).join('')
+}
@@ -0,0 +1,20 @@
+/**
+ * index.ts - Roll History Barrel Export
+ * =====================================
+ * Records, storage and export for the roll history:
+ *
+ *   import { createRollRecord, rollHistoryToCSV } from './history'
+ */
+export {
+  createRollRecord,
+  loadRollHistory,
+  saveRollHistory,
+  getHistoryDieTypes,
+  rollUsesDie,
+  formatRecordDice,
+  rollHistoryToJSON,
+  rollHistoryToCSV,
+  downloadTextFile,
+  MAX_HISTORY,
+} from './rollHistory'
+export type { RollRecord } from './rollHistory'
@@ -0,0 +1,238 @@
+/**
+ * rollHistory.ts - Roll History Records, Storage & Export
+ * =======================================================
+ * Every roll is kept as a small RollRecord so it survives clicking again,
+ * reloading the page, or closing the browser.
+ *
+ *   createRollRecord   - RollResult (from the dice engine) -> RollRecord
+ *   loadRollHistory    - read the saved records from localStorage
+ *   saveRollHistory    - write them back
+ *   rollHistoryToJSON  - export for tools and backups
+ *   rollHistoryToCSV   - export for spreadsheets and session recaps
+ */
+import { formatDiceNotation } from '../dice'
+import type { ModifiedRoll, RollResult } from '../dice'
+
+/**
+ * RollRecord
+ * ----------
+ * One roll, as it is stored.
+ *   timestamp  - when it was rolled, in milliseconds since 1970 (Date.now())
+ *   expression - the normalised notation, e.g. "4d6kh3+2"
+ *   dice       - every die rolled, in order; `kept` is false for dropped dice
+ *   modifier   - the flat numbers added or subtracted, e.g. +2
+ *   total      - the final result, after any modifiers (see modifiers.ts)
+ *   breakdown  - how the total was reached: "2d6 (4+5) ×2 crit +3 = 21"
+ *   failed     - the roll failed whatever its total - a paralyzed
+ *                creature's DEX save, say (see src/conditions)
+ *   label      - what the roll was for ("Longsword attack"), when known
+ *   seed       - the seed its dice were rolled from (see createRollSeed)
+ *   nonce      - the table server's half of the seed, mixed in at a
+ *                shared table (see src/fairness)
+ *   commitment - the hash of the seed, published before the roll (see
+ *                src/fairness) - ours, or the one the roller published
+ *   roller     - who rolled it, for rolls shared from another player's table
+ */
+export interface RollRecord {
+  id: string
+  timestamp: number
+  expression: string
+  dice: { sides: number; value: number; kept: boolean }[]
+  modifier: number
+  total: number
+  breakdown?: string
+  failed?: boolean
+  label?: string
+  seed?: string
+  nonce?: string
+  commitment?: string
+  roller?: string
+}
+
+const STORAGE_KEY = 'dnd-application:roll-history'
+
+// The oldest rolls are forgotten past this many, so storage can't fill up
+export const MAX_HISTORY = 1000
+
+/**
+ * createRollRecord
+ * ----------------
+ * Flattens a RollResult into a record. The expression is rebuilt from the
+ * result, so "2D6 + 3" and "2d6+3" are stored the same way.
+ *   modified - the result after bonuses, crits etc. (see applyModifiers)
+ *   bonus    - flat numbers the modifiers added on top of the expression
+ *   failed   - a condition failed the roll whatever the dice say
+ *   seed     - the seed the dice came from, so the roll can be replayed
+ *   nonce    - the server's nonce mixed into the seed, if any
+ *   commitment - the seed's hash, published before the roll
+ */
+export function createRollRecord(
+  result: RollResult,
+  {
+    label,
+    modified,
+    bonus = 0,
+    failed,
+    seed,
+    nonce,
+    commitment,
+  }: {
+    label?: string
+    modified?: ModifiedRoll
+    bonus?: number
+    failed?: boolean
+    seed?: string
+    nonce?: string
+    commitment?: string
+  } = {},
+): RollRecord {
+  const constants = result.terms.reduce((sum, term) => (term.kind === 'constant' ? sum + term.sign * term.subtotal : sum), 0)
+  const record: RollRecord = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    expression: formatDiceNotation({ terms: result.terms.map(({ sign, term }) => ({ sign, term })) }),
+    dice: result.terms.flatMap((term) => (term.kind === 'dice' ? term.rolls.map((roll) => ({ ...roll })) : [])),
+    modifier: constants + bonus,
+    total: modified?.total ?? result.total,
+  }
+  if (modified) record.breakdown = modified.breakdown
+  if (failed) record.failed = true
+  if (label) record.label = label
+  if (seed) record.seed = seed
+  if (nonce) record.nonce = nonce
+  if (commitment) record.commitment = commitment
+  return record
+}
+
+/**
+ * isRollRecord
+ * ------------
+ * localStorage can hold anything (an older version's data, a hand edit...),
+ * so each saved record is checked before it is trusted - every die in it
+ * too, since the panel reads each one's sides and value.
+ */
+function isRecordedDie(value: unknown): value is RollRecord['dice'][number] {
+  if (typeof value !== 'object' || value === null) return false
+  const die = value as Partial<RollRecord['dice'][number]>
+  return typeof die.sides === 'number' && typeof die.value === 'number' && typeof die.kept === 'boolean'
+}
+
+function isRollRecord(value: unknown): value is RollRecord {
+  if (typeof value !== 'object' || value === null) return false
+  const record = value as Partial<RollRecord>
+  return (
+    typeof record.id === 'string' &&
+    typeof record.timestamp === 'number' &&
+    typeof record.expression === 'string' &&
+    Array.isArray(record.dice) &&
+    record.dice.every(isRecordedDie) &&
+    typeof record.modifier === 'number' &&
+    typeof record.total === 'number' &&
+    // Shown as text, so anything else in them would break the panel
+    [record.breakdown, record.label, record.roller].every((text) => text === undefined || typeof text === 'string')
+  )
+}
+
+/**
+ * loadRollHistory / saveRollHistory
+ * ---------------------------------
+ * Records are stored newest first as one JSON array. Storage can be
+ * unavailable (private browsing, full quota), in which case history simply
+ * lasts until the page is closed.
+ */
+export function loadRollHistory(): RollRecord[] {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    return Array.isArray(saved) ? saved.filter(isRollRecord) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveRollHistory(records: RollRecord[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(0, MAX_HISTORY)))
+  } catch {
+    // Storage unavailable - keep going with in-memory history
+  }
+}
+
+/**
+ * Filtering by Die Type
+ * ---------------------
+ * getHistoryDieTypes: every kind of die that appears, smallest first,
+ *                     for the filter's options
+ * rollUsesDie:        does this roll include at least one d`sides`?
+ */
+export function getHistoryDieTypes(records: RollRecord[]): number[] {
+  const sides = new Set(records.flatMap((record) => record.dice.map((die) => die.sides)))
+  return [...sides].sort((a, b) => a - b)
+}
+
+export function rollUsesDie(record: RollRecord, sides: number): boolean {
+  return record.dice.some((die) => die.sides === sides)
+}
+
+/**
+ * formatRecordDice
+ * ----------------
+ * The faces as text, dropped dice in brackets: "d20: 17, (4)".
+ * Dice of different sizes are grouped: "d8: 3, 6 | d6: 2".
+ */
+export function formatRecordDice(record: RollRecord): string {
+  const groups = new Map<number, string[]>()
+  for (const die of record.dice) {
+    const faces = groups.get(die.sides) ?? []
+    faces.push(die.kept ? String(die.value) : `(${die.value})`)
+    groups.set(die.sides, faces)
+  }
+  return [...groups].map(([sides, faces]) => `d${sides}: ${faces.join(', ')}`).join(' | ')
+}
+
+/**
+ * Export Formats
+ * --------------
+ * JSON keeps every detail. CSV has one row per roll and quotes every text
+ * field, doubling any quotes inside it, as spreadsheets expect.
+ */
+export function rollHistoryToJSON(records: RollRecord[]): string {
+  return JSON.stringify(records, null, 2)
+}
+
+const CSV_COLUMNS = ['timestamp', 'label', 'expression', 'dice', 'modifier', 'total', 'breakdown']
+
+function csvField(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/"/g, '""')}"`
+}
+
+export function rollHistoryToCSV(records: RollRecord[]): string {
+  const rows = records.map((record) =>
+    [
+      new Date(record.timestamp).toISOString(),
+      record.label ?? '',
+      record.expression,
+      formatRecordDice(record),
+      record.modifier,
+      record.total,
+      record.breakdown ?? '',
+    ]
+      .map(csvField)
+      .join(','),
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+/**
+ * downloadTextFile
+ * ----------------
+ * Saves text as a file: wrap it in a Blob, point a temporary link at it
+ * and click the link.
+ */
+export function downloadTextFile(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,257 @@
+/**
+ * hitPoints.ts - Hit Points, Damage & Death Saves
+ * ===============================================
+ * The D&D 5e rules for taking damage and healing, as pure functions that
+ * return new HitPoints rather than changing the old ones:
+ *
+ *   applyDamage    resistance / immunity / vulnerability, temporary HP,
+ *                  dropping to 0, massive damage, damage while dying
+ *   applyHealing   capped at maximum HP; wakes a dying creature up
+ *   grantTempHp    temporary HP don't stack - keep the higher amount
+ *   applyDeathSave a d20 at 0 HP: 10+ succeeds, 20 revives, 1 fails twice
+ */
+
+export const DAMAGE_TYPES = [
+  'acid',
+  'bludgeoning',
+  'cold',
+  'fire',
+  'force',
+  'lightning',
+  'necrotic',
+  'piercing',
+  'poison',
+  'psychic',
+  'radiant',
+  'slashing',
+  'thunder',
+] as const
+
+export type DamageType = (typeof DAMAGE_TYPES)[number]
+
+export function isDamageType(value: string): value is DamageType {
+  return (DAMAGE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Defenses
+ * --------
+ * Damage types a creature shrugs off (immune), takes half from
+ * (resistant) or takes double from (vulnerable).
+ */
+export interface Defenses {
+  immunities: DamageType[]
+  resistances: DamageType[]
+  vulnerabilities: DamageType[]
+}
+
+export const NO_DEFENSES: Defenses = { immunities: [], resistances: [], vulnerabilities: [] }
+
+// For saved data: three lists of damage types, as adjustForDefenses expects
+export function isDefenses(value: unknown): value is Defenses {
+  if (typeof value !== 'object' || value === null) return false
+  const defenses = value as Partial<Defenses>
+  const isTypes = (types: unknown) =>
+    Array.isArray(types) && types.every((type) => typeof type === 'string' && isDamageType(type))
+  return isTypes(defenses.immunities) && isTypes(defenses.resistances) && isTypes(defenses.vulnerabilities)
+}
+
+/**
+ * HitPoints
+ * ---------
+ *   current     - 0 means down: dying, stable or dead
+ *   temp        - temporary HP, lost before real HP
+ *   deathSaves  - successes and failures, three of either ends it
+ *   stable      - at 0 HP but no longer rolling death saves
+ *   dead        - no more rolling, no more healing
+ */
+export interface HitPoints {
+  current: number
+  max: number
+  temp: number
+  deathSaves: { successes: number; failures: number }
+  stable: boolean
+  dead: boolean
+}
+
+const NO_DEATH_SAVES = { successes: 0, failures: 0 }
+
+export function createHitPoints(max: number, current = max): HitPoints {
+  return { current, max, temp: 0, deathSaves: NO_DEATH_SAVES, stable: false, dead: false }
+}
+
+/**
+ * isHitPoints
+ * -----------
+ * For saved data (characters, the encounter), which can be anything: HP
+ * the tracker can do its sums with - whole numbers, at least 1 maximum.
+ */
+const isCount = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min
+
+export function isHitPoints(value: unknown): value is HitPoints {
+  if (typeof value !== 'object' || value === null) return false
+  const hp = value as Partial<HitPoints>
+  return (
+    isCount(hp.max, 1) &&
+    isCount(hp.current, 0) &&
+    isCount(hp.temp, 0) &&
+    typeof hp.deathSaves === 'object' &&
+    hp.deathSaves !== null &&
+    isCount(hp.deathSaves.successes, 0) &&
+    isCount(hp.deathSaves.failures, 0) &&
+    typeof hp.stable === 'boolean' &&
+    typeof hp.dead === 'boolean'
+  )
+}
+
+/**
+ * Status
+ * ------
+ * dying = at 0 HP, not yet stable or dead - the only time death saves are rolled.
+ */
+export type HitPointStatus = 'healthy' | 'dying' | 'stable' | 'dead'
+
+export function getHitPointStatus(hp: HitPoints): HitPointStatus {
+  if (hp.dead) return 'dead'
+  if (hp.current > 0) return 'healthy'
+  return hp.stable ? 'stable' : 'dying'
+}
+
+/**
+ * adjustForDefenses
+ * -----------------
+ * Immunity wins outright. Otherwise resistance halves (rounded down) and
+ * vulnerability doubles - and a creature with both gets both, in that order.
+ */
+export function adjustForDefenses(amount: number, type: DamageType, defenses: Defenses): number {
+  if (defenses.immunities.includes(type)) return 0
+  let adjusted = amount
+  if (defenses.resistances.includes(type)) adjusted = Math.floor(adjusted / 2)
+  if (defenses.vulnerabilities.includes(type)) adjusted *= 2
+  return adjusted
+}
+
+function addFailures(hp: HitPoints, count: number): HitPoints {
+  const failures = Math.min(3, hp.deathSaves.failures + count)
+  return { ...hp, stable: false, deathSaves: { ...hp.deathSaves, failures }, dead: failures >= 3 }
+}
+
+/**
+ * applyDamage
+ * -----------
+ *   amount          - the rolled damage total, before defenses
+ *   critical        - a critical hit counts as two death save failures
+ *   usesDeathSaves  - player characters roll death saves at 0 HP; most
+ *                     monsters simply die
+ *
+ * Returns the new hit points and a one-line summary for the tracker,
+ * e.g. "12 fire → ½ resist = 6 → 4 to temp HP → 2 taken".
+ *
+ * MASSIVE DAMAGE:
+ * ---------------
+ * Whatever is left over after dropping to 0 HP (or all of it, when
+ * already at 0) kills outright if it is at least the maximum HP.
+ */
+export function applyDamage(
+  hp: HitPoints,
+  amount: number,
+  type: DamageType,
+  defenses: Defenses,
+  { critical = false, usesDeathSaves = true }: { critical?: boolean; usesDeathSaves?: boolean } = {},
+): { hitPoints: HitPoints; summary: string } {
+  const steps = [`${amount} ${type}`]
+  const adjusted = adjustForDefenses(Math.max(0, amount), type, defenses)
+  if (defenses.immunities.includes(type)) {
+    steps.push('immune')
+  } else {
+    // Same notation as the roll breakdown: "½ resist = 6", "×2 vuln = 12"
+    let running = Math.max(0, amount)
+    if (defenses.resistances.includes(type)) {
+      running = Math.floor(running / 2)
+      steps.push(`½ resist = ${running}`)
+    }
+    if (defenses.vulnerabilities.includes(type)) {
+      running *= 2
+      steps.push(`×2 vuln = ${running}`)
+    }
+  }
+
+  if (hp.dead || adjusted === 0) {
+    return { hitPoints: hp, summary: steps.join(' → ') }
+  }
+
+  // Temporary HP soak up damage first
+  const absorbed = Math.min(hp.temp, adjusted)
+  const remaining = adjusted - absorbed
+  if (absorbed > 0) steps.push(`${absorbed} to temp HP`)
+  let next: HitPoints = { ...hp, temp: hp.temp - absorbed }
+  if (remaining === 0) return { hitPoints: next, summary: steps.join(' → ') }
+  steps.push(`${remaining} taken`)
+
+  // Already down: any damage is a failed death save - or death outright
+  if (hp.current === 0) {
+    if (remaining >= hp.max || !usesDeathSaves) {
+      next = { ...next, dead: true }
+      steps.push(remaining >= hp.max ? 'massive damage: dead' : 'dead')
+    } else {
+      next = addFailures(next, critical ? 2 : 1)
+      steps.push(next.dead ? 'dead' : `${critical ? 2 : 1} death save failure${critical ? 's' : ''}`)
+    }
+    return { hitPoints: next, summary: steps.join(' → ') }
+  }
+
+  const overflow = remaining - hp.current
+  if (overflow < 0) {
+    next = { ...next, current: hp.current - remaining }
+  } else if (overflow >= hp.max) {
+    next = { ...next, current: 0, dead: true }
+    steps.push('massive damage: dead')
+  } else if (!usesDeathSaves) {
+    next = { ...next, current: 0, dead: true }
+    steps.push('dead')
+  } else {
+    next = { ...next, current: 0, stable: false, deathSaves: NO_DEATH_SAVES }
+    steps.push('down and dying')
+  }
+  return { hitPoints: next, summary: steps.join(' → ') }
+}
+
+/**
+ * applyHealing
+ * ------------
+ * Healing never goes past maximum HP and can't bring back the dead. Any
+ * healing at all gets a dying creature back on its feet.
+ */
+export function applyHealing(hp: HitPoints, amount: number): HitPoints {
+  if (hp.dead || amount <= 0) return hp
+  return {
+    ...hp,
+    current: Math.min(hp.max, hp.current + amount),
+    deathSaves: NO_DEATH_SAVES,
+    stable: false,
+  }
+}
+
+export function grantTempHp(hp: HitPoints, amount: number): HitPoints {
+  return { ...hp, temp: Math.max(hp.temp, amount) }
+}
+
+/**
+ * applyDeathSave
+ * --------------
+ *   natural - the face on the d20
+ *   total   - the d20 plus any bonus (usually none)
+ *
+ * Natural 20: back up with 1 HP. Natural 1: two failures.
+ * Otherwise 10 or higher is a success. Three successes make the creature
+ * stable; three failures, dead.
+ */
+export function applyDeathSave(hp: HitPoints, natural: number, total: number): HitPoints {
+  if (getHitPointStatus(hp) !== 'dying') return hp
+  if (natural === 20) return { ...hp, current: 1, deathSaves: NO_DEATH_SAVES, stable: false }
+  if (natural === 1) return addFailures(hp, 2)
+  if (total < 10) return addFailures(hp, 1)
+  const successes = hp.deathSaves.successes + 1
+  return { ...hp, deathSaves: { ...hp.deathSaves, successes }, stable: successes >= 3 }
+}
@@ -0,0 +1,22 @@
+/**
+ * index.ts - Hit Points Barrel Export
+ * ===================================
+ * Damage, healing and death saves:
+ *
+ *   import { applyDamage, applyHealing } from './hitpoints'
+ */
+export {
+  DAMAGE_TYPES,
+  NO_DEFENSES,
+  isDamageType,
+  isDefenses,
+  createHitPoints,
+  isHitPoints,
+  getHitPointStatus,
+  adjustForDefenses,
+  applyDamage,
+  applyHealing,
+  grantTempHp,
+  applyDeathSave,
+} from './hitPoints'
+export type { DamageType, Defenses, HitPoints, HitPointStatus } from './hitPoints'
@@ -33,6 +33,16 @@ import './index.css'
  */
 import App from './App.tsx'
 
+/**
+ * Presenter Display
+ * -----------------
+ * Opened with ?display in the URL, the page is the players' screen for
+ * presenter mode - only the dice, driven from the GM's window - instead
+ * of the whole app.
+ */
+import { PresenterDisplay } from './components/presenter'
+import { isDisplayWindow } from './presenter'
+
 /**
  * createRoot & render
  * -------------------
@@ -58,6 +68,6 @@ createRoot(document.getElementById('root')!).render(
    * that's StrictMode doing its job to help you find bugs!
    */
   <StrictMode>
-    <App />
+    {isDisplayWindow() ? <PresenterDisplay /> : <App />}
   </StrictMode>,
 )
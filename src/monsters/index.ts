@@ -0,0 +1,29 @@
+/**
+ * index.ts - Monsters Barrel Export
+ * =================================
+ * Stat blocks: the model, SRD and app-format files, and storage:
+ *
+ *   import { parseMonsters, actionToAttackMacro } from './monsters'
+ */
+export {
+  createMonsterId,
+  monsterSaveBonus,
+  monsterSkills,
+  formatChallengeRating,
+  getMonsterDefenses,
+  actionToAttackMacro,
+  numberMonsterName,
+  isNumberedMonster,
+  splitDiceText,
+} from './monster'
+export type { Monster, MonsterAction, MonsterDamage, MonsterTrait, TextPart } from './monster'
+export {
+  MONSTER_FORMAT,
+  MONSTER_FORMAT_VERSION,
+  MonsterImportError,
+  parseMonsters,
+  monsterToJSON,
+  isValidMonster,
+} from './monsterImport'
+export { loadMonsters, saveMonsters } from './monsterStorage'
+export type { MonsterLibrary } from './monsterStorage'
@@ -0,0 +1,212 @@
+/**
+ * monster.ts - Monster Stat Blocks
+ * ================================
+ * A monster as the app keeps it: the stat block from the Monster Manual
+ * or the SRD, with every bonus written out as printed - a monster's saves
+ * and skills don't follow a character's proficiency rules, so nothing is
+ * worked out from a level.
+ *
+ * Stat blocks are imported rather than typed in (see monsterImport.ts),
+ * and rolled from: checks, saves, skills, attacks and any dice in the
+ * text ("takes 2d6 fire damage") all roll through the Scene.
+ */
+import type { AttackMacro } from '../attacks'
+import { SKILLS, abilityModifier } from '../character'
+import type { Ability, SkillId } from '../character'
+import { NO_DEFENSES, isDamageType } from '../hitpoints'
+import type { Defenses } from '../hitpoints'
+
+/**
+ * MonsterAction
+ * -------------
+ * One entry under Actions (or Reactions, Legendary Actions...):
+ *   toHit  - the attack bonus, for an attack roll
+ *   damage - the damage on a hit (or on a failed save), e.g.
+ *            [{ dice: "1d8+2", type: "piercing" }, { dice: "2d6", type: "poison" }]
+ *   save   - the saving throw targets make, e.g. { ability: "dex", dc: 13 }
+ */
+export interface MonsterDamage {
+  dice: string
+  type: string
+}
+
+export interface MonsterAction {
+  name: string
+  description: string
+  toHit?: number
+  damage?: MonsterDamage[]
+  save?: { ability: Ability; dc: number }
+}
+
+// A trait (Keen Smell, Pack Tactics...) - only ever read, though its text may hold dice
+export interface MonsterTrait {
+  name: string
+  description: string
+}
+
+/**
+ * Monster
+ * -------
+ *   hitPoints      - the printed average and the dice it comes from
+ *                    ("7 (2d6)"); the dice are missing for a few monsters
+ *   savingThrows   - only the saves printed in the stat block; any other
+ *                    save is the plain ability modifier
+ *   skills         - likewise, only the printed ones
+ *   challengeRating - 0.125, 0.25 and 0.5 for CR 1/8, 1/4 and 1/2
+ *   damage...      - as printed: "fire", or "bludgeoning, piercing, and
+ *                    slashing from nonmagical attacks"
+ */
+export interface Monster {
+  id: string
+  name: string
+  meta: string // "Small humanoid (goblinoid), neutral evil"
+  armorClass: number
+  armorNote?: string // "leather armor, shield"
+  hitPoints: { average: number; dice?: string }
+  speed: string
+  abilityScores: Record<Ability, number>
+  savingThrows: Partial<Record<Ability, number>>
+  skills: Partial<Record<SkillId, number>>
+  damageVulnerabilities: string[]
+  damageResistances: string[]
+  damageImmunities: string[]
+  conditionImmunities: string[]
+  senses: string
+  languages: string
+  challengeRating: number
+  traits: MonsterTrait[]
+  actions: MonsterAction[]
+  reactions: MonsterAction[]
+  legendaryActions: MonsterAction[]
+}
+
+export function createMonsterId(): string {
+  return `monster-${crypto.randomUUID()}`
+}
+
+/**
+ * Bonuses
+ * -------
+ * A printed bonus if there is one, otherwise the ability modifier.
+ */
+export function monsterSaveBonus(monster: Monster, ability: Ability): number {
+  return monster.savingThrows[ability] ?? abilityModifier(monster.abilityScores[ability])
+}
+
+// The printed skills, in the order the Player's Handbook lists them
+export function monsterSkills(monster: Monster): { id: SkillId; name: string; ability: Ability; bonus: number }[] {
+  return SKILLS.flatMap((skill) => {
+    const bonus = monster.skills[skill.id]
+    return bonus === undefined ? [] : [{ ...skill, bonus }]
+  })
+}
+
+/**
+ * formatChallengeRating
+ * ---------------------
+ * 0.25 -> "1/4". Stat blocks print fractions, not decimals.
+ */
+export function formatChallengeRating(rating: number): string {
+  const fractions: Record<string, string> = { '0.125': '1/8', '0.25': '1/4', '0.5': '1/2' }
+  return fractions[String(rating)] ?? String(rating)
+}
+
+/**
+ * getMonsterDefenses
+ * ------------------
+ * The defenses the HP tracker can apply. Only plain damage types carry
+ * over: "slashing from nonmagical attacks" depends on the weapon, which
+ * the tracker can't know, so it stays as text in the stat block for the
+ * GM to apply by hand.
+ */
+export function getMonsterDefenses(monster: Monster): Defenses {
+  const plain = (entries: string[]) => entries.map((entry) => entry.trim().toLowerCase()).filter(isDamageType)
+  return {
+    ...NO_DEFENSES,
+    immunities: plain(monster.damageImmunities),
+    resistances: plain(monster.damageResistances),
+    vulnerabilities: plain(monster.damageVulnerabilities),
+  }
+}
+
+/**
+ * actionToAttackMacro
+ * -------------------
+ * An attack action as a macro, so it rolls like any other attack: the d20
+ * against the target's AC, then the damage on a hit. Null for an action
+ * that isn't an attack roll.
+ *
+ * Several damage entries ("1d8+2 piercing plus 2d6 poison") are rolled
+ * together as one total, and resistance or immunity can only be applied
+ * to a total as a whole - so when their types differ, the type names them
+ * all and the damage roll carries a note saying so. The stat block's
+ * buttons roll each entry on its own, for a target it matters to.
+ */
+export function actionToAttackMacro(monster: Monster, action: MonsterAction, id: string): AttackMacro | null {
+  if (action.toHit === undefined) return null
+  const damage = action.damage ?? []
+  const types = [...new Set(damage.map((part) => part.type).filter(Boolean))]
+  return {
+    id,
+    name: `${monster.name}: ${action.name}`,
+    toHit: action.toHit,
+    damage: damage.length > 0 ? damage.map((part) => part.dice).join('+') : '0',
+    damageType: types.join(' + '),
+    ...(types.length > 1 && {
+      damageNote: `${types.join(' and ')} in one total - any resistance applies to all of it`,
+    }),
+  }
+}
+
+/**
+ * numberMonsterName
+ * -----------------
+ * Three goblins in one fight need telling apart: the first keeps its
+ * name, the rest become "Goblin 2", "Goblin 3"...
+ */
+export function numberMonsterName(name: string, takenNames: string[]): string {
+  const taken = new Set(takenNames)
+  if (!taken.has(name)) return name
+  let number = 2
+  while (taken.has(`${name} ${number}`)) number++
+  return `${name} ${number}`
+}
+
+// The other way round: is "Goblin 2" one of the goblins numberMonsterName named?
+export function isNumberedMonster(name: string, monsterName: string): boolean {
+  if (name === monsterName) return true
+  return name.startsWith(`${monsterName} `) && /^\d+$/.test(name.slice(monsterName.length + 1))
+}
+
+/**
+ * splitDiceText
+ * -------------
+ * Breaks a description into plain text and dice, so the dice can be shown
+ * as roll buttons:
+ *
+ *   "Hit: 5 (1d6 + 2) slashing damage."
+ *     -> "Hit: 5 (", dice "1d6+2", ") slashing damage."
+ *   "7 (1d6 + 12d4) fire"
+ *     -> "7 (", dice "1d6", " + ", dice "12d4", ") fire"
+ *
+ * A number followed by "d" starts the next dice, not the bonus, however
+ * many digits it has.
+ *
+ * Spaces inside the dice are dropped from the notation but kept in the
+ * text, so the description reads exactly as printed.
+ */
+export type TextPart = { kind: 'text'; text: string } | { kind: 'dice'; text: string; notation: string }
+
+const DICE_IN_TEXT = /\b\d*d\d+(?:\s*[+-]\s*\d+\b(?!\s*d))?/g
+
+export function splitDiceText(text: string): TextPart[] {
+  const parts: TextPart[] = []
+  let last = 0
+  for (const match of text.matchAll(DICE_IN_TEXT)) {
+    if (match.index > last) parts.push({ kind: 'text', text: text.slice(last, match.index) })
+    parts.push({ kind: 'dice', text: match[0], notation: match[0].replace(/\s+/g, '') })
+    last = match.index + match[0].length
+  }
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) })
+  return parts
+}
@@ -0,0 +1,477 @@
+/**
+ * monsterImport.ts - Monster Files
+ * ================================
+ * Stat blocks come in as JSON, in either of two formats. A file can hold
+ * one monster or an array of them, and the formats can be mixed.
+ *
+ * SRD 5E FORMAT
+ * -------------
+ * The monsters of the 5e System Reference Document as published by the
+ * 5e-database project and the dnd5eapi.co API (5e-SRD-Monsters.json, or
+ * /api/monsters/goblin). Recognised by its "hit_points" and "strength"
+ * fields. Saves and skills are read from "proficiencies", attacks from
+ * each action's "attack_bonus" and "damage", saving throws from "dc".
+ *
+ * APP FORMAT
+ * ----------
+ * What Export writes, and the easiest format to write by hand. Only
+ * "format", "version", "name", "armorClass", "hitPoints" and
+ * "abilityScores" are required:
+ *
+ *   {
+ *     "format": "dnd-application/monster",
+ *     "version": 1,
+ *     "name": "Goblin",
+ *     "meta": "Small humanoid (goblinoid), neutral evil",
+ *     "armorClass": 15,
+ *     "armorNote": "leather armor, shield",
+ *     "hitPoints": { "average": 7, "dice": "2d6" },
+ *     "speed": "30 ft.",
+ *     "abilityScores": { "str": 8, "dex": 14, "con": 10, "int": 10, "wis": 8, "cha": 8 },
+ *     "savingThrows": { "dex": 4 },
+ *     "skills": { "stealth": 6 },
+ *     "damageVulnerabilities": [],
+ *     "damageResistances": [],
+ *     "damageImmunities": [],
+ *     "conditionImmunities": [],
+ *     "senses": "darkvision 60 ft., passive Perception 9",
+ *     "languages": "Common, Goblin",
+ *     "challengeRating": "1/4",
+ *     "traits": [{ "name": "Nimble Escape", "description": "The goblin can take the Disengage..." }],
+ *     "actions": [
+ *       {
+ *         "name": "Scimitar",
+ *         "description": "Melee Weapon Attack: +4 to hit, reach 5 ft., one target. Hit: 5 (1d6 + 2) slashing damage.",
+ *         "toHit": 4,
+ *         "damage": [{ "dice": "1d6+2", "type": "slashing" }]
+ *       }
+ *     ],
+ *     "reactions": [],
+ *     "legendaryActions": []
+ *   }
+ *
+ *   savingThrows / skills - printed bonuses only, keyed by ability
+ *                           ("str"...) and skill ("sleight-of-hand"...)
+ *   challengeRating       - a number, or "1/8", "1/4", "1/2"
+ *   an action's "save"    - { "ability": "dex", "dc": 13 }, for actions
+ *                           that call for a saving throw
+ *
+ * Every monster in a file is checked field by field (see src/validation),
+ * and a bad file says what's wrong ("Goblin: armorClass: expected a
+ * number") rather than importing half a stat block.
+ */
+import { ABILITIES, SKILLS, abilityModifier, formatBonus } from '../character'
+import type { Ability, SkillId } from '../character'
+import { DiceNotationError, parseDiceNotation } from '../dice'
+import { createMonsterId } from './monster'
+import type { Monster, MonsterAction, MonsterDamage, MonsterTrait } from './monster'
+import { isFields, readInteger, readText } from '../validation'
+import type { Fields } from '../validation'
+
+export const MONSTER_FORMAT = 'dnd-application/monster'
+export const MONSTER_FORMAT_VERSION = 1
+
+/**
+ * MonsterImportError
+ * ------------------
+ * Thrown by parseMonsters with every problem found, each naming the
+ * monster and field it's about.
+ */
+export class MonsterImportError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Not a valid monster file - ${problems.join('; ')}`)
+    this.name = 'MonsterImportError'
+    this.problems = problems
+  }
+}
+
+const isAbility = (value: unknown): value is Ability => ABILITIES.some(({ id }) => id === value)
+const isSkill = (value: unknown): value is SkillId => SKILLS.some(({ id }) => id === value)
+
+// "3d6+2" is fine; "3 dee 6" is a problem
+function checkDice(dice: string, field: string, problems: string[]) {
+  try {
+    parseDiceNotation(dice)
+  } catch (error) {
+    if (!(error instanceof DiceNotationError)) throw error
+    problems.push(`${field}: "${dice}" is not dice notation (${error.message})`)
+  }
+}
+
+// Like the field readers in src/validation, for a list of text
+function readTextList(fields: Fields, field: string, problems: string[]): string[] {
+  const value = fields[field]
+  if (value === undefined) return []
+  if (Array.isArray(value) && value.every((entry) => typeof entry === 'string')) return value.map((entry) => entry.trim())
+  problems.push(`${field}: expected a list of text`)
+  return []
+}
+
+function readChallengeRating(value: unknown, field: string, problems: string[]): number {
+  if (typeof value === 'number' && value >= 0) return value
+  const fraction = typeof value === 'string' ? /^\s*1\s*\/\s*(2|4|8)\s*$/.exec(value) : null
+  if (fraction) return 1 / Number(fraction[1])
+  if (typeof value === 'string' && /^\s*\d+\s*$/.test(value)) return Number(value)
+  problems.push(`${field}: expected a number, or "1/8", "1/4" or "1/2"`)
+  return 0
+}
+
+function readAbilityScores(value: unknown, field: string, problems: string[]): Record<Ability, number> {
+  const scores = { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 }
+  if (!isFields(value)) {
+    problems.push(`${field}: expected all six scores, e.g. { "str": 10, "dex": 12, ... }`)
+    return scores
+  }
+  for (const { id } of ABILITIES) scores[id] = readInteger(value[id], `${field}.${id}`, problems, 1)
+  return scores
+}
+
+/**
+ * Native Format
+ * -------------
+ */
+function readBonuses<Key extends string>(
+  fields: Fields,
+  field: string,
+  isKey: (key: string) => key is Key,
+  problems: string[],
+): Partial<Record<Key, number>> {
+  const value = fields[field]
+  if (value === undefined) return {}
+  if (!isFields(value)) {
+    problems.push(`${field}: expected bonuses by name, e.g. { "dex": 4 }`)
+    return {}
+  }
+  const bonuses: Partial<Record<Key, number>> = {}
+  for (const [key, bonus] of Object.entries(value)) {
+    if (!isKey(key)) problems.push(`${field}.${key}: unknown name`)
+    else bonuses[key] = readInteger(bonus, `${field}.${key}`, problems)
+  }
+  return bonuses
+}
+
+function readTraits(fields: Fields, field: string, problems: string[]): MonsterTrait[] {
+  const value = fields[field]
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    problems.push(`${field}: expected a list`)
+    return []
+  }
+  return value.map((entry: unknown, index) => {
+    const path = `${field}[${index}]`
+    if (!isFields(entry)) {
+      problems.push(`${path}: expected { "name": ..., "description": ... }`)
+      return { name: '', description: '' }
+    }
+    const entryProblems: string[] = []
+    const trait = {
+      name: readText(entry, 'name', entryProblems, true),
+      description: readText(entry, 'description', entryProblems),
+    }
+    problems.push(...entryProblems.map((problem) => `${path}.${problem}`))
+    return trait
+  })
+}
+
+function readActions(fields: Fields, field: string, problems: string[]): MonsterAction[] {
+  return readTraits(fields, field, problems).map((trait, index) => {
+    const entry: unknown = (fields[field] as unknown[])[index]
+    const path = `${field}[${index}]`
+    const action: MonsterAction = { ...trait }
+    if (!isFields(entry)) return action
+    if (entry.toHit !== undefined) action.toHit = readInteger(entry.toHit, `${path}.toHit`, problems)
+    if (entry.damage !== undefined) {
+      if (!Array.isArray(entry.damage)) {
+        problems.push(`${path}.damage: expected a list like [{ "dice": "1d6+2", "type": "slashing" }]`)
+      } else {
+        action.damage = entry.damage.map((part: unknown, partIndex): MonsterDamage => {
+          const partPath = `${path}.damage[${partIndex}]`
+          if (!isFields(part) || typeof part.dice !== 'string') {
+            problems.push(`${partPath}: expected { "dice": "1d6+2", "type": "slashing" }`)
+            return { dice: '0', type: '' }
+          }
+          checkDice(part.dice, `${partPath}.dice`, problems)
+          return { dice: part.dice.replace(/\s+/g, ''), type: typeof part.type === 'string' ? part.type.trim() : '' }
+        })
+      }
+    }
+    if (entry.save !== undefined) {
+      const save = entry.save
+      if (!isFields(save) || !isAbility(save.ability)) {
+        problems.push(`${path}.save: expected { "ability": "dex", "dc": 13 }`)
+      } else {
+        action.save = { ability: save.ability, dc: readInteger(save.dc, `${path}.save.dc`, problems, 1) }
+      }
+    }
+    return action
+  })
+}
+
+function readNativeMonster(fields: Fields, problems: string[]): Monster {
+  if (fields.version !== MONSTER_FORMAT_VERSION) {
+    problems.push(
+      typeof fields.version === 'number' && fields.version > MONSTER_FORMAT_VERSION
+        ? `version: ${fields.version} is from a newer version of the app`
+        : `version: expected ${MONSTER_FORMAT_VERSION}`,
+    )
+  }
+  const hitPoints = isFields(fields.hitPoints) ? fields.hitPoints : {}
+  if (!isFields(fields.hitPoints)) problems.push('hitPoints: expected { "average": 7, "dice": "2d6" }')
+  const average = readInteger(hitPoints.average ?? 1, 'hitPoints.average', problems, 1)
+  const dice = readText(hitPoints, 'dice', problems)
+  if (dice) checkDice(dice, 'hitPoints.dice', problems)
+
+  const armorNote = readText(fields, 'armorNote', problems)
+  return {
+    id: createMonsterId(),
+    name: readText(fields, 'name', problems, true),
+    meta: readText(fields, 'meta', problems),
+    armorClass: readInteger(fields.armorClass, 'armorClass', problems, 0),
+    ...(armorNote !== '' && { armorNote }),
+    hitPoints: { average, ...(dice !== '' && { dice: dice.replace(/\s+/g, '') }) },
+    speed: readText(fields, 'speed', problems),
+    abilityScores: readAbilityScores(fields.abilityScores, 'abilityScores', problems),
+    savingThrows: readBonuses(fields, 'savingThrows', isAbility, problems),
+    skills: readBonuses(fields, 'skills', isSkill, problems),
+    damageVulnerabilities: readTextList(fields, 'damageVulnerabilities', problems),
+    damageResistances: readTextList(fields, 'damageResistances', problems),
+    damageImmunities: readTextList(fields, 'damageImmunities', problems),
+    conditionImmunities: readTextList(fields, 'conditionImmunities', problems),
+    senses: readText(fields, 'senses', problems),
+    languages: readText(fields, 'languages', problems),
+    challengeRating: fields.challengeRating === undefined ? 0 : readChallengeRating(fields.challengeRating, 'challengeRating', problems),
+    traits: readTraits(fields, 'traits', problems),
+    actions: readActions(fields, 'actions', problems),
+    reactions: readActions(fields, 'reactions', problems),
+    legendaryActions: readActions(fields, 'legendaryActions', problems),
+  }
+}
+
+/**
+ * SRD Format
+ * ----------
+ * Read more loosely than our own format - it's someone else's, and its
+ * shape has changed over the years (armor_class was once a number, now a
+ * list) - but the numbers that rolls depend on are still checked.
+ */
+const SRD_ABILITIES: Record<Ability, string> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+}
+
+// { walk: "30 ft.", fly: "60 ft.", hover: true } -> "30 ft., fly 60 ft. (hover)"
+function formatSrdSpeed(value: unknown): string {
+  if (!isFields(value)) return ''
+  const parts = Object.entries(value).flatMap(([mode, speed]) => {
+    if (typeof speed !== 'string') return []
+    return [mode === 'walk' ? speed : `${mode} ${speed}`]
+  })
+  return `${parts.join(', ')}${value.hover === true ? ' (hover)' : ''}`
+}
+
+// { darkvision: "60 ft.", passive_perception: 9 } -> "darkvision 60 ft., passive Perception 9"
+function formatSrdSenses(value: unknown): string {
+  if (!isFields(value)) return ''
+  return Object.entries(value)
+    .map(([sense, range]) =>
+      sense === 'passive_perception' ? `passive Perception ${String(range)}` : `${sense.replace(/_/g, ' ')} ${String(range)}`,
+    )
+    .join(', ')
+}
+
+function readSrdArmor(value: unknown, problems: string[]): { armorClass: number; armorNote?: string } {
+  if (typeof value === 'number') return { armorClass: value }
+  const first: unknown = Array.isArray(value) ? value[0] : undefined
+  if (!isFields(first) || typeof first.value !== 'number') {
+    problems.push('armor_class: expected a number, or a list like [{ "type": "natural", "value": 12 }]')
+    return { armorClass: 10 }
+  }
+  const armor = Array.isArray(first.armor)
+    ? first.armor.flatMap((item: unknown) => (isFields(item) && typeof item.name === 'string' ? [item.name.toLowerCase()] : []))
+    : []
+  const note = armor.length > 0 ? armor.join(', ') : first.type === 'natural' ? 'natural armor' : ''
+  return { armorClass: first.value, ...(note !== '' && { armorNote: note }) }
+}
+
+/**
+ * readSrdHitDice
+ * --------------
+ * Newer SRD data has "hit_points_roll" ("2d6", or "15d10+45" with the CON
+ * bonus in). Older data only has "hit_dice" ("15d10"), so the CON
+ * modifier is added once per die, as the rules do.
+ */
+function readSrdHitDice(fields: Fields, con: number): string | undefined {
+  if (typeof fields.hit_points_roll === 'string') return fields.hit_points_roll.replace(/\s+/g, '')
+  if (typeof fields.hit_dice !== 'string') return undefined
+  const dice = fields.hit_dice.replace(/\s+/g, '')
+  const count = Number.parseInt(dice, 10) || 1
+  const bonus = count * abilityModifier(con)
+  return bonus === 0 ? dice : `${dice}${formatBonus(bonus)}`
+}
+
+function readSrdActions(value: unknown, field: string, problems: string[]): MonsterAction[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    problems.push(`${field}: expected a list`)
+    return []
+  }
+  return value.flatMap((entry: unknown, index): MonsterAction[] => {
+    if (!isFields(entry) || typeof entry.name !== 'string') {
+      problems.push(`${field}[${index}]: expected an action with a name`)
+      return []
+    }
+    const action: MonsterAction = { name: entry.name, description: typeof entry.desc === 'string' ? entry.desc : '' }
+    if (typeof entry.attack_bonus === 'number') action.toHit = entry.attack_bonus
+
+    // Entries offering a choice ("choose": 1, "from": ...) have no dice of their own
+    const damage = Array.isArray(entry.damage)
+      ? entry.damage.flatMap((part: unknown): MonsterDamage[] => {
+          if (!isFields(part) || typeof part.damage_dice !== 'string') return []
+          const type = isFields(part.damage_type) && typeof part.damage_type.index === 'string' ? part.damage_type.index : ''
+          return [{ dice: part.damage_dice.replace(/\s+/g, ''), type }]
+        })
+      : []
+    damage.forEach((part, partIndex) => checkDice(part.dice, `${field}[${index}].damage[${partIndex}]`, problems))
+    if (damage.length > 0) action.damage = damage
+
+    const dc = isFields(entry.dc) ? entry.dc : null
+    const ability = dc && isFields(dc.dc_type) ? dc.dc_type.index : undefined
+    if (dc && isAbility(ability) && typeof dc.dc_value === 'number') action.save = { ability, dc: dc.dc_value }
+    return [action]
+  })
+}
+
+function readSrdMonster(fields: Fields, problems: string[]): Monster {
+  const abilityScores = { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 }
+  for (const { id } of ABILITIES) {
+    abilityScores[id] = readInteger(fields[SRD_ABILITIES[id]], SRD_ABILITIES[id], problems, 1)
+  }
+
+  // "saving-throw-dex" and "skill-stealth", each with its printed bonus
+  const savingThrows: Partial<Record<Ability, number>> = {}
+  const skills: Partial<Record<SkillId, number>> = {}
+  for (const entry of Array.isArray(fields.proficiencies) ? fields.proficiencies : []) {
+    if (!isFields(entry) || typeof entry.value !== 'number' || !isFields(entry.proficiency)) continue
+    const index = String(entry.proficiency.index)
+    const save = index.replace(/^saving-throw-/, '')
+    const skill = index.replace(/^skill-/, '')
+    if (index.startsWith('saving-throw-') && isAbility(save)) savingThrows[save] = entry.value
+    else if (index.startsWith('skill-') && isSkill(skill)) skills[skill] = entry.value
+  }
+
+  const conditionImmunities = Array.isArray(fields.condition_immunities)
+    ? fields.condition_immunities.flatMap((entry: unknown) =>
+        isFields(entry) && typeof entry.name === 'string' ? [entry.name.toLowerCase()] : typeof entry === 'string' ? [entry] : [],
+      )
+    : []
+
+  const traits = readSrdActions(fields.special_abilities, 'special_abilities', problems).map(({ name, description }) => ({
+    name,
+    description,
+  }))
+  const subtype = typeof fields.subtype === 'string' && fields.subtype !== '' ? ` (${fields.subtype})` : ''
+  const meta = [readText(fields, 'size', problems), `${readText(fields, 'type', problems)}${subtype}`]
+    .filter(Boolean)
+    .join(' ')
+  const alignment = readText(fields, 'alignment', problems)
+  const hitDice = readSrdHitDice(fields, abilityScores.con)
+  if (hitDice) checkDice(hitDice, 'hit_points_roll', problems)
+
+  return {
+    id: createMonsterId(),
+    name: readText(fields, 'name', problems, true),
+    meta: [meta, alignment].filter(Boolean).join(', '),
+    ...readSrdArmor(fields.armor_class, problems),
+    hitPoints: {
+      average: readInteger(fields.hit_points, 'hit_points', problems, 1),
+      ...(hitDice !== undefined && { dice: hitDice }),
+    },
+    speed: formatSrdSpeed(fields.speed),
+    abilityScores,
+    savingThrows,
+    skills,
+    damageVulnerabilities: readTextList(fields, 'damage_vulnerabilities', problems),
+    damageResistances: readTextList(fields, 'damage_resistances', problems),
+    damageImmunities: readTextList(fields, 'damage_immunities', problems),
+    conditionImmunities,
+    senses: formatSrdSenses(fields.senses),
+    languages: readText(fields, 'languages', problems),
+    challengeRating:
+      fields.challenge_rating === undefined ? 0 : readChallengeRating(fields.challenge_rating, 'challenge_rating', problems),
+    traits,
+    actions: readSrdActions(fields.actions, 'actions', problems),
+    reactions: readSrdActions(fields.reactions, 'reactions', problems),
+    legendaryActions: readSrdActions(fields.legendary_actions, 'legendary_actions', problems),
+  }
+}
+
+/**
+ * parseMonsters
+ * -------------
+ * Every monster in a file, or a MonsterImportError listing every problem
+ * in it. Problems are prefixed with the monster's name (or its place in
+ * the file, if it hasn't got one).
+ */
+export function parseMonsters(text: string): Monster[] {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new MonsterImportError(['the file is not JSON'])
+  }
+  const entries = Array.isArray(value) ? value : [value]
+  if (entries.length === 0) throw new MonsterImportError(['the file has no monsters in it'])
+
+  const problems: string[] = []
+  const monsters = entries.map((entry: unknown, index) => {
+    const where = Array.isArray(value) ? `monster ${index + 1}` : 'monster'
+    if (!isFields(entry)) {
+      problems.push(`${where}: expected a monster object`)
+      return null
+    }
+    const name = typeof entry.name === 'string' && entry.name.trim() !== '' ? entry.name.trim() : where
+    const entryProblems: string[] = []
+    let monster: Monster | null = null
+    if (entry.format === MONSTER_FORMAT) monster = readNativeMonster(entry, entryProblems)
+    else if ('hit_points' in entry && 'strength' in entry) monster = readSrdMonster(entry, entryProblems)
+    else entryProblems.push(`expected "format": "${MONSTER_FORMAT}", or an SRD 5e monster`)
+    problems.push(...entryProblems.map((problem) => `${name}: ${problem}`))
+    return monster
+  })
+
+  if (problems.length > 0) throw new MonsterImportError(problems)
+  return monsters.filter((monster): monster is Monster => monster !== null)
+}
+
+/**
+ * monsterToJSON
+ * -------------
+ * A monster in the app format, without its id - an imported monster
+ * always gets a fresh one.
+ */
+export function monsterToJSON(monster: Monster): string {
+  return JSON.stringify(
+    { format: MONSTER_FORMAT, version: MONSTER_FORMAT_VERSION, ...monster, id: undefined },
+    null,
+    2,
+  )
+}
+
+/**
+ * isValidMonster
+ * --------------
+ * For monsters coming back out of storage: the same checks as an import
+ * of the app format.
+ */
+export function isValidMonster(value: unknown): value is Monster {
+  if (!isFields(value) || typeof value.id !== 'string') return false
+  const problems: string[] = []
+  readNativeMonster({ ...value, version: MONSTER_FORMAT_VERSION }, problems)
+  return problems.length === 0
+}
@@ -0,0 +1,42 @@
+/**
+ * monsterStorage.ts - Saving Imported Monsters
+ * ============================================
+ * The monster library, plus which stat block is open, is kept in
+ * localStorage as one JSON object:
+ *
+ *   { "monsters": [ ... ], "activeId": "monster-..." }
+ *
+ * A whole SRD import is a few hundred kilobytes - well within what
+ * browsers allow - but if storage is full the library simply lasts until
+ * the page is closed.
+ */
+import { isValidMonster } from './monsterImport'
+import type { Monster } from './monster'
+
+const STORAGE_KEY = 'dnd-application:monsters'
+
+export interface MonsterLibrary {
+  monsters: Monster[]
+  activeId: string | null
+}
+
+export function loadMonsters(): MonsterLibrary {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<MonsterLibrary> | null
+    const monsters = Array.isArray(saved?.monsters) ? saved.monsters.filter(isValidMonster) : []
+    const activeId = monsters.some((monster) => monster.id === saved?.activeId)
+      ? saved!.activeId!
+      : (monsters[0]?.id ?? null)
+    return { monsters, activeId }
+  } catch {
+    return { monsters: [], activeId: null }
+  }
+}
+
+export function saveMonsters(library: MonsterLibrary) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library))
+  } catch {
+    // Storage unavailable or full - the library lasts until the page is closed
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * index.ts - Shared Table Barrel Export
+ * =====================================
+ * Rolling together over the network: the rolls that are passed round, the
+ * messages that carry them, and the connection to the table server.
+ *
+ *   import { connectToTable, replaySharedRoll } from './multiplayer'
+ */
+export { toSharedRoll, replaySharedRoll, checkSharedRoll, isSharedRoll, SharedRollError } from './sharedRoll'
+export type { CheckedRoll, SharedRoll } from './sharedRoll'
+export { CLOSE_NAME_TAKEN, parseServerMessage } from './protocol'
+export type { ClientMessage, ServerMessage } from './protocol'
+export { connectToTable, RECONNECT_DELAY_MS } from './tableConnection'
+export type { TableConnection, TableHandlers, TableStatus } from './tableConnection'
+export { DEFAULT_TABLE_PORT, DEFAULT_TABLE_SETTINGS, loadTableSettings, saveTableSettings } from './tableSettings'
+export type { TableSettings } from './tableSettings'
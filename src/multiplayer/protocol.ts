@@ -0,0 +1,123 @@
+/**
+ * protocol.ts - What the Table Server and Browsers Say
+ * ====================================================
+ * Every message is one JSON object with a `type`:
+ *
+ *   browser → server
+ *     join     - { room, name }: sit down at a table (sent again on reconnect)
+ *     roll     - { roll }: a SharedRoll to pass round
+ *     commit   - { hash }: the hash of the seed our next roll will use
+ *                (see src/fairness) - sent before that roll, and again
+ *                after rejoining
+ *
+ *   server → browser
+ *     welcome  - { room, players, history, commitments }: sent on joining;
+ *                `history` is the room's recent rolls, oldest first, for
+ *                late joiners; `commitments` is each player's latest
+ *                { hash, nonce }
+ *     players  - { players }: someone joined or left
+ *     roll     - { roll }: another player rolled
+ *     nonce    - { hash, nonce }: the server's half of the seed for our
+ *                commitment `hash`, picked once the hash arrived (the same
+ *                nonce again if we send the same hash after rejoining)
+ *     commit   - { roller, hash, nonce }: another player committed to a
+ *                seed, with the nonce they were sent for it
+ *     error    - { message }: a message the server couldn't accept; after
+ *                a join whose name is taken in the room, the server
+ *                also closes the connection with CLOSE_NAME_TAKEN
+ *
+ * server/tableServer.js speaks the other side of this - keep them in step.
+ */
+import { isSharedRoll } from './sharedRoll'
+import type { SharedRoll } from './sharedRoll'
+import type { PublishedCommitment } from '../fairness'
+
+// The close code after a join turned away because the name is taken (4000-4999 are ours to use)
+export const CLOSE_NAME_TAKEN = 4001
+
+export type ClientMessage =
+  | { type: 'join'; room: string; name: string }
+  | { type: 'roll'; roll: SharedRoll }
+  | { type: 'commit'; hash: string }
+
+export type ServerMessage =
+  | {
+      type: 'welcome'
+      room: string
+      players: string[]
+      history: SharedRoll[]
+      commitments: Record<string, PublishedCommitment>
+    }
+  | { type: 'players'; players: string[] }
+  | { type: 'roll'; roll: SharedRoll }
+  | { type: 'nonce'; hash: string; nonce: string }
+  | { type: 'commit'; roller: string; hash: string; nonce: string }
+  | { type: 'error'; message: string }
+
+const isNameList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((name) => typeof name === 'string')
+
+// A SHA-256 hash: 64 hex digits
+const isHash = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value)
+
+// The server's nonces are 128 bits: 32 hex digits
+const isNonce = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{32}$/.test(value)
+
+const isPublishedCommitment = (value: unknown): value is PublishedCommitment =>
+  typeof value === 'object' &&
+  value !== null &&
+  isHash((value as Partial<PublishedCommitment>).hash) &&
+  isNonce((value as Partial<PublishedCommitment>).nonce)
+
+// player name → { hash, nonce }; anything else in there is dropped
+function toCommitments(value: unknown): Record<string, PublishedCommitment> {
+  if (typeof value !== 'object' || value === null) return {}
+  return Object.fromEntries(
+    Object.entries(value).flatMap(([roller, commitment]: [string, unknown]) =>
+      isPublishedCommitment(commitment) ? [[roller, { hash: commitment.hash, nonce: commitment.nonce }]] : [],
+    ),
+  )
+}
+
+/**
+ * parseServerMessage
+ * ------------------
+ * Null for anything that isn't a message we understand. Bad rolls (or
+ * hashes) in a welcome are dropped rather than losing the whole welcome.
+ */
+export function parseServerMessage(text: string): ServerMessage | null {
+  let message: unknown
+  try {
+    message = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (typeof message !== 'object' || message === null) return null
+  const fields = message as Record<string, unknown>
+
+  switch (fields.type) {
+    case 'welcome':
+      if (typeof fields.room !== 'string' || !isNameList(fields.players) || !Array.isArray(fields.history)) return null
+      return {
+        type: 'welcome',
+        room: fields.room,
+        players: fields.players,
+        history: fields.history.filter(isSharedRoll),
+        commitments: toCommitments(fields.commitments),
+      }
+    case 'players':
+      return isNameList(fields.players) ? { type: 'players', players: fields.players } : null
+    case 'roll':
+      return isSharedRoll(fields.roll) ? { type: 'roll', roll: fields.roll } : null
+    case 'nonce':
+      return isHash(fields.hash) && isNonce(fields.nonce) ? { type: 'nonce', hash: fields.hash, nonce: fields.nonce } : null
+    case 'commit':
+      return typeof fields.roller === 'string' && isHash(fields.hash) && isNonce(fields.nonce)
+        ? { type: 'commit', roller: fields.roller, hash: fields.hash, nonce: fields.nonce }
+        : null
+    case 'error':
+      return typeof fields.message === 'string' ? { type: 'error', message: fields.message } : null
+    default:
+      return null
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * sharedRoll.ts - A Roll Sent to the Table
+ * ========================================
+ * What goes over the wire when a player rolls at a shared table. It
+ * carries the seed rather than the faces: every other player rolls the
+ * same expression from the same seed and gets the very same dice, which
+ * their own Scene then throws.
+ *
+ *   toSharedRoll     - a roll record of ours -> a SharedRoll to send
+ *   replaySharedRoll - a SharedRoll from someone else -> dice to show
+ *   checkSharedRoll  - is it the roll the seed they committed to gives?
+ *
+ * The total and breakdown travel too. The breakdown is shown as sent
+ * (it may end "vs AC 15 → HIT", which the expression alone can't say),
+ * and the total is the check that the replay really matched.
+ */
+import { applyModifiers, createRollDieRoller, evaluateDiceExpression, parseDiceNotation } from '../dice'
+import type { ModifiedRoll, RollModifiers, RollResult } from '../dice'
+import { verifyRoll } from '../fairness'
+import type { PublishedCommitment, RollVerification } from '../fairness'
+import { createRollRecord } from '../history'
+import type { RollRecord } from '../history'
+
+/**
+ * SharedRoll
+ * ----------
+ *   id         - the roller's history record id, so nobody stores it twice
+ *   roller     - the player's name at the table
+ *   expression - the notation as rolled, roll mode already applied
+ *                ("2d20kh1+5", not "1d20+5" with advantage)
+ *   modifiers  - the roll's bonuses, crits and resistance
+ *   nonce      - the table server's nonce, mixed into the seed - missing if
+ *                the roll was made before it arrived
+ *   commitment - the hash the roller published for this roll's seed. It
+ *                only counts if it really was published before the roll
+ *                arrived - see checkSharedRoll
+ */
+export interface SharedRoll {
+  id: string
+  roller: string
+  timestamp: number
+  expression: string
+  seed: string
+  nonce?: string
+  modifiers: RollModifiers
+  total: number
+  breakdown: string
+  label?: string
+  commitment?: string
+}
+
+/**
+ * SharedRollError
+ * ---------------
+ * Thrown when a replay doesn't come out at the total that was sent - a
+ * player on a different version of the app, or a tampered message.
+ */
+export class SharedRollError extends Error {
+  readonly roll: SharedRoll
+
+  constructor(message: string, roll: SharedRoll) {
+    super(message)
+    this.name = 'SharedRollError'
+    this.roll = roll
+  }
+}
+
+/**
+ * toSharedRoll
+ * ------------
+ * Returns null for a record without a seed - there's nothing to replay it
+ * from.
+ */
+export function toSharedRoll(record: RollRecord, modifiers: RollModifiers, roller: string): SharedRoll | null {
+  if (!record.seed) return null
+  return {
+    id: record.id,
+    roller,
+    timestamp: record.timestamp,
+    expression: record.expression,
+    seed: record.seed,
+    ...(record.nonce && { nonce: record.nonce }),
+    modifiers,
+    total: record.total,
+    breakdown: record.breakdown ?? String(record.total),
+    ...(record.label && { label: record.label }),
+    ...(record.commitment && { commitment: record.commitment }),
+  }
+}
+
+/**
+ * replaySharedRoll
+ * ----------------
+ * Rolls the expression again from the seed. Throws a DiceNotationError
+ * for an expression this version can't read, or a SharedRollError if the
+ * dice don't reach the total the roller got.
+ */
+export function replaySharedRoll(roll: SharedRoll): { result: RollResult; modified: ModifiedRoll; record: RollRecord } {
+  const result = evaluateDiceExpression(parseDiceNotation(roll.expression), createRollDieRoller(roll.seed, roll.nonce))
+  const replayed = applyModifiers(result, roll.modifiers)
+  if (replayed.total !== roll.total) {
+    throw new SharedRollError(
+      `${roll.roller}'s roll of ${roll.expression} replayed as ${replayed.total}, not ${roll.total}`,
+      roll,
+    )
+  }
+  const modified = { ...replayed, breakdown: roll.breakdown }
+  const bonus = roll.modifiers.bonus + (roll.modifiers.proficient ? roll.modifiers.proficiencyBonus : 0)
+  const record: RollRecord = {
+    ...createRollRecord(result, { label: roll.label, modified, bonus, seed: roll.seed, nonce: roll.nonce }),
+    id: roll.id,
+    timestamp: roll.timestamp,
+    roller: roll.roller,
+  }
+  return { result, modified, record }
+}
+
+/**
+ * CheckedRoll / checkSharedRoll
+ * -----------------------------
+ * A roll from the table, checked against the seed hash its roller
+ * published before it and the nonce the server sent after that (see
+ * src/fairness). The caller passes the commitment only if the roll's
+ * `commitment` hash really did arrive from the roller first; it is
+ * undefined otherwise - a roll from before we joined, one claiming a hash
+ * we never saw, or one from an older version of the app - and the roll
+ * can then only be "unverified".
+ */
+export interface CheckedRoll {
+  roll: SharedRoll
+  commitment?: PublishedCommitment
+  verification: RollVerification
+}
+
+export function checkSharedRoll(roll: SharedRoll, commitment?: PublishedCommitment): CheckedRoll {
+  const verification = verifyRoll({
+    expression: roll.expression,
+    seed: roll.seed,
+    nonce: roll.nonce,
+    hash: commitment?.hash,
+    issuedNonce: commitment?.nonce,
+    total: roll.total,
+    modifiers: roll.modifiers,
+  })
+  return { roll, ...(commitment !== undefined && { commitment }), verification }
+}
+
+/**
+ * isSharedRoll
+ * ------------
+ * Messages come from other people's browsers, so every roll is checked
+ * before it's replayed.
+ */
+export function isSharedRoll(value: unknown): value is SharedRoll {
+  if (typeof value !== 'object' || value === null) return false
+  const roll = value as Partial<SharedRoll>
+  return (
+    typeof roll.id === 'string' &&
+    typeof roll.roller === 'string' &&
+    typeof roll.timestamp === 'number' &&
+    typeof roll.expression === 'string' &&
+    typeof roll.seed === 'string' &&
+    (roll.nonce === undefined || typeof roll.nonce === 'string') &&
+    typeof roll.modifiers === 'object' &&
+    roll.modifiers !== null &&
+    typeof roll.total === 'number' &&
+    typeof roll.breakdown === 'string' &&
+    (roll.label === undefined || typeof roll.label === 'string') &&
+    (roll.commitment === undefined || typeof roll.commitment === 'string')
+  )
+}
@@ -0,0 +1,134 @@
+/**
+ * tableConnection.ts - Talking to the Table Server
+ * ================================================
+ * One WebSocket to the table server (server/tableServer.js), wrapped so
+ * the rest of the app only sees rolls and player lists:
+ *
+ *   const table = connectToTable(settings, handlers)
+ *   table.commit(hash)      // publish the hash of our next roll's seed
+ *   table.shareRoll(roll)   // everyone else in the room replays it
+ *   table.close()           // leave
+ *
+ * A dropped connection (the server restarted, the laptop slept) is retried
+ * every few seconds and the room joined again; the welcome that follows
+ * brings back any rolls missed meanwhile, and our latest commitment is
+ * published again. A join turned away because someone at the table
+ * already has our name is not retried - it would only be turned away
+ * again - so the server's error stays up until another name is picked.
+ * Rolls made while disconnected stay on this table only - sending them
+ * late would throw dice on everyone else's screen long after the moment
+ * had passed.
+ */
+import { CLOSE_NAME_TAKEN, parseServerMessage } from './protocol'
+import type { ClientMessage } from './protocol'
+import type { SharedRoll } from './sharedRoll'
+import type { PublishedCommitment } from '../fairness'
+import type { TableSettings } from './tableSettings'
+
+export type TableStatus = 'connecting' | 'connected' | 'disconnected'
+
+export interface TableHandlers {
+  onStatus: (status: TableStatus) => void
+  onWelcome: (players: string[], history: SharedRoll[], commitments: Record<string, PublishedCommitment>) => void
+  onPlayers: (players: string[]) => void
+  onRoll: (roll: SharedRoll) => void
+  // The server's nonce for one of our own commitments
+  onNonce: (hash: string, nonce: string) => void
+  onCommit: (roller: string, commitment: PublishedCommitment) => void
+  onError: (message: string) => void
+  // The server turned the join away (the name is taken) - the connection won't retry
+  onTurnedAway: () => void
+}
+
+export interface TableConnection {
+  commit: (hash: string) => void
+  shareRoll: (roll: SharedRoll) => void
+  close: () => void
+}
+
+export const RECONNECT_DELAY_MS = 3000
+
+export function connectToTable({ serverUrl, room, name }: TableSettings, handlers: TableHandlers): TableConnection {
+  let socket: WebSocket | null = null
+  let closed = false
+  let retryTimer: number | undefined
+  // The last hash we committed to, re-sent whenever we (re)join
+  let commitment: string | null = null
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }
+
+  const open = () => {
+    handlers.onStatus('connecting')
+    try {
+      socket = new WebSocket(serverUrl)
+    } catch {
+      // A malformed address never gets as far as a close event
+      handlers.onError(`"${serverUrl}" is not a WebSocket address (ws://host:port)`)
+      handlers.onStatus('disconnected')
+      return
+    }
+
+    socket.addEventListener('open', () => {
+      send({ type: 'join', room, name })
+      if (commitment) send({ type: 'commit', hash: commitment })
+    })
+
+    socket.addEventListener('message', (event) => {
+      const message = typeof event.data === 'string' ? parseServerMessage(event.data) : null
+      if (!message) return
+      switch (message.type) {
+        case 'welcome':
+          // Connected means sat at the table - the join can still be turned away before this
+          handlers.onStatus('connected')
+          handlers.onWelcome(message.players, message.history, message.commitments)
+          break
+        case 'players':
+          handlers.onPlayers(message.players)
+          break
+        case 'roll':
+          handlers.onRoll(message.roll)
+          break
+        case 'nonce':
+          handlers.onNonce(message.hash, message.nonce)
+          break
+        case 'commit':
+          handlers.onCommit(message.roller, { hash: message.hash, nonce: message.nonce })
+          break
+        case 'error':
+          handlers.onError(message.message)
+          break
+      }
+    })
+
+    // 'error' is always followed by 'close', so retrying happens there
+    socket.addEventListener('close', (event) => {
+      socket = null
+      if (closed) return
+      handlers.onStatus('disconnected')
+      if (event.code === CLOSE_NAME_TAKEN) {
+        closed = true
+        handlers.onTurnedAway()
+        return
+      }
+      retryTimer = window.setTimeout(open, RECONNECT_DELAY_MS)
+    })
+  }
+
+  open()
+
+  return {
+    commit: (hash) => {
+      commitment = hash
+      send({ type: 'commit', hash })
+    },
+    shareRoll: (roll) => send({ type: 'roll', roll }),
+    close: () => {
+      closed = true
+      window.clearTimeout(retryTimer)
+      socket?.close()
+      handlers.onStatus('disconnected')
+    },
+  }
+}
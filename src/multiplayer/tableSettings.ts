@@ -0,0 +1,49 @@
+/**
+ * tableSettings.ts - Where and Who, Remembered
+ * ============================================
+ *   serverUrl - the table server's WebSocket address
+ *   room      - which table to sit at; everyone in a room sees each
+ *               other's rolls
+ *   name      - how your rolls are signed
+ *
+ * Saved to localStorage so rejoining next session is one click.
+ */
+export interface TableSettings {
+  serverUrl: string
+  room: string
+  name: string
+}
+
+// The port server/tableServer.js listens on unless told otherwise
+export const DEFAULT_TABLE_PORT = 8787
+
+export const DEFAULT_TABLE_SETTINGS: TableSettings = {
+  serverUrl: `ws://${window.location.hostname || 'localhost'}:${DEFAULT_TABLE_PORT}`,
+  room: 'my-table',
+  name: '',
+}
+
+const STORAGE_KEY = 'dnd-application:table'
+
+export function loadTableSettings(): TableSettings {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    if (typeof saved !== 'object' || saved === null) return DEFAULT_TABLE_SETTINGS
+    const settings = saved as Partial<TableSettings>
+    return {
+      serverUrl: typeof settings.serverUrl === 'string' ? settings.serverUrl : DEFAULT_TABLE_SETTINGS.serverUrl,
+      room: typeof settings.room === 'string' ? settings.room : DEFAULT_TABLE_SETTINGS.room,
+      name: typeof settings.name === 'string' ? settings.name : DEFAULT_TABLE_SETTINGS.name,
+    }
+  } catch {
+    return DEFAULT_TABLE_SETTINGS
+  }
+}
+
+export function saveTableSettings(settings: TableSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Storage unavailable - the settings last until the page is closed
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * index.ts - Presenter Mode Barrel Export
+ * =======================================
+ * The channel between the GM's control window and the players' display:
+ *
+ *   import { openPresenterChannel, isDisplayWindow } from './presenter'
+ */
+export {
+  PRESENTER_ROLLER,
+  getDisplayUrl,
+  isDisplayWindow,
+  openPresenterChannel,
+  parsePresenterMessage,
+} from './presenterChannel'
+export type { PresenterChannel, PresenterMessage } from './presenterChannel'
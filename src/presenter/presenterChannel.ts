@@ -0,0 +1,92 @@
+/**
+ * presenterChannel.ts - Control Window to Display Window
+ * ======================================================
+ * Presenter mode splits the app across two windows on the same computer:
+ * the GM keeps the full app (the control window) on their own screen and
+ * opens a display window - just the dice - on the TV or projector the
+ * players can see.
+ *
+ * The windows talk over a BroadcastChannel, which every tab of the app
+ * on this browser can hear. No server is involved, and nothing leaves
+ * the machine.
+ *
+ *   control → display   { type: 'roll', roll }   throw these dice
+ *   control → display   { type: 'skin', skin }   wear this skin
+ *   display → control   { type: 'hello' }        I just opened - what's showing?
+ *
+ * A roll travels as a SharedRoll, the same seed-and-expression form the
+ * shared table uses, so the display replays it exactly as another player
+ * would (see src/multiplayer/sharedRoll.ts).
+ */
+import { isSharedRoll } from '../multiplayer'
+import type { SharedRoll } from '../multiplayer'
+import { isValidSkin } from '../skins'
+import type { DiceSkin } from '../skins'
+
+export type PresenterMessage =
+  | { type: 'roll'; roll: SharedRoll }
+  | { type: 'skin'; skin: DiceSkin }
+  | { type: 'hello' }
+
+export interface PresenterChannel {
+  post: (message: PresenterMessage) => void
+  close: () => void
+}
+
+const CHANNEL_NAME = 'dnd-application:presenter'
+
+// The display window is the app opened with ?display in the URL
+const DISPLAY_PARAM = 'display'
+
+// The name the GM's rolls carry - the display shows it like a player's name
+export const PRESENTER_ROLLER = 'GM'
+
+export function isDisplayWindow(): boolean {
+  return new URLSearchParams(window.location.search).has(DISPLAY_PARAM)
+}
+
+// This page's address with ?display added - what "Open display" opens
+export function getDisplayUrl(): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(DISPLAY_PARAM, '')
+  return url.toString()
+}
+
+/**
+ * parsePresenterMessage
+ * ---------------------
+ * Any tab of the app can post on the channel - an older version left open
+ * in another tab, say - so messages are checked like network ones.
+ */
+export function parsePresenterMessage(data: unknown): PresenterMessage | null {
+  if (typeof data !== 'object' || data === null) return null
+  const message = data as { type?: unknown; roll?: unknown; skin?: unknown }
+  switch (message.type) {
+    case 'roll':
+      return isSharedRoll(message.roll) ? { type: 'roll', roll: message.roll } : null
+    case 'skin':
+      return isValidSkin(message.skin) ? { type: 'skin', skin: message.skin } : null
+    case 'hello':
+      return { type: 'hello' }
+    default:
+      return null
+  }
+}
+
+/**
+ * openPresenterChannel
+ * --------------------
+ * A window never hears its own messages, so the control and display
+ * windows can both open the channel and just post and listen.
+ */
+export function openPresenterChannel(onMessage: (message: PresenterMessage) => void): PresenterChannel {
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.addEventListener('message', (event) => {
+    const message = parsePresenterMessage(event.data)
+    if (message) onMessage(message)
+  })
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  }
+}
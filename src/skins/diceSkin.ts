@@ -0,0 +1,219 @@
+/**
+ * diceSkin.ts - How the Dice Look
+ * ===============================
+ * A skin is everything about a die's appearance that isn't its shape:
+ *
+ *   bodyColor            - the colour of the die itself
+ *   metalness/roughness  - 0 to 1, plastic to metal and mirror to matte
+ *   numberColor/Font     - how the face numbers are drawn
+ *   gradientColor        - optional: the body fades from bodyColor to this
+ *   textureUrl           - optional: an image wrapped round the body instead
+ *   criticalColor        - the die's colour on a natural 20 or a max roll
+ *   fumbleColor          - ...and on a natural 1 or a min roll
+ *
+ * A few presets ship with the app. Custom skins are made by copying one,
+ * and can be shared as JSON files - parseDiceSkin checks an imported file
+ * field by field, so a bad one says what's wrong instead of breaking the
+ * dice.
+ */
+
+export interface DiceSkin {
+  id: string
+  name: string
+  bodyColor: string
+  metalness: number
+  roughness: number
+  numberColor: string
+  numberFont: string
+  gradientColor?: string
+  textureUrl?: string
+  criticalColor: string
+  fumbleColor: string
+}
+
+/**
+ * Presets
+ * -------
+ * Classic is the look the dice always had, and the default.
+ */
+export const CLASSIC_SKIN: DiceSkin = {
+  id: 'classic',
+  name: 'Classic',
+  bodyColor: '#8b0000',
+  metalness: 0.3,
+  roughness: 0.4,
+  numberColor: '#ffffff',
+  numberFont: 'Arial',
+  criticalColor: '#00ff00',
+  fumbleColor: '#ff0000',
+}
+
+export const PRESET_SKINS: DiceSkin[] = [
+  CLASSIC_SKIN,
+  {
+    id: 'dragon-gold',
+    name: 'Dragon Gold',
+    bodyColor: '#d4a017',
+    metalness: 0.9,
+    roughness: 0.25,
+    numberColor: '#2b1600',
+    numberFont: 'Georgia',
+    criticalColor: '#fff4a3',
+    fumbleColor: '#5c1a00',
+  },
+  {
+    id: 'frost',
+    name: 'Frost',
+    bodyColor: '#e8f6ff',
+    metalness: 0.1,
+    roughness: 0.2,
+    numberColor: '#0b3d91',
+    numberFont: 'Verdana',
+    gradientColor: '#4a90d9',
+    criticalColor: '#7fffd4',
+    fumbleColor: '#1a1a6e',
+  },
+  {
+    id: 'obsidian',
+    name: 'Obsidian',
+    bodyColor: '#111111',
+    metalness: 0.5,
+    roughness: 0.1,
+    numberColor: '#b388ff',
+    numberFont: 'Courier New',
+    criticalColor: '#7c4dff',
+    fumbleColor: '#ff1744',
+  },
+  {
+    id: 'bone',
+    name: 'Bone',
+    bodyColor: '#e3dac9',
+    metalness: 0,
+    roughness: 0.9,
+    numberColor: '#3b2f2f',
+    numberFont: 'Times New Roman',
+    criticalColor: '#c5e1a5',
+    fumbleColor: '#8d0000',
+  },
+]
+
+// Fonts offered in the picker - any CSS font family works in a skin file
+export const NUMBER_FONTS = ['Arial', 'Verdana', 'Georgia', 'Times New Roman', 'Courier New', 'Impact']
+
+// Custom skins are copies, so they get ids that can't clash with a preset
+export function createSkinId(): string {
+  return `skin-${crypto.randomUUID()}`
+}
+
+export function isPresetSkin(id: string): boolean {
+  return PRESET_SKINS.some((skin) => skin.id === id)
+}
+
+/**
+ * SkinImportError
+ * ---------------
+ * Thrown by parseDiceSkin. `problems` lists every bad field, e.g.
+ * "bodyColor: expected a colour like #8b0000", so the whole file can be
+ * fixed in one go.
+ */
+export class SkinImportError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Not a valid dice skin - ${problems.join('; ')}`)
+    this.name = 'SkinImportError'
+    this.problems = problems
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const COLOR_FIELDS = ['bodyColor', 'numberColor', 'criticalColor', 'fumbleColor'] as const
+const FINISH_FIELDS = ['metalness', 'roughness'] as const
+
+/**
+ * checkSkinFields
+ * ---------------
+ * Every problem with a would-be skin (without its id, which storage and
+ * import each handle their own way). An empty list means it's fine.
+ */
+function checkSkinFields(value: Record<string, unknown>): string[] {
+  const problems: string[] = []
+  if (typeof value.name !== 'string' || value.name.trim() === '') problems.push('name: expected some text')
+  for (const field of COLOR_FIELDS) {
+    if (typeof value[field] !== 'string' || !HEX_COLOR.test(value[field])) {
+      problems.push(`${field}: expected a colour like #8b0000`)
+    }
+  }
+  for (const field of FINISH_FIELDS) {
+    const number = value[field]
+    if (typeof number !== 'number' || !(number >= 0 && number <= 1)) {
+      problems.push(`${field}: expected a number from 0 to 1`)
+    }
+  }
+  if (typeof value.numberFont !== 'string' || value.numberFont.trim() === '') {
+    problems.push('numberFont: expected a font name')
+  }
+  if (value.gradientColor !== undefined && (typeof value.gradientColor !== 'string' || !HEX_COLOR.test(value.gradientColor))) {
+    problems.push('gradientColor: expected a colour like #8b0000, or leave it out')
+  }
+  if (value.textureUrl !== undefined && typeof value.textureUrl !== 'string') {
+    problems.push('textureUrl: expected an image URL, or leave it out')
+  }
+  return problems
+}
+
+// Only the known fields, so nothing unexpected rides along into storage
+function pickSkinFields(id: string, value: Record<string, unknown>): DiceSkin {
+  const skin = value as unknown as DiceSkin
+  return {
+    id,
+    name: skin.name.trim(),
+    bodyColor: skin.bodyColor,
+    metalness: skin.metalness,
+    roughness: skin.roughness,
+    numberColor: skin.numberColor,
+    numberFont: skin.numberFont.trim(),
+    ...(skin.gradientColor !== undefined && { gradientColor: skin.gradientColor }),
+    ...(skin.textureUrl !== undefined && skin.textureUrl.trim() !== '' && { textureUrl: skin.textureUrl.trim() }),
+    criticalColor: skin.criticalColor,
+    fumbleColor: skin.fumbleColor,
+  }
+}
+
+/**
+ * skinToJSON / parseDiceSkin
+ * --------------------------
+ * A skin file is the skin without its id - an imported skin always gets a
+ * fresh one, so importing the same file twice gives two skins rather than
+ * one overwriting the other.
+ */
+export function skinToJSON(skin: DiceSkin): string {
+  // JSON.stringify leaves out undefined fields
+  return JSON.stringify({ ...skin, id: undefined }, null, 2)
+}
+
+export function parseDiceSkin(text: string): DiceSkin {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new SkinImportError(['the file is not JSON'])
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SkinImportError(['expected a single skin object'])
+  }
+  const problems = checkSkinFields(value as Record<string, unknown>)
+  if (problems.length > 0) throw new SkinImportError(problems)
+  return pickSkinFields(createSkinId(), value as Record<string, unknown>)
+}
+
+/**
+ * isValidSkin
+ * -----------
+ * For skins coming back out of storage, which keep their ids.
+ */
+export function isValidSkin(value: unknown): value is DiceSkin {
+  if (typeof value !== 'object' || value === null) return false
+  const record = value as Record<string, unknown>
+  return typeof record.id === 'string' && checkSkinFields(record).length === 0
+}
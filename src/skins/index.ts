@@ -0,0 +1,21 @@
+/**
+ * index.ts - Dice Skins Barrel Export
+ * ===================================
+ * What the dice look like - presets, custom skins and skin files:
+ *
+ *   import { PRESET_SKINS, parseDiceSkin } from './skins'
+ */
+export {
+  CLASSIC_SKIN,
+  PRESET_SKINS,
+  NUMBER_FONTS,
+  SkinImportError,
+  createSkinId,
+  isPresetSkin,
+  isValidSkin,
+  parseDiceSkin,
+  skinToJSON,
+} from './diceSkin'
+export type { DiceSkin } from './diceSkin'
+export { loadSkins, saveSkins } from './skinStorage'
+export type { SkinCollection } from './skinStorage'
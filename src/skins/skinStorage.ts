@@ -0,0 +1,43 @@
+/**
+ * skinStorage.ts - Saving Dice Skins
+ * ==================================
+ * The custom skins, plus which skin is in use, are kept in localStorage:
+ *
+ *   { "custom": [ ... ], "activeId": "frost" }
+ *
+ * Presets aren't saved - they come with the app - but the active id can
+ * point at one. A texture uploaded from a file is stored inside its skin
+ * as a data URL, so a very large image may not fit; the skins then last
+ * until the page is closed, like everything else when storage is full.
+ */
+import { CLASSIC_SKIN, PRESET_SKINS, isValidSkin } from './diceSkin'
+import type { DiceSkin } from './diceSkin'
+
+const STORAGE_KEY = 'dnd-application:dice-skins'
+
+export interface SkinCollection {
+  custom: DiceSkin[]
+  activeId: string
+}
+
+export function loadSkins(): SkinCollection {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<SkinCollection> | null
+    const custom = Array.isArray(saved?.custom) ? saved.custom.filter(isValidSkin) : []
+    // A deleted or broken skin falls back to Classic
+    const activeId = [...PRESET_SKINS, ...custom].some((skin) => skin.id === saved?.activeId)
+      ? saved!.activeId!
+      : CLASSIC_SKIN.id
+    return { custom, activeId }
+  } catch {
+    return { custom: [], activeId: CLASSIC_SKIN.id }
+  }
+}
+
+export function saveSkins(collection: SkinCollection) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(collection))
+  } catch {
+    // Storage unavailable or full - the skins last until the page is closed
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * chiSquare.ts - Is This Die Fair?
+ * ================================
+ * Pearson's chi-square goodness-of-fit test: given how often each face came
+ * up, how surprising would those counts be from a perfectly fair die?
+ *
+ *   statistic  - Σ (observed - expected)² / expected, over every face
+ *   pValue     - the chance a fair die would look at least this uneven
+ *
+ * A small p-value (below 0.05, by convention) means the counts are hard to
+ * explain by luck alone. A large one does NOT prove the die is fair - only
+ * that the rolls so far give no reason to think otherwise.
+ */
+
+/**
+ * ChiSquareResult
+ * ---------------
+ *   degreesOfFreedom - faces minus one
+ *   consistent       - p-value at or above the significance level
+ *   reliable         - the test needs about 5 expected rolls per face;
+ *                      with fewer, its p-value can't be trusted
+ */
+export interface ChiSquareResult {
+  statistic: number
+  degreesOfFreedom: number
+  pValue: number
+  consistent: boolean
+  reliable: boolean
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05
+export const MIN_EXPECTED_PER_FACE = 5
+
+/**
+ * logGamma
+ * --------
+ * ln(Γ(x)) by the Lanczos approximation - Γ itself overflows for the large
+ * arguments a d100 produces.
+ */
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.3234287776531, -176.61503916999186, 12.507343278686905,
+  -0.13857109526572012, 9.984369578019572e-6, 1.5056327351493116e-7,
+]
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  const z = x - 1
+  let sum = 0.9999999999998099
+  LANCZOS.forEach((coefficient, i) => {
+    sum += coefficient / (z + i + 1)
+  })
+  const t = z + LANCZOS.length - 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+/**
+ * upperGammaQ
+ * -----------
+ * The regularized upper incomplete gamma function Q(a, x). The chi-square
+ * p-value for k degrees of freedom is Q(k / 2, statistic / 2).
+ *
+ * Below x = a + 1 a power series converges quickly (and gives P = 1 - Q);
+ * above it a continued fraction does. Both stop once the next step no
+ * longer changes the answer.
+ */
+const EPSILON = 1e-14
+const MAX_ITERATIONS = 1000
+
+function upperGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1
+  const logPrefix = a * Math.log(x) - x - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n)
+      sum += term
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix))
+  }
+
+  // Lentz's method for the continued fraction
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let fraction = d
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    fraction *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return Math.min(1, Math.exp(logPrefix) * fraction)
+}
+
+/**
+ * chiSquareTest
+ * -------------
+ * Tests face counts (counts[0] = how many 1s, and so on) against a fair
+ * die, where every face is equally likely.
+ */
+export function chiSquareTest(counts: number[], significance = SIGNIFICANCE_LEVEL): ChiSquareResult {
+  const rolls = counts.reduce((sum, count) => sum + count, 0)
+  const degreesOfFreedom = counts.length - 1
+  if (rolls === 0 || degreesOfFreedom < 1) {
+    return { statistic: 0, degreesOfFreedom, pValue: 1, consistent: true, reliable: false }
+  }
+
+  const expected = rolls / counts.length
+  const statistic = counts.reduce((sum, observed) => sum + (observed - expected) ** 2 / expected, 0)
+  const pValue = upperGammaQ(degreesOfFreedom / 2, statistic / 2)
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue,
+    consistent: pValue >= significance,
+    reliable: expected >= MIN_EXPECTED_PER_FACE,
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * index.ts - Roll Statistics Barrel Export
+ * ========================================
+ * Face counts, streaks, sessions, simulations and the fairness test:
+ *
+ *   import { summarizeFaces, chiSquareTest } from './stats'
+ */
+export {
+  collectFaces,
+  summarizeFaces,
+  findStreaks,
+  getSessionStats,
+  simulateRolls,
+  SESSION_GAP_MS,
+  SIMULATION_ROLLS,
+} from './rollStats'
+export type { FaceSummary, Streaks, SessionStats } from './rollStats'
+export { chiSquareTest, SIGNIFICANCE_LEVEL, MIN_EXPECTED_PER_FACE } from './chiSquare'
+export type { ChiSquareResult } from './chiSquare'
@@ -0,0 +1,162 @@
+/**
+ * rollStats.ts - Statistics Over Recorded Rolls
+ * =============================================
+ * Numbers for settling arguments about cursed dice:
+ *
+ *   collectFaces      every face a given die type showed, oldest first
+ *   summarizeFaces    how often each face came up, and the mean
+ *   findStreaks       the longest runs of one face, of high and of low rolls
+ *   getSessionStats   natural 20s and 1s per play session
+ *   simulateRolls     thousands of rolls through the dice engine, no dice
+ *                     on screen
+ *
+ * Every physical die counts - including the one dropped by advantage or
+ * by "4d6kh3". A fair die is fair whether or not its roll was kept.
+ */
+import { createRollDieRoller, createRollSeed, evaluateDiceExpression, getRolledDice, parseDiceNotation } from '../dice'
+import type { RandomSource } from '../dice'
+import type { RollRecord } from '../history'
+
+/**
+ * collectFaces
+ * ------------
+ * History is stored newest first; streaks only make sense in the order the
+ * dice were rolled, so the faces come back oldest first.
+ */
+export function collectFaces(records: RollRecord[], sides: number): number[] {
+  return [...records]
+    .reverse()
+    .flatMap((record) => record.dice.filter((die) => die.sides === sides).map((die) => die.value))
+}
+
+/**
+ * FaceSummary
+ * -----------
+ *   counts        - counts[0] is how many 1s, counts[1] how many 2s...
+ *   mean          - the average face
+ *   expectedMean  - what a fair die averages: (1 + sides) / 2
+ */
+export interface FaceSummary {
+  sides: number
+  rolls: number
+  counts: number[]
+  mean: number
+  expectedMean: number
+}
+
+export function summarizeFaces(faces: number[], sides: number): FaceSummary {
+  const counts = new Array<number>(sides).fill(0)
+  let sum = 0
+  for (const face of faces) {
+    counts[face - 1]++
+    sum += face
+  }
+  return {
+    sides,
+    rolls: faces.length,
+    counts,
+    mean: faces.length > 0 ? sum / faces.length : 0,
+    expectedMean: (sides + 1) / 2,
+  }
+}
+
+/**
+ * Streaks
+ * -------
+ *   sameFace - the longest run of one face in a row ("three 1s in a row!")
+ *   high     - the longest run above the expected mean
+ *   low      - the longest run below it - the "cursed" stretch
+ * On a die with an odd number of faces the middle face breaks both.
+ */
+export interface Streaks {
+  sameFace: { face: number; length: number } | null
+  high: number
+  low: number
+}
+
+export function findStreaks(faces: number[], sides: number): Streaks {
+  const middle = (sides + 1) / 2
+  let sameFace: Streaks['sameFace'] = null
+  let run = 0
+  let high = 0
+  let highRun = 0
+  let low = 0
+  let lowRun = 0
+
+  for (let i = 0; i < faces.length; i++) {
+    const face = faces[i]
+    run = i > 0 && faces[i - 1] === face ? run + 1 : 1
+    if (!sameFace || run > sameFace.length) sameFace = { face, length: run }
+
+    highRun = face > middle ? highRun + 1 : 0
+    lowRun = face < middle ? lowRun + 1 : 0
+    high = Math.max(high, highRun)
+    low = Math.max(low, lowRun)
+  }
+
+  return { sameFace, high, low }
+}
+
+/**
+ * Sessions
+ * --------
+ * There's no "start session" button, so a session is worked out from the
+ * timestamps: rolls less than SESSION_GAP_MS apart belong together. A
+ * four-hour break is a new game night.
+ *
+ * Natural 20s and 1s are kept d20s only - the low die of an advantage roll
+ * isn't anyone's natural 1.
+ */
+export const SESSION_GAP_MS = 4 * 60 * 60 * 1000
+
+export interface SessionStats {
+  start: number
+  end: number
+  rolls: number
+  d20s: number
+  nat20s: number
+  nat1s: number
+}
+
+export function getSessionStats(records: RollRecord[], gapMs = SESSION_GAP_MS): SessionStats[] {
+  const sessions: SessionStats[] = []
+  for (const record of [...records].reverse()) {
+    let session = sessions.at(-1)
+    if (!session || record.timestamp - session.end >= gapMs) {
+      session = { start: record.timestamp, end: record.timestamp, rolls: 0, d20s: 0, nat20s: 0, nat1s: 0 }
+      sessions.push(session)
+    }
+    session.end = record.timestamp
+    session.rolls++
+    for (const die of record.dice) {
+      if (die.sides !== 20 || !die.kept) continue
+      session.d20s++
+      if (die.value === 20) session.nat20s++
+      if (die.value === 1) session.nat1s++
+    }
+  }
+  return sessions.reverse() // Newest first, like the history
+}
+
+/**
+ * simulateRolls
+ * -------------
+ * Rolls one d`sides` `count` times through the die every real roll uses:
+ * createRollDieRoller, seeded once for the whole run from the app's
+ * RandomSource, then evaluateDiceExpression for each face. A real roll
+ * seeds a fresh one each time, but it's the same generator either way,
+ * and seeding it 100,000 times would hold up the page for nothing. Only
+ * the animation is skipped: a thrown die's physics doesn't pick its
+ * number, it lands on the one the engine chose.
+ */
+export const SIMULATION_ROLLS = 100_000
+
+export function simulateRolls(sides: number, count: number, random: RandomSource): number[] {
+  const expression = parseDiceNotation(`1d${sides}`)
+  const rollDie = createRollDieRoller(createRollSeed(random))
+  const faces = new Array<number>(count)
+  for (let i = 0; i < count; i++) {
+    faces[i] = getRolledDice(evaluateDiceExpression(expression, rollDie))[0].value
+  }
+  return faces
+}
@@ -0,0 +1,46 @@
+/**
+ * fieldReaders.ts - Reading Imported Files Field by Field
+ * =======================================================
+ * Character and monster files are checked the same way: each field is
+ * read on its own, a wrong one is written down as a problem naming the
+ * field, and reading carries on, so one import reports every mistake in
+ * the file at once rather than only the first:
+ *
+ *   const problems: string[] = []
+ *   const name = readText(fields, 'name', problems, true)
+ *   const level = readInteger(fields.level, 'level', problems, 1, 20)
+ *   if (problems.length > 0) throw new CharacterImportError(problems)
+ */
+
+// A parsed JSON object, before anything in it is trusted
+export type Fields = Record<string, unknown>
+
+export const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Field Readers
+ * -------------
+ * Each returns the value if it's the right type, or records a problem and
+ * returns a harmless stand-in so checking can carry on to the next field.
+ */
+export function readText(fields: Fields, field: string, problems: string[], required = false): string {
+  const value = fields[field]
+  if (typeof value === 'string') return value.trim()
+  if (value !== undefined || required) problems.push(`${field}: expected some text`)
+  return ''
+}
+
+export function readInteger(value: unknown, field: string, problems: string[], min = -Infinity, max = Infinity): number {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) return value
+  const range = max < Infinity ? ` from ${min} to ${max}` : min > -Infinity ? ` of at least ${min}` : ''
+  problems.push(`${field}: expected a whole number${range}`)
+  return Math.max(0, min)
+}
+
+export function readBoolean(fields: Fields, field: string, problems: string[], fallback: boolean): boolean {
+  const value = fields[field]
+  if (typeof value === 'boolean') return value
+  if (value !== undefined) problems.push(`${field}: expected true or false`)
+  return fallback
+}
@@ -0,0 +1,9 @@
+/**
+ * index.ts - Validation Barrel Export
+ * ===================================
+ * The field readers that character and monster imports share:
+ *
+ *   import { isFields, readText, readInteger } from './validation'
+ */
+export { isFields, readText, readInteger, readBoolean } from './fieldReaders'
+export type { Fields } from './fieldReaders'